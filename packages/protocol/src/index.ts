@@ -0,0 +1,37 @@
+/**
+ * CC Chat Protocol
+ *
+ * What cc-chat-server and cc-chat-react agree on: the protocol version,
+ * action names, capabilities, limits and error codes, plus validation of the
+ * messages clients send.
+ */
+
+export {
+  PROTOCOL_VERSION,
+  CLIENT_CHAT_ACTIONS,
+  SERVER_CHAT_ACTIONS,
+  CHAT_ACTIONS,
+  CLIENT_SYSTEM_ACTIONS,
+  SERVER_SYSTEM_ACTIONS,
+  SYSTEM_ACTIONS,
+  CAPABILITIES,
+  PROTOCOL_LIMITS,
+  type ChatAction,
+  type SystemAction,
+  type ClientChatAction,
+  type ClientSystemAction,
+  type Capability,
+  type ProtocolErrorCode,
+  type ProtocolError,
+} from './protocol';
+export {
+  messageOptionsSchema,
+  clientChatPayloadSchema,
+  clientSystemPayloadSchema,
+  clientMessageSchema,
+  parseClientMessage,
+  type ClientChatPayload,
+  type ClientSystemPayload,
+  type ClientMessage,
+  type ParsedClientMessage,
+} from './schemas';
@@ -0,0 +1,150 @@
+/**
+ * Protocol Constants
+ *
+ * The protocol version, action names, capabilities, limits and error codes
+ * both packages build on.
+ */
+
+// =============================================================================
+// Version
+// =============================================================================
+
+/**
+ * WebSocket protocol version. Bump it when a change would break older
+ * peers; clients that never say hello are treated as version 1.
+ */
+export const PROTOCOL_VERSION = 2;
+
+// =============================================================================
+// Actions
+// =============================================================================
+
+/**
+ * Chat actions clients send.
+ */
+export const CLIENT_CHAT_ACTIONS = [
+  'send',          // User sends a message
+  'cancel',        // Client cancels the response
+  'approve',       // Client approves a pending tool call
+  'deny',          // Client denies a pending tool call
+  'answer',        // Client answers a pending question
+  'reorder_queue', // Client moves a queued prompt
+  'remove_queued', // Client drops a queued prompt
+] as const;
+
+/**
+ * Chat actions the server sends.
+ */
+export const SERVER_CHAT_ACTIONS = [
+  'token',               // Streaming text token from Claude
+  'complete',            // Response complete
+  'error',               // Error occurred
+  'tool_start',          // Tool execution started
+  'tool_end',            // Tool execution completed
+  'thinking',            // Claude is thinking (status message)
+  'thinking_delta',      // Streaming extended thinking text
+  'todo_update',         // Todo list changed
+  'permission_request',  // Tool call needs approval ('prompt' permission mode)
+  'permission_resolved', // Permission request approved, denied or timed out
+  'queued',              // Prompt queued behind the running response
+  'queue_update',        // Queue changed (reordered, removed, or next prompt started)
+  'tool_output',         // Text a Task subagent wrote
+  'question',            // Claude asked the user something (AskUserQuestion)
+  'question_resolved',   // Question answered or superseded
+] as const;
+
+export const CHAT_ACTIONS = [...CLIENT_CHAT_ACTIONS, ...SERVER_CHAT_ACTIONS] as const;
+
+/**
+ * System actions clients send.
+ */
+export const CLIENT_SYSTEM_ACTIONS = [
+  'hello',           // Protocol version and supported features
+  'subscribe',       // Follow a session (clients can follow several)
+  'unsubscribe',     // Stop following a session
+  'catch_up',        // Request missed events
+  'list_sessions',   // Request past sessions for the project
+  'load_history',    // Request a session's transcript
+  'list_projects',   // Request the registered projects
+  'get_tool_result', // Request a tool's full output (paged)
+] as const;
+
+/**
+ * System actions the server sends.
+ */
+export const SERVER_SYSTEM_ACTIONS = [
+  'connected',       // Initial connection; in reply to hello, the server's versions and capabilities
+  'snapshot',        // State snapshot for catch-up
+  'session_started', // A new session's real ID (replacing its placeholder)
+  'session_list',    // Past sessions
+  'history',         // A session's messages
+  'project_list',    // The registered projects
+  'tool_result',     // A page of a tool's output
+  'error',           // System-level error
+] as const;
+
+export const SYSTEM_ACTIONS = [...CLIENT_SYSTEM_ACTIONS, ...SERVER_SYSTEM_ACTIONS] as const;
+
+export type ChatAction = (typeof CHAT_ACTIONS)[number];
+export type SystemAction = (typeof SYSTEM_ACTIONS)[number];
+export type ClientChatAction = (typeof CLIENT_CHAT_ACTIONS)[number];
+export type ClientSystemAction = (typeof CLIENT_SYSTEM_ACTIONS)[number];
+
+// =============================================================================
+// Capabilities
+// =============================================================================
+
+/**
+ * Optional protocol features, agreed in the hello handshake. A connection
+ * only gets the events of capabilities both sides listed.
+ */
+export const CAPABILITIES = [
+  'thinking',     // thinking_delta events
+  'subagents',    // tool_output events from Task subagents
+  'permissions',  // permission_request/permission_resolved ('prompt' permission mode only)
+  'questions',    // question/question_resolved
+  'queue',        // queued/queue_update
+  'uploads',      // Attachments from POST /uploads
+  'tool_results', // get_tool_result paging
+] as const;
+
+export type Capability = (typeof CAPABILITIES)[number];
+
+// =============================================================================
+// Limits and Errors
+// =============================================================================
+
+export const PROTOCOL_LIMITS = {
+  /** Largest message a client may send, in bytes (attachments go through POST /uploads) */
+  MAX_MESSAGE_BYTES: 1024 * 1024,
+
+  /** Longest prompt, in characters */
+  MAX_PROMPT_LENGTH: 100_000,
+
+  /** Longest ID a client may send (sessions, tools, permissions, requests) */
+  MAX_ID_LENGTH: 256,
+} as const;
+
+/**
+ * Why the server rejected or failed a client message, sent as `code` in a
+ * system error.
+ */
+export type ProtocolErrorCode =
+  | 'invalid_json'          // Not a JSON object
+  | 'message_too_large'     // Over MAX_MESSAGE_BYTES
+  | 'unknown_action'        // Not an action clients may send
+  | 'invalid_message'       // A field is missing, unknown or has the wrong type
+  | 'prompt_too_long'       // send content over MAX_PROMPT_LENGTH
+  | 'unsupported_protocol'  // hello from a protocol version the server no longer supports
+  | 'request_failed'        // Valid, but the server can't carry it out (unknown or unsubscribed session, unknown project or question)
+  | 'internal_error';       // The server failed while handling it
+
+/**
+ * A rejected client message: what went wrong, and the `requestId` the client
+ * gave it (if any).
+ */
+export interface ProtocolError {
+  code: ProtocolErrorCode;
+  message: string;
+  requestId?: string;
+}
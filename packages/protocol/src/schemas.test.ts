@@ -0,0 +1,144 @@
+/**
+ * Tests for client message validation.
+ */
+
+import { describe, expect, test } from 'bun:test';
+import { parseClientMessage, PROTOCOL_LIMITS } from './index';
+
+function parse(message: unknown) {
+  return parseClientMessage(JSON.stringify(message));
+}
+
+// =============================================================================
+// Valid Messages
+// =============================================================================
+
+describe('parseClientMessage', () => {
+  test('accepts a send', () => {
+    const result = parse({
+      type: 'chat',
+      timestamp: 1,
+      sessionId: null,
+      requestId: 'req-1',
+      payload: { action: 'send', content: 'Hi', newSessionId: 'new-1', options: { model: 'opus' } },
+    });
+
+    expect(result).toEqual({
+      ok: true,
+      message: {
+        type: 'chat',
+        timestamp: 1,
+        sessionId: null,
+        requestId: 'req-1',
+        payload: { action: 'send', content: 'Hi', newSessionId: 'new-1', options: { model: 'opus' } },
+      },
+    });
+  });
+
+  test('accepts every system action clients send', () => {
+    const payloads = [
+      { action: 'hello', protocolVersion: 2, features: ['thinking'] },
+      { action: 'subscribe', sessionId: 's1' },
+      { action: 'unsubscribe', sessionId: 's1' },
+      { action: 'catch_up', sessionId: 's1', lastSeq: 4 },
+      { action: 'list_sessions' },
+      { action: 'load_history', sessionId: 's1' },
+      { action: 'list_projects' },
+      { action: 'get_tool_result', sessionId: 's1', toolId: 't1', offset: 0 },
+    ];
+
+    for (const payload of payloads) {
+      expect(parse({ type: 'system', payload }).ok).toBe(true);
+    }
+  });
+
+  test('accepts protocol v1 messages with their legacy seq', () => {
+    const subscribe = {
+      type: 'system',
+      seq: 0,
+      timestamp: 1,
+      payload: { action: 'subscribe', sessionId: 's1' },
+    };
+    const send = {
+      type: 'chat',
+      seq: 0,
+      timestamp: 1,
+      sessionId: 's1',
+      payload: { action: 'send', content: 'Hi' },
+    };
+
+    expect(parse(subscribe).ok).toBe(true);
+    expect(parse(send).ok).toBe(true);
+  });
+
+  // ===========================================================================
+  // Rejected Messages
+  // ===========================================================================
+
+  test('rejects text that is not a JSON object', () => {
+    expect(parseClientMessage('{not json')).toEqual({
+      ok: false,
+      error: { code: 'invalid_json', message: 'Message is not valid JSON' },
+    });
+    expect(parseClientMessage('[1, 2]')).toMatchObject({ ok: false, error: { code: 'invalid_json' } });
+  });
+
+  test('rejects messages over the size limit', () => {
+    const content = 'x'.repeat(PROTOCOL_LIMITS.MAX_MESSAGE_BYTES);
+    expect(parse({ type: 'chat', payload: { action: 'send', content } })).toMatchObject({
+      ok: false,
+      error: { code: 'message_too_large' },
+    });
+  });
+
+  test('rejects prompts over the length limit, echoing the request ID', () => {
+    const content = 'x'.repeat(PROTOCOL_LIMITS.MAX_PROMPT_LENGTH + 1);
+    expect(parse({ type: 'chat', requestId: 'req-2', payload: { action: 'send', content } })).toMatchObject({
+      ok: false,
+      error: { code: 'prompt_too_long', requestId: 'req-2' },
+    });
+  });
+
+  test('rejects actions clients may not send', () => {
+    expect(parse({ type: 'chat', requestId: 'req-3', payload: { action: 'token', content: 'Hi' } })).toEqual({
+      ok: false,
+      error: { code: 'unknown_action', message: 'Unknown chat action: token', requestId: 'req-3' },
+    });
+    expect(parse({ type: 'system', payload: { action: 'teleport' } })).toMatchObject({
+      ok: false,
+      error: { code: 'unknown_action' },
+    });
+  });
+
+  test('names the field that is missing or wrong', () => {
+    expect(parse({ type: 'chat', payload: { action: 'approve' } })).toMatchObject({
+      ok: false,
+      error: { code: 'invalid_message', message: 'payload.permissionId: Required' },
+    });
+    expect(parse({ type: 'system', payload: { action: 'catch_up', sessionId: 's1', lastSeq: -1 } })).toMatchObject({
+      ok: false,
+      error: { code: 'invalid_message' },
+    });
+    expect(parse({ type: 'nope', payload: {} })).toMatchObject({
+      ok: false,
+      error: { code: 'invalid_message' },
+    });
+  });
+
+  test('rejects fields the action does not take', () => {
+    expect(parse({ type: 'chat', payload: { action: 'cancel', force: true } })).toMatchObject({
+      ok: false,
+      error: { code: 'invalid_message', message: "payload: Unrecognized key(s) in object: 'force'" },
+    });
+    expect(parse({ type: 'system', extra: 1, payload: { action: 'list_projects' } }).ok).toBe(false);
+    expect(
+      parse({ type: 'chat', payload: { action: 'send', content: 'Hi', options: { model: 'opus', sudo: true } } }).ok
+    ).toBe(false);
+  });
+
+  test('rejects empty prompts and oversized IDs', () => {
+    expect(parse({ type: 'chat', payload: { action: 'send', content: '' } }).ok).toBe(false);
+    const sessionId = 's'.repeat(PROTOCOL_LIMITS.MAX_ID_LENGTH + 1);
+    expect(parse({ type: 'system', payload: { action: 'unsubscribe', sessionId } }).ok).toBe(false);
+  });
+});
@@ -0,0 +1,191 @@
+/**
+ * Client Message Schemas
+ *
+ * Zod schemas for everything a client may send, and parseClientMessage,
+ * which the server runs on every inbound message before acting on it.
+ */
+
+import { z } from 'zod';
+import {
+  CLIENT_CHAT_ACTIONS,
+  CLIENT_SYSTEM_ACTIONS,
+  PROTOCOL_LIMITS,
+  type ProtocolError,
+} from './protocol';
+
+// =============================================================================
+// Shared Schemas
+// =============================================================================
+
+const idSchema = z.string().min(1).max(PROTOCOL_LIMITS.MAX_ID_LENGTH);
+
+export const messageOptionsSchema = z.object({
+  model: z.string().optional(),
+  maxTurns: z.number().optional(),
+  allowedTools: z.array(z.string()).optional(),
+  disallowedTools: z.array(z.string()).optional(),
+  appendSystemPrompt: z.string().optional(),
+  permissionMode: z.enum(['skip', 'prompt', 'allowlist']).optional(),
+}).strict();
+
+// =============================================================================
+// Client Payload Schemas
+// =============================================================================
+
+export const clientChatPayloadSchema = z.discriminatedUnion('action', [
+  z.object({
+    action: z.literal('send'),
+    content: z.string().min(1).max(PROTOCOL_LIMITS.MAX_PROMPT_LENGTH),
+    projectId: idSchema.optional(),
+    options: messageOptionsSchema.optional(),
+    attachments: z.array(idSchema).optional(),
+    newSessionId: idSchema.optional(),
+  }).strict(),
+  z.object({ action: z.literal('cancel') }).strict(),
+  z.object({ action: z.literal('approve'), permissionId: idSchema }).strict(),
+  z.object({
+    action: z.literal('deny'),
+    permissionId: idSchema,
+    reason: z.string().optional(),
+  }).strict(),
+  z.object({
+    action: z.literal('answer'),
+    questionId: idSchema,
+    answers: z.record(z.union([z.string(), z.array(z.string())])),
+  }).strict(),
+  z.object({
+    action: z.literal('reorder_queue'),
+    queueId: idSchema,
+    position: z.number().int(),
+  }).strict(),
+  z.object({ action: z.literal('remove_queued'), queueId: idSchema }).strict(),
+]);
+
+export const clientSystemPayloadSchema = z.discriminatedUnion('action', [
+  z.object({
+    action: z.literal('hello'),
+    protocolVersion: z.number().int(),
+    features: z.array(z.string()).optional(),
+  }).strict(),
+  z.object({
+    action: z.literal('subscribe'),
+    sessionId: idSchema.optional(),
+    projectId: idSchema.optional(),
+  }).strict(),
+  z.object({ action: z.literal('unsubscribe'), sessionId: idSchema }).strict(),
+  z.object({
+    action: z.literal('catch_up'),
+    sessionId: idSchema,
+    lastSeq: z.number().int().min(0).optional(),
+  }).strict(),
+  z.object({ action: z.literal('list_sessions'), projectId: idSchema.optional() }).strict(),
+  z.object({
+    action: z.literal('load_history'),
+    sessionId: idSchema,
+    projectId: idSchema.optional(),
+  }).strict(),
+  z.object({ action: z.literal('list_projects') }).strict(),
+  z.object({
+    action: z.literal('get_tool_result'),
+    sessionId: idSchema,
+    toolId: idSchema,
+    offset: z.number().int().min(0).optional(),
+    limit: z.number().int().min(1).optional(),
+  }).strict(),
+]);
+
+// =============================================================================
+// Client Message Schema
+// =============================================================================
+
+const envelope = {
+  timestamp: z.number().optional(),
+  // Clients without a session yet send null
+  sessionId: idSchema.nullish(),
+  // Echoed back in errors about this message
+  requestId: idSchema.optional(),
+  // Protocol v1 clients send seq: 0 on every message; ignored
+  seq: z.number().optional(),
+};
+
+export const clientMessageSchema = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('chat'), ...envelope, payload: clientChatPayloadSchema }).strict(),
+  z.object({ type: z.literal('system'), ...envelope, payload: clientSystemPayloadSchema }).strict(),
+]);
+
+export type ClientChatPayload = z.infer<typeof clientChatPayloadSchema>;
+export type ClientSystemPayload = z.infer<typeof clientSystemPayloadSchema>;
+export type ClientMessage = z.infer<typeof clientMessageSchema>;
+
+export type ParsedClientMessage =
+  | { ok: true; message: ClientMessage }
+  | { ok: false; error: ProtocolError };
+
+// =============================================================================
+// Parsing
+// =============================================================================
+
+const encoder = new TextEncoder();
+
+function reject(
+  code: ProtocolError['code'],
+  message: string,
+  requestId?: string
+): ParsedClientMessage {
+  return { ok: false, error: requestId ? { code, message, requestId } : { code, message } };
+}
+
+/**
+ * Parse and validate a raw client message. Rejects oversized and malformed
+ * messages, unknown fields and actions clients may not send, naming the
+ * problem.
+ */
+export function parseClientMessage(data: string): ParsedClientMessage {
+  if (encoder.encode(data).length > PROTOCOL_LIMITS.MAX_MESSAGE_BYTES) {
+    return reject(
+      'message_too_large',
+      `Message is larger than ${PROTOCOL_LIMITS.MAX_MESSAGE_BYTES} bytes`
+    );
+  }
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(data);
+  } catch {
+    return reject('invalid_json', 'Message is not valid JSON');
+  }
+  if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) {
+    return reject('invalid_json', 'Message is not a JSON object');
+  }
+
+  const { type, payload, requestId: rawRequestId } = raw as Record<string, unknown>;
+  const requestId =
+    typeof rawRequestId === 'string' && rawRequestId.length <= PROTOCOL_LIMITS.MAX_ID_LENGTH
+      ? rawRequestId
+      : undefined;
+  const action = (payload as { action?: unknown } | null)?.action;
+
+  // Name unknown actions rather than reporting a schema mismatch
+  const actions: readonly string[] | undefined =
+    type === 'chat' ? CLIENT_CHAT_ACTIONS : type === 'system' ? CLIENT_SYSTEM_ACTIONS : undefined;
+  if (actions && typeof action === 'string' && !actions.includes(action)) {
+    return reject('unknown_action', `Unknown ${type} action: ${action.slice(0, 64)}`, requestId);
+  }
+
+  const content = action === 'send' ? (payload as { content?: unknown }).content : undefined;
+  if (typeof content === 'string' && content.length > PROTOCOL_LIMITS.MAX_PROMPT_LENGTH) {
+    return reject(
+      'prompt_too_long',
+      `Prompt is longer than ${PROTOCOL_LIMITS.MAX_PROMPT_LENGTH} characters`,
+      requestId
+    );
+  }
+
+  const result = clientMessageSchema.safeParse(raw);
+  if (!result.success) {
+    const issue = result.error.issues[0];
+    const path = issue.path.join('.');
+    return reject('invalid_message', path ? `${path}: ${issue.message}` : issue.message, requestId);
+  }
+  return { ok: true, message: result.data };
+}
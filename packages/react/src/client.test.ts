@@ -0,0 +1,1146 @@
+/**
+ * Tests for ClaudeClient, against a fake WebSocket.
+ */
+
+import { afterAll, beforeAll, describe, expect, test } from 'bun:test';
+import { ClaudeClient } from './client';
+import { PROTOCOL_LIMITS } from 'cc-chat-protocol';
+import { PROTOCOL_VERSION } from './socket';
+import { createMemoryStorage, loadSession, saveSession } from './storage';
+import type { ClaudeClientOptions, ClaudeClientState, PersistedSession, WebSocketMessage } from './types';
+
+class FakeWebSocket {
+  static readonly CONNECTING = 0;
+  static readonly OPEN = 1;
+  static readonly CLOSING = 2;
+  static readonly CLOSED = 3;
+  static instances: FakeWebSocket[] = [];
+
+  readyState = FakeWebSocket.CONNECTING;
+  sent: Array<{ type: string; requestId?: string; payload: Record<string, unknown> }> = [];
+  onopen: (() => void) | null = null;
+  onmessage: ((event: { data: string }) => void) | null = null;
+  onclose: (() => void) | null = null;
+  onerror: ((error: unknown) => void) | null = null;
+
+  constructor(public url: string, public protocols?: string[]) {
+    FakeWebSocket.instances.push(this);
+  }
+
+  send(data: string) {
+    this.sent.push(JSON.parse(data));
+  }
+
+  close() {
+    this.readyState = FakeWebSocket.CLOSED;
+  }
+
+  open() {
+    this.readyState = FakeWebSocket.OPEN;
+    this.onopen?.();
+  }
+
+  /** The connection drops (server restart, network loss) */
+  drop() {
+    this.readyState = FakeWebSocket.CLOSED;
+    this.onclose?.();
+  }
+
+  receive(message: Omit<WebSocketMessage, 'timestamp'>) {
+    this.onmessage?.({ data: JSON.stringify({ timestamp: Date.now(), ...message }) });
+  }
+}
+
+const RealWebSocket = globalThis.WebSocket;
+
+beforeAll(() => {
+  globalThis.WebSocket = FakeWebSocket as unknown as typeof WebSocket;
+});
+
+afterAll(() => {
+  globalThis.WebSocket = RealWebSocket;
+});
+
+let urlCount = 0;
+
+/**
+ * A client connected to its own URL (the socket is shared per URL).
+ */
+function connectClient(
+  options: Partial<ClaudeClientOptions> = {}
+): { client: ClaudeClient; ws: FakeWebSocket } {
+  const client = new ClaudeClient({ url: `ws://test-${++urlCount}/ws`, ...options });
+  client.connect();
+  const ws = FakeWebSocket.instances[FakeWebSocket.instances.length - 1];
+  ws.open();
+  return { client, ws };
+}
+
+function token(ws: FakeWebSocket, content: string, sessionSeq: number, sessionId = 's1') {
+  ws.receive({ type: 'chat', sessionId, sessionSeq, payload: { action: 'token', content } });
+}
+
+// =============================================================================
+// Connection Tests
+// =============================================================================
+
+describe('ClaudeClient connection', () => {
+  test('reports status and emits connect', () => {
+    const client = new ClaudeClient({ url: `ws://test-${++urlCount}/ws` });
+    let connected = 0;
+    client.on('connect', () => connected++);
+
+    client.connect();
+    expect(client.getState().status).toBe('connecting');
+
+    FakeWebSocket.instances[FakeWebSocket.instances.length - 1].open();
+    expect(client.getState().status).toBe('connected');
+    expect(connected).toBe(1);
+  });
+
+  test('clients on one URL share a socket until the last disconnects', () => {
+    const { client: first, ws } = connectClient();
+    const second = new ClaudeClient({ url: ws.url });
+    second.connect();
+
+    expect(FakeWebSocket.instances.filter((s) => s.url === ws.url)).toHaveLength(1);
+    expect(second.getState().status).toBe('connected');
+
+    first.disconnect();
+    expect(ws.readyState).toBe(FakeWebSocket.OPEN);
+    second.disconnect();
+    expect(ws.readyState).toBe(FakeWebSocket.CLOSED);
+  });
+
+  test('actions fail with an error while disconnected', () => {
+    const client = new ClaudeClient({ url: `ws://test-${++urlCount}/ws` });
+    client.send('Hi');
+    expect(client.getState().error).toBe('Not connected');
+  });
+});
+
+// =============================================================================
+// Reconnect Tests
+// =============================================================================
+
+describe('ClaudeClient reconnects', () => {
+  test('schedules a backoff retry after a drop', () => {
+    const { client, ws } = connectClient({ reconnectDelay: 1000 });
+    const before = Date.now();
+    ws.drop();
+
+    const state = client.getState();
+    expect(state.status).toBe('reconnecting');
+    expect(state.reconnectAttempt).toBe(1);
+    expect(state.nextRetryAt).toBeGreaterThanOrEqual(before + 500);
+    expect(state.nextRetryAt).toBeLessThanOrEqual(Date.now() + 1000);
+
+    client.disconnect();
+    expect(client.getState()).toMatchObject({ status: 'disconnected', reconnectAttempt: 0, nextRetryAt: null });
+  });
+
+  test('resets the attempt count once reconnected', async () => {
+    const { client, ws } = connectClient({ reconnectDelay: 1 });
+    ws.drop();
+    await Bun.sleep(10);
+
+    const retry = FakeWebSocket.instances[FakeWebSocket.instances.length - 1];
+    expect(retry).not.toBe(ws);
+    expect(client.getState()).toMatchObject({ status: 'reconnecting', reconnectAttempt: 1, nextRetryAt: null });
+
+    retry.open();
+    expect(client.getState()).toMatchObject({ status: 'connected', reconnectAttempt: 0 });
+    client.disconnect();
+  });
+
+  test('finishes a stream cut off by the drop', async () => {
+    const { client, ws } = connectClient({ sessionId: 's1', reconnectDelay: 1 });
+    client.send('Hi');
+    token(ws, 'Hel', 1);
+    ws.drop();
+    await Bun.sleep(10);
+
+    // Meanwhile the server streamed the rest and completed the turn
+    const retry = FakeWebSocket.instances[FakeWebSocket.instances.length - 1];
+    retry.open();
+    expect(retry.sent.map((m) => m.payload.action)).toEqual(['hello', 'subscribe', 'catch_up']);
+
+    const idle = { status: 'idle', accumulatedContent: '', tools: [], todos: [] };
+    retry.receive({
+      type: 'system',
+      sessionId: 's1',
+      payload: { action: 'snapshot', sessionId: 's1', chatState: idle, currentSeq: 3 },
+    });
+    retry.receive({
+      type: 'system',
+      sessionId: 's1',
+      payload: {
+        action: 'snapshot',
+        sessionId: 's1',
+        chatState: idle,
+        currentSeq: 3,
+        events: [
+          { type: 'chat', sessionId: 's1', sessionSeq: 1, timestamp: 1, payload: { action: 'token', content: 'Hel' } },
+          { type: 'chat', sessionId: 's1', sessionSeq: 2, timestamp: 2, payload: { action: 'token', content: 'lo' } },
+          { type: 'chat', sessionId: 's1', sessionSeq: 3, timestamp: 3, payload: { action: 'complete' } },
+        ],
+      },
+    });
+
+    const state = client.getState();
+    expect(state.isStreaming).toBe(false);
+    expect(state.messages[1]).toMatchObject({ role: 'assistant', content: 'Hello', isStreaming: false });
+    client.disconnect();
+  });
+
+  test('gives up without retrying when autoReconnect is off', () => {
+    const { client, ws } = connectClient({ autoReconnect: false });
+    let disconnected = 0;
+    client.on('disconnect', () => disconnected++);
+    ws.drop();
+
+    expect(client.getState()).toMatchObject({ status: 'disconnected', nextRetryAt: null });
+    expect(disconnected).toBe(1);
+    client.disconnect();
+  });
+});
+
+// =============================================================================
+// State Tests
+// =============================================================================
+
+describe('ClaudeClient state', () => {
+  test('streams a response into the assistant message', () => {
+    const { client, ws } = connectClient();
+
+    client.send('Hi');
+    const draftId = client.getState().sessionId;
+    expect(draftId).toStartWith('new-');
+    expect(ws.sent[1]).toMatchObject({
+      type: 'chat',
+      payload: { action: 'send', content: 'Hi', newSessionId: draftId },
+    });
+    expect(client.getState().isStreaming).toBe(true);
+
+    token(ws, 'Hel', 1, draftId!);
+    ws.receive({ type: 'system', sessionId: 's1', payload: { action: 'session_started', sessionId: 's1', previousSessionId: draftId } });
+    token(ws, 'lo', 2);
+    expect(client.getState().streamingContent).toBe('Hello');
+    expect(client.getState().messages[1]).toMatchObject({ role: 'assistant', content: 'Hello', isStreaming: true });
+
+    ws.receive({ type: 'chat', sessionId: 's1', sessionSeq: 3, payload: { action: 'complete' } });
+    const state = client.getState();
+    expect(state.isStreaming).toBe(false);
+    expect(state.sessionId).toBe('s1');
+    expect(state.messages[1]).toMatchObject({ content: 'Hello', isStreaming: false });
+    expect(state.messages[1].contentBlocks).toMatchObject([{ type: 'text', content: 'Hello' }]);
+  });
+
+  test('replaces the state instead of mutating it', () => {
+    const { client, ws } = connectClient({ sessionId: 's1' });
+    client.send('Hi');
+
+    const before = client.getState();
+    const beforeMessages = before.messages;
+    token(ws, 'Hello', 1);
+
+    expect(client.getState()).not.toBe(before);
+    expect(before.streamingContent).toBe('');
+    expect(before.messages).toBe(beforeMessages);
+    expect(before.messages[1].content).toBe('');
+  });
+
+  test('emits one state change per server message', () => {
+    const { client, ws } = connectClient({ sessionId: 's1' });
+    client.send('Hi');
+
+    const states: ClaudeClientState[] = [];
+    const unsubscribe = client.subscribe((state) => states.push(state));
+    token(ws, 'Hello', 1);
+    unsubscribe();
+    token(ws, ' there', 2);
+
+    expect(states).toHaveLength(1);
+    expect(states[0].streamingContent).toBe('Hello');
+  });
+
+  test('emits validated server messages', () => {
+    const { client, ws } = connectClient({ sessionId: 's1' });
+    const actions: string[] = [];
+    client.on('message', (msg) => actions.push((msg.payload as { action: string }).action));
+
+    ws.receive({ type: 'chat', sessionId: 's1', sessionSeq: 1, payload: { action: 'todo_update', todos: [] } });
+    ws.receive({ type: 'chat', sessionId: 's1', sessionSeq: 2, payload: { action: 'not_an_action' } });
+
+    expect(actions).toEqual(['todo_update']);
+  });
+});
+
+// =============================================================================
+// Multiple Session Tests
+// =============================================================================
+
+describe('ClaudeClient sessions', () => {
+  test('clients on one socket only see their own session', () => {
+    const { client: first, ws } = connectClient({ sessionId: 's1' });
+    const second = new ClaudeClient({ url: ws.url, sessionId: 's2' });
+    second.connect();
+    expect(ws.sent.filter((m) => m.payload.action === 'subscribe').map((m) => m.payload.sessionId)).toEqual(['s1', 's2']);
+
+    first.send('Hi');
+    second.send('Hey');
+
+    token(ws, 'one', 1, 's1');
+    token(ws, 'two', 1, 's2');
+
+    expect(first.getState().streamingContent).toBe('one');
+    expect(second.getState().streamingContent).toBe('two');
+  });
+
+  test('new sessions on one socket keep their own draft IDs', () => {
+    const { client: first, ws } = connectClient();
+    const second = new ClaudeClient({ url: ws.url });
+    second.connect();
+    first.send('Hi');
+    second.send('Hey');
+
+    const firstDraft = first.getState().sessionId!;
+    const secondDraft = second.getState().sessionId!;
+    expect(firstDraft).not.toBe(secondDraft);
+
+    ws.receive({ type: 'system', sessionId: 'real-2', payload: { action: 'session_started', sessionId: 'real-2', previousSessionId: secondDraft } });
+    expect(first.getState().sessionId).toBe(firstDraft);
+    expect(second.getState().sessionId).toBe('real-2');
+  });
+
+  test('unsubscribes from a session no other client follows', () => {
+    const { client: first, ws } = connectClient({ sessionId: 's1' });
+    const second = new ClaudeClient({ url: ws.url, sessionId: 's1' });
+    second.connect();
+    const third = new ClaudeClient({ url: ws.url, sessionId: 's2' });
+    third.connect();
+    const unsubscribes = () => ws.sent.filter((m) => m.payload.action === 'unsubscribe');
+
+    first.disconnect();
+    expect(unsubscribes()).toHaveLength(0);
+
+    second.resumeSession('s3');
+    expect(unsubscribes()).toMatchObject([{ payload: { sessionId: 's1' } }]);
+  });
+
+  test('re-subscribes to every session after a reconnect', async () => {
+    const { client: first, ws } = connectClient({ sessionId: 's1', reconnectDelay: 1 });
+    const second = new ClaudeClient({ url: ws.url, sessionId: 's2' });
+    second.connect();
+    ws.drop();
+    await Bun.sleep(10);
+
+    const retry = FakeWebSocket.instances[FakeWebSocket.instances.length - 1];
+    retry.open();
+    const subscribed = retry.sent
+      .filter((m) => m.payload.action === 'subscribe')
+      .map((m) => m.payload.sessionId);
+    expect(subscribed).toEqual(['s1', 's2']);
+
+    first.disconnect();
+    second.disconnect();
+  });
+});
+
+// =============================================================================
+// Handshake Tests
+// =============================================================================
+
+describe('ClaudeClient handshake', () => {
+  function helloReply(ws: FakeWebSocket, payload: Record<string, unknown> = {}) {
+    ws.receive({
+      type: 'system',
+      payload: {
+        action: 'connected',
+        protocolVersion: 2,
+        serverVersion: '1.2.3',
+        cliVersion: '2.0.0 (Claude Code)',
+        capabilities: ['thinking', 'queue'],
+        projects: [{ id: 'default', name: 'app', path: '/srv/app' }],
+        ...payload,
+      },
+    });
+  }
+
+  test('says hello first and records the reply', () => {
+    const { client, ws } = connectClient({ sessionId: 's1' });
+    expect(ws.sent[0]).toMatchObject({
+      type: 'system',
+      payload: { action: 'hello', protocolVersion: PROTOCOL_VERSION },
+    });
+    expect(ws.sent[0].payload.features).toContain('uploads');
+
+    helloReply(ws);
+    const state = client.getState();
+    expect(state.server).toEqual({
+      protocolVersion: 2,
+      serverVersion: '1.2.3',
+      cliVersion: '2.0.0 (Claude Code)',
+      capabilities: ['thinking', 'queue'],
+    });
+    expect(state.projects.map((p) => p.id)).toEqual(['default']);
+    expect(client.supports('thinking')).toBe(true);
+    expect(client.supports('uploads')).toBe(false);
+  });
+
+  test('keepalives leave the server details alone', () => {
+    const { client, ws } = connectClient();
+    helloReply(ws);
+    ws.receive({ type: 'system', payload: { action: 'connected' } });
+    expect(client.getState().server?.serverVersion).toBe('1.2.3');
+  });
+
+  test('assumes everything of servers that predate the handshake', () => {
+    const { client, ws } = connectClient();
+    ws.receive({ type: 'system', payload: { action: 'connected' } });
+    expect(client.getState().server).toBeNull();
+    expect(client.supports('uploads')).toBe(true);
+  });
+
+  test('clients joining an open socket get the reply too', () => {
+    const { ws } = connectClient();
+    helloReply(ws);
+    const second = new ClaudeClient({ url: ws.url });
+    second.connect();
+    expect(second.getState().server?.capabilities).toEqual(['thinking', 'queue']);
+  });
+
+  test('reports a server too old to talk to', () => {
+    const { client, ws } = connectClient();
+    helloReply(ws, { protocolVersion: 0 });
+    expect(client.getState().error).toContain('Update the server');
+  });
+
+  test("doesn't upload attachments to servers without uploads", () => {
+    const { client, ws } = connectClient({ sessionId: 's1' });
+    helloReply(ws);
+    client.send('See attached', { attachments: [new File(['hi'], 'note.txt')] });
+
+    expect(client.getState().error).toBe("This server doesn't accept attachments");
+    expect(ws.sent.some((m) => m.type === 'chat')).toBe(false);
+  });
+});
+
+// =============================================================================
+// Request Error Tests
+// =============================================================================
+
+describe('ClaudeClient request errors', () => {
+  function reject(ws: FakeWebSocket, requestId: string | undefined, code: string, error: string) {
+    ws.receive({ type: 'system', payload: { action: 'error', code, requestId, error } });
+  }
+
+  test('tags what it sends with a request ID', () => {
+    const { client, ws } = connectClient({ sessionId: 's1' });
+    client.send('Hi');
+    client.listSessions();
+
+    const [send, list] = ws.sent.filter((m) => m.type === 'chat' || m.payload.action === 'list_sessions');
+    expect(send.requestId).toBeString();
+    expect(list.requestId).toBeString();
+    expect(send.requestId).not.toBe(list.requestId);
+  });
+
+  test('a rejected prompt ends the turn it started', () => {
+    const { client, ws } = connectClient({ sessionId: 's1' });
+    client.send('Hi');
+    expect(client.getState().isStreaming).toBe(true);
+
+    const { requestId } = ws.sent.find((m) => m.type === 'chat')!;
+    reject(ws, requestId, 'invalid_message', 'payload.options.model: Expected string');
+
+    const state = client.getState();
+    expect(state.isStreaming).toBe(false);
+    expect(state.error).toBe('payload.options.model: Expected string');
+  });
+
+  test("errors about another client's request stay with that client", () => {
+    const { client: first, ws } = connectClient({ sessionId: 's1' });
+    const second = new ClaudeClient({ url: ws.url, sessionId: 's2' });
+    second.connect();
+
+    second.send('Hey');
+    const { requestId } = ws.sent.filter((m) => m.type === 'chat').pop()!;
+    reject(ws, requestId, 'unknown_action', 'Unknown chat action: nope');
+
+    expect(first.getState().error).toBeNull();
+    expect(second.getState().error).toBe('Unknown chat action: nope');
+  });
+
+  test('errors without a request ID go to every client', () => {
+    const { client, ws } = connectClient();
+    reject(ws, undefined, 'invalid_json', 'Message is not valid JSON');
+    expect(client.getState().error).toBe('Message is not valid JSON');
+  });
+
+  test("doesn't send prompts over the length limit", () => {
+    const { client, ws } = connectClient({ sessionId: 's1' });
+    client.send('x'.repeat(PROTOCOL_LIMITS.MAX_PROMPT_LENGTH + 1));
+
+    expect(client.getState().error).toContain(`${PROTOCOL_LIMITS.MAX_PROMPT_LENGTH} characters`);
+    expect(client.getState().isStreaming).toBe(false);
+    expect(ws.sent.some((m) => m.type === 'chat')).toBe(false);
+  });
+});
+
+// =============================================================================
+// Storage Tests
+// =============================================================================
+
+describe('ClaudeClient storage', () => {
+  const saved: PersistedSession = {
+    sessionId: 's1',
+    messages: [
+      { id: 'u1', role: 'user', content: 'Hi', timestamp: 1 },
+      { id: 'a1', role: 'assistant', content: 'Hello', timestamp: 2 },
+    ],
+    todos: [{ content: 'Reply', status: 'completed' }],
+    lastSeq: 7,
+    savedAt: 3,
+  };
+
+  test('restores the last session and reconciles with the server', async () => {
+    const storage = createMemoryStorage();
+    await saveSession(storage, 'chat', 's1', saved);
+
+    const { client, ws } = connectClient({ storage, storageKey: 'chat' });
+    await client.restore();
+
+    const state = client.getState();
+    expect(state.sessionId).toBe('s1');
+    expect(state.messages.map((m) => m.id)).toEqual(['u1', 'a1']);
+    expect(state.todos).toEqual(saved.todos);
+    expect(ws.sent.map((m) => m.payload.action)).toEqual(['hello', 'subscribe', 'load_history']);
+
+    // A replayed event the client saw before the reload is dropped
+    token(ws, 'stale', 7);
+    expect(client.getState().streamingContent).toBe('');
+
+    ws.receive({
+      type: 'system',
+      sessionId: 's1',
+      payload: { action: 'history', sessionId: 's1', messages: [{ id: 'u1', role: 'user', content: 'Hi', timestamp: 1 }] },
+    });
+    expect(client.getState().messages.map((m) => m.id)).toEqual(['u1']);
+  });
+
+  test('saves the chat once a turn completes', async () => {
+    const storage = createMemoryStorage();
+    const { client, ws } = connectClient({ sessionId: 's1', storage });
+
+    client.send('Hi');
+    token(ws, 'Hello', 1);
+    expect(await loadSession(storage, 's1')).toBeUndefined();
+
+    ws.receive({ type: 'chat', sessionId: 's1', sessionSeq: 2, payload: { action: 'complete' } });
+    await Bun.sleep(0);
+
+    const session = await loadSession(storage, 's1');
+    expect(session?.messages.map((m) => m.content)).toEqual(['Hi', 'Hello']);
+    expect(session?.lastSeq).toBe(2);
+  });
+
+  test('keeps the live chat if it changed while loading', async () => {
+    const storage = createMemoryStorage();
+    await saveSession(storage, 'chat', 's1', saved);
+
+    const { client } = connectClient({ sessionId: 's1', storage, storageKey: 'chat' });
+    client.send('New prompt');
+    await client.restore();
+
+    expect(client.getState().messages[0].content).toBe('New prompt');
+  });
+});
+
+// =============================================================================
+// Permission Tests
+// =============================================================================
+
+describe('ClaudeClient permissions', () => {
+  function permissionRequest(ws: FakeWebSocket, id: string, sessionSeq: number) {
+    ws.receive({
+      type: 'chat',
+      sessionId: 's1',
+      sessionSeq,
+      payload: {
+        action: 'permission_request',
+        permission: { id, toolName: 'Bash', expiresAt: Date.now() + 60_000 },
+      },
+    });
+  }
+
+  test('tracks each request once until it is resolved', () => {
+    const { client, ws } = connectClient({ sessionId: 's1' });
+    client.send('Run the tests');
+
+    permissionRequest(ws, 'perm-1', 1);
+    permissionRequest(ws, 'perm-1', 2);
+    permissionRequest(ws, 'perm-2', 3);
+    expect(client.getState().pendingPermissions.map((p) => p.id)).toEqual(['perm-1', 'perm-2']);
+
+    ws.receive({
+      type: 'chat',
+      sessionId: 's1',
+      sessionSeq: 4,
+      payload: { action: 'permission_resolved', permissionId: 'perm-1', decision: 'allow' },
+    });
+    expect(client.getState().pendingPermissions.map((p) => p.id)).toEqual(['perm-2']);
+  });
+
+  test('approve and deny answer a request', () => {
+    const { client, ws } = connectClient({ sessionId: 's1' });
+    client.approve('perm-1');
+    client.deny('perm-2', 'Not on main');
+
+    expect(ws.sent.filter((m) => m.type === 'chat').map((m) => m.payload)).toEqual([
+      { action: 'approve', permissionId: 'perm-1' },
+      { action: 'deny', permissionId: 'perm-2', reason: 'Not on main' },
+    ]);
+  });
+});
+
+
+// =============================================================================
+// History Tests
+// =============================================================================
+
+describe('ClaudeClient history', () => {
+  const history = [
+    { id: 'u1', role: 'user' as const, content: 'Hi', timestamp: 1 },
+    { id: 'a1', role: 'assistant' as const, content: 'Hello', timestamp: 2 },
+  ];
+
+  test('resuming a session loads its transcript', () => {
+    const { client, ws } = connectClient({ sessionId: 's1' });
+    client.resumeSession('s2');
+
+    const loads = ws.sent.filter((m) => m.payload.action === 'load_history');
+    expect(loads[loads.length - 1].payload).toMatchObject({ action: 'load_history', sessionId: 's2' });
+
+    ws.receive({ type: 'system', sessionId: 's2', payload: { action: 'history', sessionId: 's2', messages: history } });
+    expect(client.getState().messages.map((m) => m.id)).toEqual(['u1', 'a1']);
+  });
+
+  test('keeps a response that is already streaming', () => {
+    const { client, ws } = connectClient({ sessionId: 's1' });
+    client.send('Again');
+    token(ws, 'Partial', 1);
+
+    ws.receive({ type: 'system', sessionId: 's1', payload: { action: 'history', sessionId: 's1', messages: history } });
+
+    const messages = client.getState().messages;
+    expect(messages.map((m) => m.id).slice(0, 2)).toEqual(['u1', 'a1']);
+    expect(messages[2]).toMatchObject({ role: 'assistant', content: 'Partial', isStreaming: true });
+  });
+});
+
+
+// =============================================================================
+// Catch-up Tests
+// =============================================================================
+
+describe('ClaudeClient catch-up', () => {
+  async function reconnect(ws: FakeWebSocket): Promise<FakeWebSocket> {
+    ws.drop();
+    await Bun.sleep(10);
+    const retry = FakeWebSocket.instances[FakeWebSocket.instances.length - 1];
+    retry.open();
+    return retry;
+  }
+
+  test('asks for the events after the last one it saw', async () => {
+    const { client, ws } = connectClient({ sessionId: 's1', reconnectDelay: 1 });
+    client.send('Hi');
+    token(ws, 'Hel', 1);
+    token(ws, 'lo', 2);
+
+    const retry = await reconnect(ws);
+    expect(retry.sent.find((m) => m.payload.action === 'catch_up')?.payload).toMatchObject({
+      sessionId: 's1',
+      lastSeq: 2,
+    });
+    client.disconnect();
+  });
+
+  test('skips replayed events it already has', () => {
+    const { client, ws } = connectClient({ sessionId: 's1' });
+    client.send('Hi');
+    token(ws, 'Hel', 1);
+    token(ws, 'lo', 2);
+
+    ws.receive({
+      type: 'system',
+      sessionId: 's1',
+      payload: {
+        action: 'snapshot',
+        sessionId: 's1',
+        currentSeq: 3,
+        events: [
+          { type: 'chat', sessionId: 's1', sessionSeq: 2, timestamp: 2, payload: { action: 'token', content: 'lo' } },
+          { type: 'chat', sessionId: 's1', sessionSeq: 3, timestamp: 3, payload: { action: 'token', content: ' world' } },
+        ],
+      },
+    });
+
+    expect(client.getState().streamingContent).toBe('Hello world');
+  });
+
+  test('starts counting again when the server restarted', async () => {
+    const { client, ws } = connectClient({ sessionId: 's1', reconnectDelay: 1 });
+    client.send('Hi');
+    token(ws, 'Old', 40);
+    ws.receive({ type: 'chat', sessionId: 's1', sessionSeq: 41, payload: { action: 'complete' } });
+
+    const retry = await reconnect(ws);
+    retry.receive({ type: 'system', sessionId: 's1', payload: { action: 'snapshot', sessionId: 's1', currentSeq: 0 } });
+    client.send('Again');
+    token(retry, 'New', 1);
+
+    expect(client.getState().streamingContent).toBe('New');
+    client.disconnect();
+  });
+});
+
+
+// =============================================================================
+// Queue Tests
+// =============================================================================
+
+describe('ClaudeClient queue', () => {
+  const first = { id: 'q1', content: 'first', queuedAt: 1 };
+  const second = { id: 'q2', content: 'second', queuedAt: 2 };
+
+  test('a send while streaming waits for the server', () => {
+    const { client, ws } = connectClient({ sessionId: 's1' });
+    client.send('Hi');
+    token(ws, 'Hello', 1);
+    client.send('Follow-up');
+
+    expect(client.getState().messages.map((m) => m.content)).toEqual(['Hi', 'Hello']);
+    expect(ws.sent.filter((m) => m.payload.action === 'send').map((m) => m.payload.content)).toEqual([
+      'Hi',
+      'Follow-up',
+    ]);
+  });
+
+  test('queued and queue_update replace the queue', () => {
+    const { client, ws } = connectClient({ sessionId: 's1' });
+    ws.receive({ type: 'chat', sessionId: 's1', sessionSeq: 1, payload: { action: 'queued', queue: [first, second] } });
+    expect(client.getState().queue.map((q) => q.id)).toEqual(['q1', 'q2']);
+
+    client.reorderQueue('q2', 0);
+    expect(ws.sent[ws.sent.length - 1].payload).toEqual({ action: 'reorder_queue', queueId: 'q2', position: 0 });
+    ws.receive({ type: 'chat', sessionId: 's1', sessionSeq: 2, payload: { action: 'queue_update', queue: [second, first] } });
+    expect(client.getState().queue.map((q) => q.id)).toEqual(['q2', 'q1']);
+  });
+
+  test('a queued prompt that starts begins a new turn', () => {
+    const { client, ws } = connectClient({ sessionId: 's1' });
+    client.send('Hi');
+    token(ws, 'Hello', 1);
+    ws.receive({ type: 'chat', sessionId: 's1', sessionSeq: 2, payload: { action: 'queued', queue: [second] } });
+    ws.receive({ type: 'chat', sessionId: 's1', sessionSeq: 3, payload: { action: 'complete' } });
+    ws.receive({
+      type: 'chat',
+      sessionId: 's1',
+      sessionSeq: 4,
+      payload: { action: 'queue_update', queue: [], queueItem: second },
+    });
+
+    const state = client.getState();
+    expect(state.queue).toEqual([]);
+    expect(state.isStreaming).toBe(true);
+    expect(state.messages.map((m) => [m.role, m.content])).toEqual([
+      ['user', 'Hi'],
+      ['assistant', 'Hello'],
+      ['user', 'second'],
+      ['assistant', ''],
+    ]);
+  });
+});
+
+
+// =============================================================================
+// Usage Tests
+// =============================================================================
+
+describe('ClaudeClient usage', () => {
+  const usage = { inputTokens: 10, outputTokens: 20, cacheCreationInputTokens: 0, cacheReadInputTokens: 5 };
+  const stats = { usage, costUsd: 0.01, durationMs: 1200, numTurns: 1, isError: false };
+  const totals = { usage, costUsd: 0.03, durationMs: 4000, numTurns: 3, turnCount: 2 };
+
+  test('complete sets the turn stats and session totals', () => {
+    const { client, ws } = connectClient({ sessionId: 's1' });
+    client.send('Hi');
+    ws.receive({ type: 'chat', sessionId: 's1', sessionSeq: 1, payload: { action: 'complete', stats, totals } });
+
+    expect(client.getState()).toMatchObject({ lastTurnStats: stats, sessionTotals: totals });
+  });
+
+  test('complete without stats keeps the previous ones', () => {
+    const { client, ws } = connectClient({ sessionId: 's1' });
+    client.send('Hi');
+    ws.receive({ type: 'chat', sessionId: 's1', sessionSeq: 1, payload: { action: 'complete', stats, totals } });
+    client.send('Again');
+    ws.receive({ type: 'chat', sessionId: 's1', sessionSeq: 2, payload: { action: 'complete' } });
+
+    expect(client.getState()).toMatchObject({ lastTurnStats: stats, sessionTotals: totals });
+  });
+});
+
+
+// =============================================================================
+// Authentication Tests
+// =============================================================================
+
+describe('ClaudeClient authentication', () => {
+  /** The socket a client opens once its token is in */
+  async function openedSocket(): Promise<FakeWebSocket> {
+    await Bun.sleep(1);
+    return FakeWebSocket.instances[FakeWebSocket.instances.length - 1];
+  }
+
+  test('offers the token as a subprotocol', async () => {
+    const client = new ClaudeClient({ url: `ws://test-${++urlCount}/ws`, token: 'abc' });
+    client.connect();
+
+    expect((await openedSocket()).protocols).toEqual(['cc-chat', 'bearer.abc']);
+    client.disconnect();
+  });
+
+  test('asks getToken again for every reconnect', async () => {
+    let issued = 0;
+    const client = new ClaudeClient({
+      url: `ws://test-${++urlCount}/ws`,
+      reconnectDelay: 1,
+      getToken: async () => `token-${++issued}`,
+    });
+    client.connect();
+    const ws = await openedSocket();
+    ws.open();
+    ws.drop();
+    await Bun.sleep(10);
+
+    const retry = await openedSocket();
+    expect([ws.protocols, retry.protocols]).toEqual([
+      ['cc-chat', 'bearer.token-1'],
+      ['cc-chat', 'bearer.token-2'],
+    ]);
+    client.disconnect();
+  });
+
+  test('getToken takes precedence over token', async () => {
+    const client = new ClaudeClient({
+      url: `ws://test-${++urlCount}/ws`,
+      token: 'static',
+      getToken: () => 'fresh',
+    });
+    client.connect();
+
+    expect((await openedSocket()).protocols).toEqual(['cc-chat', 'bearer.fresh']);
+    client.disconnect();
+  });
+});
+
+
+// =============================================================================
+// Project Tests
+// =============================================================================
+
+describe('ClaudeClient projects', () => {
+  test('send and list_sessions carry the project', () => {
+    const { client, ws } = connectClient({ project: 'web' });
+    client.send('Hi');
+    client.listSessions();
+
+    const sent = (action: string) => ws.sent.find((m) => m.payload.action === action)?.payload;
+    expect(sent('send')?.projectId).toBe('web');
+    expect(sent('list_sessions')?.projectId).toBe('web');
+  });
+
+  test('project_list replaces the projects', () => {
+    const { client, ws } = connectClient();
+    client.listProjects();
+    ws.receive({
+      type: 'system',
+      payload: {
+        action: 'project_list',
+        projects: [
+          { id: 'api', name: 'api', path: '/srv/api' },
+          { id: 'web', name: 'Website', path: '/srv/web' },
+        ],
+      },
+    });
+
+    expect(client.getState().projects.map((p) => p.id)).toEqual(['api', 'web']);
+  });
+});
+
+
+// =============================================================================
+// Message Option Tests
+// =============================================================================
+
+describe('ClaudeClient message options', () => {
+  test('send passes its options along and leaves them out when there are none', () => {
+    const { client, ws } = connectClient({ sessionId: 's1' });
+    client.send('Hello', { model: 'sonnet', maxTurns: 3 });
+    ws.receive({ type: 'chat', sessionId: 's1', sessionSeq: 1, payload: { action: 'complete' } });
+    client.send('Plain');
+
+    const sends = ws.sent.filter((m) => m.payload.action === 'send').map((m) => m.payload);
+    expect(sends[0].options).toEqual({ model: 'sonnet', maxTurns: 3 });
+    expect(sends[1]).not.toHaveProperty('options');
+  });
+});
+
+
+// =============================================================================
+// Attachment Tests
+// =============================================================================
+
+describe('ClaudeClient attachments', () => {
+  class FakeXMLHttpRequest {
+    static instances: FakeXMLHttpRequest[] = [];
+
+    url = '';
+    upload: { onprogress: ((event: { loaded: number }) => void) | null } = { onprogress: null };
+    onload: (() => void) | null = null;
+    onerror: (() => void) | null = null;
+    status = 0;
+    responseText = '';
+
+    constructor() {
+      FakeXMLHttpRequest.instances.push(this);
+    }
+
+    open(_method: string, url: string) {
+      this.url = url;
+    }
+
+    setRequestHeader() {}
+
+    send() {}
+
+    respond(status: number, body: unknown) {
+      this.status = status;
+      this.responseText = JSON.stringify(body);
+      this.onload?.();
+    }
+  }
+
+  const RealXMLHttpRequest = globalThis.XMLHttpRequest;
+
+  beforeAll(() => {
+    globalThis.XMLHttpRequest = FakeXMLHttpRequest as unknown as typeof XMLHttpRequest;
+  });
+
+  afterAll(() => {
+    globalThis.XMLHttpRequest = RealXMLHttpRequest;
+  });
+
+  const fileOf = (name: string, size: number) => new File(['x'.repeat(size)], name, { type: 'text/plain' });
+
+  test('uploads the files next to the socket and sends their IDs', async () => {
+    const { client, ws } = connectClient();
+    client.send('Look at these', { attachments: [fileOf('a.txt', 100), fileOf('b.txt', 300)] });
+    await Bun.sleep(1);
+
+    const [first, second] = FakeXMLHttpRequest.instances.slice(-2);
+    const draftId = client.getState().sessionId!;
+    expect(first.url).toBe(`${ws.url.replace('ws:', 'http:').replace('/ws', '/uploads')}?sessionId=${draftId}`);
+
+    first.upload.onprogress?.({ loaded: 50 });
+    second.upload.onprogress?.({ loaded: 300 });
+    // Multipart framing can report more than the file size
+    first.upload.onprogress?.({ loaded: 120 });
+    expect(client.getState().uploadProgress).toEqual({ loaded: 400, total: 400 });
+
+    first.respond(200, { upload: { id: 'upload-1', name: 'a.txt', type: 'text/plain', size: 100 } });
+    second.respond(200, { upload: { id: 'upload-2', name: 'b.txt', type: 'text/plain', size: 300 } });
+    await Bun.sleep(1);
+
+    expect(client.getState().uploadProgress).toBeNull();
+    expect(ws.sent.find((m) => m.payload.action === 'send')?.payload).toMatchObject({
+      newSessionId: draftId,
+      attachments: ['upload-1', 'upload-2'],
+    });
+  });
+
+  test('a failed upload sends nothing', async () => {
+    const { client, ws } = connectClient();
+    client.send('Look at this', { attachments: [fileOf('a.txt', 10)] });
+    await Bun.sleep(1);
+
+    FakeXMLHttpRequest.instances[FakeXMLHttpRequest.instances.length - 1].respond(413, { error: 'Too big' });
+    await Bun.sleep(1);
+
+    expect(client.getState().error).toBe('Too big');
+    expect(ws.sent.some((m) => m.payload.action === 'send')).toBe(false);
+  });
+});
+
+
+// =============================================================================
+// Subagent Tests
+// =============================================================================
+
+describe('ClaudeClient subagents', () => {
+  function toolStart(ws: FakeWebSocket, sessionSeq: number, tool: { id: string; name: string; parentToolId?: string }) {
+    ws.receive({ type: 'chat', sessionId: 's1', sessionSeq, payload: { action: 'tool_start', tool } });
+  }
+
+  test('tools with a parentToolId nest under their Task', () => {
+    const { client, ws } = connectClient({ sessionId: 's1' });
+    client.send('Look around');
+    toolStart(ws, 1, { id: 'task-1', name: 'Task' });
+    toolStart(ws, 2, { id: 'grep-1', name: 'Grep', parentToolId: 'task-1' });
+    toolStart(ws, 3, { id: 'read-1', name: 'Read', parentToolId: 'grep-1' });
+
+    const tools = client.getState().activeTools;
+    expect(tools.map((t) => t.id)).toEqual(['task-1']);
+    expect(tools[0].children?.map((t) => t.id)).toEqual(['grep-1']);
+    expect(tools[0].children?.[0].children?.map((t) => t.id)).toEqual(['read-1']);
+  });
+
+  test('tool_output appends to the Task output', () => {
+    const { client, ws } = connectClient({ sessionId: 's1' });
+    client.send('Look around');
+    toolStart(ws, 1, { id: 'task-1', name: 'Task' });
+    for (const [sessionSeq, content] of [[2, 'Looking'], [3, ' around']] as const) {
+      ws.receive({ type: 'chat', sessionId: 's1', sessionSeq, payload: { action: 'tool_output', toolId: 'task-1', content } });
+    }
+
+    expect(client.getState().activeTools[0].output).toBe('Looking around');
+  });
+});
+
+
+// =============================================================================
+// Thinking Tests
+// =============================================================================
+
+describe('ClaudeClient thinking', () => {
+  /** The reply's content blocks after streaming these events */
+  function blocksFor(events: Array<['thinking_delta' | 'token', string]>) {
+    const { client, ws } = connectClient({ sessionId: 's1' });
+    client.send('Fix it');
+    events.forEach(([action, content], i) => {
+      ws.receive({ type: 'chat', sessionId: 's1', sessionSeq: i + 1, payload: { action, content } });
+    });
+    ws.receive({ type: 'chat', sessionId: 's1', sessionSeq: events.length + 1, payload: { action: 'complete' } });
+    return client.getState().messages[1].contentBlocks?.map((b) => ({
+      type: b.type,
+      content: 'content' in b ? b.content : '',
+    }));
+  }
+
+  test('thinking deltas become a block before the text they precede', () => {
+    expect(
+      blocksFor([
+        ['thinking_delta', 'The user '],
+        ['thinking_delta', 'wants a fix.'],
+        ['token', 'Here is the fix.'],
+      ])
+    ).toEqual([
+      { type: 'thinking', content: 'The user wants a fix.' },
+      { type: 'text', content: 'Here is the fix.' },
+    ]);
+  });
+
+  test('thinking after text starts a new block', () => {
+    const blocks = blocksFor([
+      ['token', 'Checking.'],
+      ['thinking_delta', 'Hmm.'],
+      ['token', 'Done.'],
+    ]);
+
+    expect(blocks?.map((b) => b.type)).toEqual(['text', 'thinking', 'text']);
+  });
+});
+
+
+// =============================================================================
+// Tool Result Tests
+// =============================================================================
+
+describe('ClaudeClient tool results', () => {
+  function page(ws: FakeWebSocket, content: string, offset: number, totalLength: number) {
+    ws.receive({
+      type: 'system',
+      sessionId: 's1',
+      payload: { action: 'tool_result', sessionId: 's1', toolId: 't1', content, offset, totalLength },
+    });
+  }
+
+  test('pages append in order until the output is complete', () => {
+    const { client, ws } = connectClient({ sessionId: 's1' });
+    client.loadToolResult('t1');
+    expect(ws.sent[ws.sent.length - 1].payload).toEqual({
+      action: 'get_tool_result',
+      sessionId: 's1',
+      toolId: 't1',
+      offset: 0,
+    });
+
+    page(ws, 'abc', 0, 5);
+    client.loadToolResult('t1', 3);
+    page(ws, 'de', 3, 5);
+
+    expect(client.getState().toolResults.t1).toEqual({ toolId: 't1', content: 'abcde', totalLength: 5 });
+  });
+
+  test('out-of-order pages are ignored', () => {
+    const { client, ws } = connectClient({ sessionId: 's1' });
+    page(ws, 'abc', 0, 9);
+    page(ws, 'ghi', 6, 9);
+
+    expect(client.getState().toolResults.t1.content).toBe('abc');
+  });
+});
+
+
+// =============================================================================
+// Question Tests
+// =============================================================================
+
+describe('ClaudeClient questions', () => {
+  const question = {
+    id: 'toolu_1',
+    questions: [{ question: 'Which DB?', options: [{ label: 'Postgres' }, { label: 'SQLite' }] }],
+    timestamp: 1,
+  };
+
+  function ask(ws: FakeWebSocket) {
+    ws.receive({ type: 'chat', sessionId: 's1', sessionSeq: 1, payload: { action: 'question', question } });
+  }
+
+  test('question_resolved clears only the matching question', () => {
+    const { client, ws } = connectClient({ sessionId: 's1' });
+    ask(ws);
+
+    ws.receive({ type: 'chat', sessionId: 's1', sessionSeq: 2, payload: { action: 'question_resolved', questionId: 'toolu_0' } });
+    expect(client.getState().pendingQuestion?.id).toBe('toolu_1');
+
+    ws.receive({ type: 'chat', sessionId: 's1', sessionSeq: 3, payload: { action: 'question_resolved', questionId: 'toolu_1' } });
+    expect(client.getState().pendingQuestion).toBeNull();
+  });
+
+  test('answers are keyed by question text', () => {
+    const { client, ws } = connectClient({ sessionId: 's1' });
+    ask(ws);
+    client.answerQuestion({ 'Which DB?': 'Postgres' });
+
+    expect(ws.sent[ws.sent.length - 1].payload).toEqual({
+      action: 'answer',
+      questionId: 'toolu_1',
+      answers: { 'Which DB?': 'Postgres' },
+    });
+    expect(client.getState().pendingQuestion).toBeNull();
+  });
+});
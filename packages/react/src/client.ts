@@ -0,0 +1,1900 @@
+/**
+ * ClaudeClient
+ *
+ * Framework-agnostic client for a Claude chat server: the protocol
+ * handling behind useClaude, usable from any UI framework or a script.
+ *
+ * Usage:
+ * ```ts
+ * import { ClaudeClient } from 'cc-chat-react';
+ *
+ * const client = new ClaudeClient({ url: 'ws://localhost:3000/ws' });
+ * client.subscribe((state) => render(state.messages, state.streamingContent));
+ * client.on('connect', () => client.send('Hello'));
+ * client.connect();
+ * ```
+ */
+
+import type {
+  ClaudeClientOptions,
+  ClaudeClientState,
+  ClaudeClientEvents,
+  ChatMessage,
+  ContentBlock,
+  ToolUseData,
+  TodoItem,
+  PermissionRequestData,
+  QuestionData,
+  QuestionAnswers,
+  QueuedMessage,
+  TurnStats,
+  SessionTotals,
+  SessionSummary,
+  ProjectInfo,
+  ToolResultData,
+  AttachmentInfo,
+  SendOptions,
+  WebSocketMessage,
+  ChatPayload,
+  SystemPayload,
+  ChatAction,
+  SystemAction,
+  ChatStorage,
+  PersistedSession,
+  Capability,
+  ServerInfo,
+} from './types';
+import { PROTOCOL_LIMITS } from 'cc-chat-protocol';
+import {
+  validateChatPayload,
+  validateSystemPayload,
+} from './schemas';
+import {
+  DEFAULT_RECONNECT_POLICY,
+  MIN_SERVER_PROTOCOL_VERSION,
+  toServerInfo,
+  getSharedState,
+  createSharedWebSocket,
+  registerMessageListener,
+  releaseSession,
+  registerConnectionListener,
+  sendViaSharedWebSocket,
+  isSharedWebSocketConnected,
+} from './socket';
+import {
+  createDefaultStorage,
+  loadSession,
+  saveSession,
+  loadCurrentSessionId,
+} from './storage';
+
+// =============================================================================
+// Attachment Uploads
+// =============================================================================
+
+/**
+ * Default upload endpoint: /uploads on the WebSocket's host.
+ */
+function getDefaultUploadUrl(wsUrl: string): string {
+  const url = new URL(wsUrl);
+  url.protocol = url.protocol === 'wss:' ? 'https:' : 'http:';
+  url.pathname = '/uploads';
+  url.search = '';
+  return url.toString();
+}
+
+/**
+ * Upload one file. Uses XMLHttpRequest because fetch can't report upload progress.
+ */
+function uploadAttachment(
+  uploadUrl: string,
+  file: File,
+  token: string | undefined,
+  onProgress: (loaded: number) => void
+): Promise<AttachmentInfo> {
+  return new Promise((resolve, reject) => {
+    const xhr = new XMLHttpRequest();
+    xhr.open('POST', uploadUrl);
+    if (token) {
+      xhr.setRequestHeader('Authorization', `Bearer ${token}`);
+    }
+
+    // Multipart framing makes loaded slightly larger than the file
+    xhr.upload.onprogress = (event) => onProgress(Math.min(event.loaded, file.size));
+
+    xhr.onload = () => {
+      let body: { upload?: AttachmentInfo; error?: string } = {};
+      try {
+        body = JSON.parse(xhr.responseText);
+      } catch {
+        // Non-JSON error page
+      }
+      if (xhr.status >= 200 && xhr.status < 300 && body.upload) {
+        onProgress(file.size);
+        resolve(body.upload);
+      } else {
+        reject(new Error(body.error || `Upload failed (${xhr.status})`));
+      }
+    };
+    xhr.onerror = () => reject(new Error(`Upload failed: ${file.name}`));
+
+    const form = new FormData();
+    form.append('file', file);
+    xhr.send(form);
+  });
+}
+
+// =============================================================================
+// Internal Types for Handler Functions
+// =============================================================================
+
+/**
+ * Bookkeeping for the response in progress that isn't part of the
+ * published state (content blocks are assembled here, then copied out).
+ */
+interface StreamingRefs {
+  streamingContent: string;
+  completedTools: ToolUseData[];
+  isStreaming: boolean;
+  contentBlocks: ContentBlock[];
+  pendingText: string;
+  pendingThinking: string;
+  currentToolGroup: ToolUseData[];
+  currentAssistantMessage: string | null;
+}
+
+/**
+ * Set one state field to a value, or to a function of its previous value.
+ */
+type SetState<T> = (value: T | ((prev: T) => T)) => void;
+
+/**
+ * State setters needed by chat message handlers.
+ */
+interface StateSetters {
+  setStreamingContent: SetState<string>;
+  setStreamingThinking: SetState<string>;
+  setActiveTools: SetState<ToolUseData[]>;
+  setCompletedTools: SetState<ToolUseData[]>;
+  setTodos: SetState<TodoItem[] | null>;
+  setIsStreaming: SetState<boolean>;
+  setMessages: SetState<ChatMessage[]>;
+  setError: SetState<string | null>;
+  setSessionId: SetState<string | null>;
+  setPendingPermissions: SetState<PermissionRequestData[]>;
+  setPendingQuestion: SetState<QuestionData | null>;
+  setSessions: SetState<SessionSummary[]>;
+  setQueue: SetState<QueuedMessage[]>;
+  setLastTurnStats: SetState<TurnStats | null>;
+  setSessionTotals: SetState<SessionTotals | null>;
+  setProjects: SetState<ProjectInfo[]>;
+  setToolResults: SetState<Record<string, ToolResultData>>;
+  setServer: SetState<ServerInfo | null>;
+}
+
+// =============================================================================
+// Utility Functions
+// =============================================================================
+
+/**
+ * Helper for exhaustive switch statements.
+ * TypeScript will error if a case is missed.
+ */
+function assertNever(x: never): never {
+  throw new Error(`Unexpected value: ${JSON.stringify(x)}`);
+}
+
+/**
+ * Generate a unique message ID.
+ */
+function generateId(): string {
+  return `msg-${Date.now()}-${Math.random().toString(36).substring(2, 8)}`;
+}
+
+// =============================================================================
+// Subagent Tool Trees
+// =============================================================================
+
+/**
+ * Whether a tool is anywhere in a tool tree.
+ */
+function hasTool(tools: ToolUseData[], toolId: string): boolean {
+  return tools.some((t) => t.id === toolId || (!!t.children && hasTool(t.children, toolId)));
+}
+
+/**
+ * Apply `update` to a tool wherever it sits in a tree, keeping the copies in
+ * a Task's children and content blocks in step.
+ */
+function updateTool(
+  tools: ToolUseData[],
+  toolId: string,
+  update: (tool: ToolUseData) => ToolUseData
+): ToolUseData[] {
+  return tools.map((tool) => {
+    if (tool.id === toolId) return update(tool);
+    if (!tool.children) return tool;
+    return {
+      ...tool,
+      children: updateTool(tool.children, toolId, update),
+      contentBlocks: tool.contentBlocks?.map((block) =>
+        block.type === 'tool_group'
+          ? { ...block, tools: updateTool(block.tools, toolId, update) }
+          : block
+      ),
+    };
+  });
+}
+
+/**
+ * Add a subagent tool to its Task, grouping consecutive tools like the
+ * top-level content blocks do.
+ */
+function addSubagentTool(task: ToolUseData, tool: ToolUseData): ToolUseData {
+  if (task.children?.some((t) => t.id === tool.id)) return task;
+
+  const blocks = task.contentBlocks ?? [];
+  const last = blocks[blocks.length - 1];
+  const contentBlocks: ContentBlock[] = last?.type === 'tool_group'
+    ? [...blocks.slice(0, -1), { ...last, tools: [...last.tools, tool] }]
+    : [...blocks, { type: 'tool_group', tools: [tool], timestamp: Date.now() }];
+
+  return { ...task, children: [...(task.children ?? []), tool], contentBlocks };
+}
+
+/**
+ * Append text a subagent wrote to its Task.
+ */
+function addSubagentText(task: ToolUseData, text: string): ToolUseData {
+  const blocks = task.contentBlocks ?? [];
+  const last = blocks[blocks.length - 1];
+  const contentBlocks: ContentBlock[] = last?.type === 'text'
+    ? [...blocks.slice(0, -1), { ...last, content: last.content + text }]
+    : [...blocks, { type: 'text', content: text, timestamp: Date.now() }];
+
+  return { ...task, output: (task.output ?? '') + text, contentBlocks };
+}
+
+// =============================================================================
+// Chat Action Handlers
+// =============================================================================
+
+/**
+ * Close the thinking in progress as a content block (when text or a tool
+ * follows it, or the response ends).
+ */
+function flushPendingThinking(refs: StreamingRefs): void {
+  if (!refs.pendingThinking) return;
+
+  refs.contentBlocks = [
+    ...refs.contentBlocks,
+    { type: 'thinking', content: refs.pendingThinking, timestamp: Date.now() },
+  ];
+  refs.pendingThinking = '';
+}
+
+/**
+ * Handle 'token' action - accumulate streaming text content.
+ */
+function handleTokenAction(
+  payload: ChatPayload,
+  refs: StreamingRefs,
+  setters: StateSetters
+): void {
+  if (!payload.content) return;
+
+  flushPendingThinking(refs);
+  refs.pendingText += payload.content;
+  setters.setStreamingContent((prev) => {
+    const newContent = prev + payload.content;
+    refs.streamingContent = newContent;
+    return newContent;
+  });
+}
+
+/**
+ * Handle 'thinking_delta' action - accumulate extended thinking.
+ */
+function handleThinkingDeltaAction(
+  payload: ChatPayload,
+  refs: StreamingRefs,
+  setters: StateSetters
+): void {
+  if (!payload.content) return;
+
+  // Thinking after text (e.g. between tool calls) starts a new block
+  if (refs.pendingText.trim()) {
+    refs.contentBlocks = [
+      ...refs.contentBlocks,
+      { type: 'text', content: refs.pendingText, timestamp: Date.now() },
+    ];
+    refs.pendingText = '';
+  }
+
+  refs.pendingThinking += payload.content;
+  setters.setStreamingThinking((prev) => prev + payload.content);
+}
+
+/**
+ * Handle 'tool_start' action - track a new tool beginning execution.
+ */
+function handleToolStartAction(
+  payload: ChatPayload,
+  refs: StreamingRefs,
+  setters: StateSetters
+): void {
+  if (!payload.tool) return;
+  const tool = payload.tool;
+
+  // Subagent tools nest under their running Task (top level if it's unknown,
+  // e.g. after a mid-turn snapshot)
+  const parentId = tool.parentToolId;
+  if (parentId && hasTool(refs.currentToolGroup, parentId)) {
+    const nest = (task: ToolUseData) => addSubagentTool(task, tool);
+    refs.currentToolGroup = updateTool(refs.currentToolGroup, parentId, nest);
+    setters.setActiveTools((prev) => updateTool(prev, parentId, nest));
+    return;
+  }
+
+  // If we have pending thinking or text, flush it before starting tools
+  flushPendingThinking(refs);
+  if (refs.pendingText.trim()) {
+    refs.contentBlocks = [
+      ...refs.contentBlocks,
+      { type: 'text', content: refs.pendingText, timestamp: Date.now() },
+    ];
+    refs.pendingText = '';
+  }
+
+  // Add tool to current tool group (deduplicated)
+  if (!refs.currentToolGroup.some((t) => t.id === payload.tool!.id)) {
+    refs.currentToolGroup = [...refs.currentToolGroup, payload.tool];
+  }
+
+  setters.setActiveTools((prev) => {
+    // Deduplicate - don't add if tool with this ID already exists
+    if (prev.some((t) => t.id === payload.tool!.id)) {
+      return prev;
+    }
+    return [...prev, payload.tool!];
+  });
+}
+
+/**
+ * Handle 'tool_end' action - mark a tool as completed.
+ */
+function handleToolEndAction(
+  payload: ChatPayload,
+  refs: StreamingRefs,
+  setters: StateSetters
+): void {
+  if (!payload.tool) return;
+
+  // Subagent tools finish in place inside their Task
+  const isTopLevel = refs.currentToolGroup.some((t) => t.id === payload.tool!.id);
+  if (!isTopLevel && hasTool(refs.currentToolGroup, payload.tool.id)) {
+    const finish = (t: ToolUseData) => ({ ...t, ...payload.tool });
+    refs.currentToolGroup = updateTool(refs.currentToolGroup, payload.tool.id, finish);
+    setters.setActiveTools((prev) => updateTool(prev, payload.tool!.id, finish));
+    return;
+  }
+
+  // Update the tool in current tool group with completion data
+  refs.currentToolGroup = refs.currentToolGroup.map((t) =>
+    t.id === payload.tool!.id ? { ...t, ...payload.tool } : t
+  );
+
+  // Keep what the group collected (a Task's children and output)
+  const finished = refs.currentToolGroup.find((t) => t.id === payload.tool!.id) ?? payload.tool;
+
+  setters.setActiveTools((prev) => {
+    const filtered = prev.filter((t) => t.id !== payload.tool!.id);
+
+    // If no more active tools, flush the tool group as a content block
+    if (filtered.length === 0 && refs.currentToolGroup.length > 0) {
+      refs.contentBlocks = [
+        ...refs.contentBlocks,
+        { type: 'tool_group', tools: [...refs.currentToolGroup], timestamp: Date.now() },
+      ];
+      refs.currentToolGroup = [];
+    }
+
+    return filtered;
+  });
+
+  setters.setCompletedTools((prev) => {
+    // Deduplicate - don't add if tool with this ID already exists
+    if (prev.some((t) => t.id === payload.tool!.id)) {
+      return prev;
+    }
+    const newTools = [...prev, finished];
+    refs.completedTools = newTools;
+    return newTools;
+  });
+}
+
+/**
+ * Handle 'tool_output' action - append subagent text to its Task.
+ */
+function handleToolOutputAction(
+  payload: ChatPayload,
+  refs: StreamingRefs,
+  setters: StateSetters
+): void {
+  const toolId = payload.toolId;
+  const text = payload.content;
+  if (!toolId || !text) return;
+
+  const append = (task: ToolUseData) => addSubagentText(task, text);
+  refs.currentToolGroup = updateTool(refs.currentToolGroup, toolId, append);
+  setters.setActiveTools((prev) => updateTool(prev, toolId, append));
+}
+
+/**
+ * Handle 'todo_update' action - update the todo list display.
+ */
+function handleTodoUpdateAction(
+  payload: ChatPayload,
+  setters: StateSetters
+): void {
+  if (payload.todos) {
+    setters.setTodos(payload.todos);
+  }
+}
+
+/**
+ * Handle 'permission_request' action - a tool call is waiting for approval.
+ */
+function handlePermissionRequestAction(
+  payload: ChatPayload,
+  setters: StateSetters
+): void {
+  if (!payload.permission) return;
+
+  setters.setPendingPermissions((prev) => {
+    // Deduplicate - replayed events can deliver the same request twice
+    if (prev.some((p) => p.id === payload.permission!.id)) {
+      return prev;
+    }
+    return [...prev, payload.permission!];
+  });
+}
+
+/**
+ * Handle 'permission_resolved' action - drop the request from the pending list.
+ */
+function handlePermissionResolvedAction(
+  payload: ChatPayload,
+  setters: StateSetters
+): void {
+  if (!payload.permissionId) return;
+
+  setters.setPendingPermissions((prev) =>
+    prev.filter((p) => p.id !== payload.permissionId)
+  );
+}
+
+/**
+ * Handle 'question' action - Claude asked the user something (AskUserQuestion).
+ */
+function handleQuestionAction(
+  payload: ChatPayload,
+  setters: StateSetters
+): void {
+  if (!payload.question) return;
+  setters.setPendingQuestion(payload.question);
+}
+
+/**
+ * Handle 'question_resolved' action - the question was answered or superseded.
+ */
+function handleQuestionResolvedAction(
+  payload: ChatPayload,
+  setters: StateSetters
+): void {
+  if (!payload.questionId) return;
+
+  setters.setPendingQuestion((prev) =>
+    prev?.id === payload.questionId ? null : prev
+  );
+}
+
+/**
+ * The user message shown for answers - matches the prompt the server sends to Claude.
+ */
+function formatAnswersMessage(question: QuestionData, answers: QuestionAnswers): string {
+  const lines = question.questions.map((q) => {
+    const answer = answers[q.question];
+    const text = Array.isArray(answer) ? answer.join(', ') : answer ?? '';
+    return `- ${q.question}\n  ${text.trim()}`;
+  });
+  return `Answers to your questions:\n${lines.join('\n')}`;
+}
+
+/**
+ * Reset all streaming state to initial values.
+ */
+function resetStreamingState(
+  refs: StreamingRefs,
+  setters: StateSetters
+): void {
+  setters.setStreamingContent('');
+  refs.streamingContent = '';
+  setters.setStreamingThinking('');
+  setters.setActiveTools([]);
+  setters.setCompletedTools([]);
+  refs.completedTools = [];
+  refs.contentBlocks = [];
+  refs.pendingText = '';
+  refs.pendingThinking = '';
+  refs.currentToolGroup = [];
+  refs.currentAssistantMessage = null;
+  setters.setPendingPermissions([]);
+}
+
+/**
+ * Start a response locally: add the user's message and a streaming
+ * assistant placeholder.
+ */
+function beginTurn(
+  content: string,
+  refs: StreamingRefs,
+  setters: StateSetters,
+  attachments?: AttachmentInfo[]
+): void {
+  const userMessage: ChatMessage = {
+    id: generateId(),
+    role: 'user',
+    content,
+    timestamp: Date.now(),
+    ...(attachments?.length ? { attachments } : {}),
+  };
+
+  // Prepare for streaming response
+  setters.setIsStreaming(true);
+  refs.isStreaming = true;
+  setters.setStreamingContent('');
+  refs.streamingContent = '';
+  setters.setStreamingThinking('');
+  setters.setActiveTools([]);
+  setters.setCompletedTools([]);
+  refs.completedTools = [];
+  setters.setError(null);
+
+  // Create placeholder assistant message
+  const assistantId = generateId();
+  refs.currentAssistantMessage = assistantId;
+
+  // Add both user and assistant messages in one update to avoid race conditions
+  setters.setMessages((prev) => [
+    ...prev,
+    userMessage,
+    {
+      id: assistantId,
+      role: 'assistant',
+      content: '',
+      timestamp: Date.now(),
+      isStreaming: true,
+    },
+  ]);
+}
+
+/**
+ * Handle 'queued' action - a prompt is waiting behind the current response.
+ */
+function handleQueuedAction(
+  payload: ChatPayload,
+  setters: StateSetters
+): void {
+  if (payload.queue) {
+    setters.setQueue(payload.queue);
+  }
+}
+
+/**
+ * Handle 'queue_update' action - the queue changed. If a queued prompt
+ * just started running, show it like a freshly sent message.
+ */
+function handleQueueUpdateAction(
+  payload: ChatPayload,
+  refs: StreamingRefs,
+  setters: StateSetters
+): void {
+  setters.setQueue(payload.queue ?? []);
+
+  if (payload.queueItem) {
+    beginTurn(payload.queueItem.content, refs, setters, payload.queueItem.attachments);
+  }
+}
+
+/**
+ * Handle 'complete' action - finalize the assistant message.
+ */
+function handleCompleteAction(
+  payload: ChatPayload,
+  refs: StreamingRefs,
+  setters: StateSetters
+): void {
+  // Mark streaming as finished
+  setters.setIsStreaming(false);
+  refs.isStreaming = false;
+
+  // Usage and cost (absent if the CLI exited without a result event)
+  if (payload.stats) {
+    setters.setLastTurnStats(payload.stats);
+  }
+  if (payload.totals) {
+    setters.setSessionTotals(payload.totals);
+  }
+
+  // Flush any remaining pending thinking and text as final content blocks
+  flushPendingThinking(refs);
+  if (refs.pendingText.trim()) {
+    refs.contentBlocks = [
+      ...refs.contentBlocks,
+      { type: 'text', content: refs.pendingText, timestamp: Date.now() },
+    ];
+    refs.pendingText = '';
+  }
+
+  // Flush any remaining tool group (shouldn't happen, but be safe)
+  if (refs.currentToolGroup.length > 0) {
+    refs.contentBlocks = [
+      ...refs.contentBlocks,
+      { type: 'tool_group', tools: [...refs.currentToolGroup], timestamp: Date.now() },
+    ];
+    refs.currentToolGroup = [];
+  }
+
+  // Capture final values from refs (avoids stale closure)
+  const finalContent = refs.streamingContent;
+  const finalTools = [...refs.completedTools];
+  const finalContentBlocks = [...refs.contentBlocks];
+  const currentMsgId = refs.currentAssistantMessage;
+
+  setters.setMessages((prev) => {
+    // Find the streaming message by ID first, fallback to finding any streaming message
+    let streamingIdx = prev.findIndex((m) => m.id === currentMsgId);
+
+    // Fallback: find any message that's still streaming
+    if (streamingIdx < 0) {
+      streamingIdx = prev.findIndex((m) => m.isStreaming);
+    }
+
+    if (streamingIdx >= 0) {
+      const updated = [...prev];
+      updated[streamingIdx] = {
+        ...updated[streamingIdx],
+        content: finalContent,
+        tools: finalTools,
+        contentBlocks: finalContentBlocks,
+        isStreaming: false,
+      };
+      return updated;
+    }
+
+    // Only add a new message if we truly don't have one
+    // This should rarely happen
+    if (finalContent || finalTools.length > 0 || finalContentBlocks.length > 0) {
+      return [
+        ...prev,
+        {
+          id: generateId(),
+          role: 'assistant' as const,
+          content: finalContent,
+          timestamp: Date.now(),
+          tools: finalTools,
+          contentBlocks: finalContentBlocks,
+          isStreaming: false,
+        },
+      ];
+    }
+
+    return prev;
+  });
+
+  // Reset streaming state
+  resetStreamingState(refs, setters);
+}
+
+/**
+ * Handle 'error' action - set error state and reset streaming.
+ */
+function handleErrorAction(
+  payload: ChatPayload,
+  refs: StreamingRefs,
+  setters: StateSetters,
+  onError?: (error: string) => void
+): void {
+  setters.setIsStreaming(false);
+  refs.isStreaming = false;
+  setters.setError(payload.error || 'Unknown error');
+  onError?.(payload.error || 'Unknown error');
+
+  // Reset streaming state
+  resetStreamingState(refs, setters);
+}
+
+/**
+ * Route a chat payload to the appropriate handler.
+ */
+function handleChatPayload(
+  payload: ChatPayload,
+  refs: StreamingRefs,
+  setters: StateSetters,
+  onError?: (error: string) => void
+): void {
+  const action: ChatAction = payload.action;
+
+  switch (action) {
+    case 'token':
+      handleTokenAction(payload, refs, setters);
+      break;
+
+    case 'thinking_delta':
+      handleThinkingDeltaAction(payload, refs, setters);
+      break;
+
+    case 'tool_start':
+      handleToolStartAction(payload, refs, setters);
+      break;
+
+    case 'tool_end':
+      handleToolEndAction(payload, refs, setters);
+      break;
+
+    case 'tool_output':
+      handleToolOutputAction(payload, refs, setters);
+      break;
+
+    case 'todo_update':
+      handleTodoUpdateAction(payload, setters);
+      break;
+
+    case 'thinking':
+      // Could show a thinking indicator - currently no-op
+      break;
+
+    case 'permission_request':
+      handlePermissionRequestAction(payload, setters);
+      break;
+
+    case 'permission_resolved':
+      handlePermissionResolvedAction(payload, setters);
+      break;
+
+    case 'question':
+      handleQuestionAction(payload, setters);
+      break;
+
+    case 'question_resolved':
+      handleQuestionResolvedAction(payload, setters);
+      break;
+
+    case 'queued':
+      handleQueuedAction(payload, setters);
+      break;
+
+    case 'queue_update':
+      handleQueueUpdateAction(payload, refs, setters);
+      break;
+
+    case 'complete':
+      handleCompleteAction(payload, refs, setters);
+      break;
+
+    case 'error':
+      handleErrorAction(payload, refs, setters, onError);
+      break;
+
+    case 'send':
+    case 'cancel':
+    case 'approve':
+    case 'deny':
+    case 'answer':
+    case 'reorder_queue':
+    case 'remove_queued':
+      // These are outbound-only actions, shouldn't be received
+      break;
+
+    default:
+      // TypeScript exhaustive check - will error if a ChatAction is missed
+      assertNever(action);
+  }
+}
+
+// =============================================================================
+// System Action Handlers
+// =============================================================================
+
+/**
+ * Handle 'snapshot' system action - restore session state.
+ */
+function handleSnapshotAction(
+  payload: SystemPayload,
+  refs: StreamingRefs,
+  setters: StateSetters,
+  handleMessage: (event: MessageEvent) => void
+): void {
+  if (payload.sessionId) {
+    setters.setSessionId(payload.sessionId);
+  }
+
+  // Replay any missed events
+  if (payload.events) {
+    for (const event of payload.events) {
+      handleMessage({ data: JSON.stringify(event) } as MessageEvent);
+    }
+  }
+
+  // Restore chat state
+  if (payload.chatState) {
+    const state = payload.chatState;
+    if (state.status === 'streaming') {
+      setters.setIsStreaming(true);
+      refs.isStreaming = true;
+      setters.setStreamingContent(state.accumulatedContent);
+      setters.setStreamingThinking(state.accumulatedThinking ?? '');
+    }
+    if (state.tools) {
+      setters.setCompletedTools(state.tools);
+    }
+    if (state.todos) {
+      setters.setTodos(state.todos);
+    }
+    setters.setPendingPermissions(state.pendingPermissions ?? []);
+    setters.setPendingQuestion(state.pendingQuestion ?? null);
+    setters.setQueue(state.queue ?? []);
+    if (state.totals) {
+      setters.setSessionTotals(state.totals);
+    }
+  }
+}
+
+/**
+ * Handle 'session_list' system action - store the past sessions.
+ */
+function handleSessionListAction(
+  payload: SystemPayload,
+  setters: StateSetters
+): void {
+  setters.setSessions(payload.sessions ?? []);
+}
+
+/**
+ * Handle 'connected' system action - the server's reply to our hello, with
+ * its versions and capabilities (plain acks and keepalives carry neither).
+ */
+function handleConnectedAction(
+  payload: SystemPayload,
+  setters: StateSetters,
+  onError?: (error: string) => void
+): void {
+  if (!payload.capabilities) return;
+
+  const server = toServerInfo(payload);
+  setters.setServer(server);
+  if (payload.projects) {
+    setters.setProjects(payload.projects);
+  }
+
+  if (server.protocolVersion < MIN_SERVER_PROTOCOL_VERSION) {
+    const error =
+      `The server speaks protocol version ${server.protocolVersion}, but this app ` +
+      `needs ${MIN_SERVER_PROTOCOL_VERSION} or later. Update the server.`;
+    setters.setError(error);
+    onError?.(error);
+  }
+}
+
+/**
+ * Handle 'project_list' system action - store the server's projects.
+ */
+function handleProjectListAction(
+  payload: SystemPayload,
+  setters: StateSetters
+): void {
+  setters.setProjects(payload.projects ?? []);
+}
+
+/**
+ * Handle 'tool_result' system action - add a page of a tool's output.
+ */
+function handleToolResultAction(
+  payload: SystemPayload,
+  setters: StateSetters
+): void {
+  const { toolId, content = '', offset = 0, totalLength } = payload;
+  if (!toolId || totalLength === undefined) return;
+
+  setters.setToolResults((prev) => {
+    // Pages must follow on from what's loaded; a page from 0 starts over
+    const loaded = offset === 0 ? '' : prev[toolId]?.content ?? '';
+    if (loaded.length !== offset) return prev;
+
+    return {
+      ...prev,
+      [toolId]: { toolId, content: loaded + content, totalLength },
+    };
+  });
+}
+
+/**
+ * Handle 'session_started' system action - a new session got its real ID.
+ */
+function handleSessionStartedAction(
+  payload: SystemPayload,
+  setters: StateSetters
+): void {
+  if (payload.sessionId) {
+    setters.setSessionId(payload.sessionId);
+  }
+}
+
+/**
+ * Handle 'history' system action - hydrate messages from a session transcript.
+ */
+function handleHistoryAction(
+  payload: SystemPayload,
+  refs: StreamingRefs,
+  setters: StateSetters
+): void {
+  if (!payload.messages) return;
+
+  const history = payload.messages;
+  setters.setMessages((prev) => {
+    // Keep a live response that started before the history arrived
+    const streaming = prev.find(
+      (m) => m.isStreaming && m.id === refs.currentAssistantMessage
+    );
+    return streaming ? [...history, streaming] : history;
+  });
+}
+
+/**
+ * Handle system 'error' action.
+ */
+function handleSystemErrorAction(
+  payload: SystemPayload,
+  setters: StateSetters,
+  onError?: (error: string) => void
+): void {
+  setters.setError(payload.error || 'System error');
+  onError?.(payload.error || 'System error');
+}
+
+/**
+ * Route a system payload to the appropriate handler.
+ */
+function handleSystemPayload(
+  payload: SystemPayload,
+  refs: StreamingRefs,
+  setters: StateSetters,
+  handleMessage: (event: MessageEvent) => void,
+  onError?: (error: string) => void
+): void {
+  const action: SystemAction = payload.action;
+
+  switch (action) {
+    case 'connected':
+      handleConnectedAction(payload, setters, onError);
+      break;
+
+    case 'snapshot':
+      handleSnapshotAction(payload, refs, setters, handleMessage);
+      break;
+
+    case 'session_list':
+      handleSessionListAction(payload, setters);
+      break;
+
+    case 'history':
+      handleHistoryAction(payload, refs, setters);
+      break;
+
+    case 'session_started':
+      handleSessionStartedAction(payload, setters);
+      break;
+
+    case 'project_list':
+      handleProjectListAction(payload, setters);
+      break;
+
+    case 'tool_result':
+      handleToolResultAction(payload, setters);
+      break;
+
+    case 'error':
+      handleSystemErrorAction(payload, setters, onError);
+      break;
+
+    case 'hello':
+    case 'catch_up':
+    case 'subscribe':
+    case 'unsubscribe':
+    case 'list_sessions':
+    case 'load_history':
+    case 'list_projects':
+    case 'get_tool_result':
+      // These are outbound-only or handled elsewhere
+      break;
+
+    default:
+      // TypeScript exhaustive check - will error if a SystemAction is missed
+      assertNever(action);
+  }
+}
+
+// =============================================================================
+// Client
+// =============================================================================
+
+type ClientListeners = {
+  [K in keyof ClaudeClientEvents]: Set<ClaudeClientEvents[K]>;
+};
+
+/**
+ * State fields that change the streaming assistant message.
+ */
+const STREAMING_FIELDS = [
+  'streamingContent',
+  'streamingThinking',
+  'activeTools',
+  'completedTools',
+  'isStreaming',
+] as const;
+
+/**
+ * State fields saved to storage (when a turn isn't streaming).
+ */
+const PERSISTED_FIELDS = ['sessionId', 'messages', 'todos', 'isStreaming'] as const;
+
+function createInitialState(sessionId?: string): ClaudeClientState {
+  return {
+    status: 'disconnected',
+    server: null,
+    reconnectAttempt: 0,
+    nextRetryAt: null,
+    sessionId: sessionId || null,
+    messages: [],
+    streamingContent: '',
+    streamingThinking: '',
+    activeTools: [],
+    completedTools: [],
+    todos: null,
+    isStreaming: false,
+    error: null,
+    pendingPermissions: [],
+    pendingQuestion: null,
+    sessions: [],
+    projects: [],
+    toolResults: {},
+    queue: [],
+    lastTurnStats: null,
+    sessionTotals: null,
+    uploadProgress: null,
+  };
+}
+
+/**
+ * Framework-agnostic client for a Claude chat server.
+ *
+ * Keeps the session's state as a plain immutable object: read it with
+ * getState() and hear about changes with subscribe(). useClaude is a thin
+ * wrapper over this class; other UIs (or scripts) can use it directly.
+ */
+export class ClaudeClient {
+  private options: ClaudeClientOptions;
+  private state: ClaudeClientState;
+  // State as last emitted (differs from `state` mid-batch)
+  private published: ClaudeClientState;
+  private batchDepth = 0;
+  private readonly listeners: ClientListeners = {
+    state: new Set(),
+    message: new Set(),
+    connect: new Set(),
+    disconnect: new Set(),
+    error: new Set(),
+  };
+  private readonly refs: StreamingRefs = {
+    streamingContent: '',
+    completedTools: [],
+    isStreaming: false,
+    contentBlocks: [],
+    pendingText: '',
+    pendingThinking: '',
+    currentToolGroup: [],
+    currentAssistantMessage: null,
+  };
+  private readonly setters: StateSetters;
+  // Session whose transcript has already been requested
+  private historyRequested: string | null = null;
+  // Unregisters this client from the shared socket (null while detached)
+  private detach: (() => void) | null = null;
+  // Where chats are saved on the device (null when not persisting)
+  private readonly storage: ChatStorage | null;
+  // The first restore, shared by repeated restore() calls
+  private restoring: Promise<void> | null = null;
+  // Prefix of this client's request IDs (server errors echo them back)
+  private readonly requestPrefix = `req-${Math.random().toString(36).slice(2, 10)}-`;
+  private requestCount = 0;
+  // Request ID of the send that started the current turn
+  private turnRequestId: string | null = null;
+
+  constructor(options: ClaudeClientOptions) {
+    this.options = options;
+    this.state = createInitialState(options.sessionId);
+    this.published = this.state;
+    this.storage = options.storage === true ? createDefaultStorage() : options.storage || null;
+
+    const field = <K extends keyof ClaudeClientState>(key: K): SetState<ClaudeClientState[K]> =>
+      (value) => this.set(key, value);
+
+    this.setters = {
+      setStreamingContent: field('streamingContent'),
+      setStreamingThinking: field('streamingThinking'),
+      setActiveTools: field('activeTools'),
+      setCompletedTools: field('completedTools'),
+      setTodos: field('todos'),
+      setIsStreaming: field('isStreaming'),
+      setMessages: field('messages'),
+      setError: field('error'),
+      setSessionId: field('sessionId'),
+      setPendingPermissions: field('pendingPermissions'),
+      setPendingQuestion: field('pendingQuestion'),
+      setSessions: field('sessions'),
+      setQueue: field('queue'),
+      setLastTurnStats: field('lastTurnStats'),
+      setSessionTotals: field('sessionTotals'),
+      setProjects: field('projects'),
+      setToolResults: field('toolResults'),
+      setServer: field('server'),
+    };
+  }
+
+  // ---------------------------------------------------------------------------
+  // State and Events
+  // ---------------------------------------------------------------------------
+
+  /**
+   * Current state. The same object until something changes.
+   */
+  getState = (): ClaudeClientState => this.state;
+
+  /**
+   * Listen for state changes. Returns a function that stops listening.
+   * (Bound, so it can be passed as-is to useSyncExternalStore.)
+   */
+  subscribe = (listener: (state: ClaudeClientState) => void): (() => void) =>
+    this.on('state', listener);
+
+  /**
+   * Listen for an event. Returns a function that stops listening.
+   */
+  on<K extends keyof ClaudeClientEvents>(event: K, listener: ClaudeClientEvents[K]): () => void {
+    const listeners = this.listeners[event] as Set<ClaudeClientEvents[K]>;
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Update options that may change over the client's life (credentials,
+   * project, callbacks). Read the next time they are needed.
+   */
+  setOptions(options: Partial<Omit<ClaudeClientOptions, 'url' | 'sessionId'>>): void {
+    this.options = { ...this.options, ...options };
+  }
+
+  private emit<K extends keyof ClaudeClientEvents>(
+    event: K,
+    ...args: Parameters<ClaudeClientEvents[K]>
+  ): void {
+    for (const listener of this.listeners[event]) {
+      (listener as (...args: Parameters<ClaudeClientEvents[K]>) => void)(...args);
+    }
+  }
+
+  private reportError(error: string): void {
+    this.options.onError?.(error);
+    this.emit('error', error);
+  }
+
+  /**
+   * Replace one state field. Emits right away unless inside a batch.
+   */
+  private set<K extends keyof ClaudeClientState>(
+    key: K,
+    value: ClaudeClientState[K] | ((prev: ClaudeClientState[K]) => ClaudeClientState[K])
+  ): void {
+    const next = typeof value === 'function'
+      ? (value as (prev: ClaudeClientState[K]) => ClaudeClientState[K])(this.state[key])
+      : value;
+    if (Object.is(next, this.state[key])) return;
+
+    this.state = { ...this.state, [key]: next };
+    if (this.batchDepth === 0) {
+      this.flush();
+    }
+  }
+
+  /**
+   * Apply several changes and emit once at the end.
+   */
+  private batch(fn: () => void): void {
+    this.batchDepth++;
+    try {
+      fn();
+    } finally {
+      this.batchDepth--;
+      if (this.batchDepth === 0) {
+        this.flush();
+      }
+    }
+  }
+
+  /**
+   * Emit the state if it changed since the last emit.
+   */
+  private flush(): void {
+    if (this.state === this.published) return;
+
+    const prev = this.published;
+    if (this.state.isStreaming && STREAMING_FIELDS.some((key) => prev[key] !== this.state[key])) {
+      this.syncStreamingMessage();
+    }
+    // Save between turns rather than on every token
+    if (!this.state.isStreaming && PERSISTED_FIELDS.some((key) => prev[key] !== this.state[key])) {
+      this.persist();
+    }
+
+    this.published = this.state;
+    this.emit('state', this.state);
+  }
+
+  // ---------------------------------------------------------------------------
+  // Storage
+  // ---------------------------------------------------------------------------
+
+  private get storageKey(): string {
+    return this.options.storageKey ?? this.options.url;
+  }
+
+  /**
+   * Save the session's chat. Drafts wait for their real ID, and an empty
+   * chat (just cleared or resumed) doesn't overwrite a saved one.
+   */
+  private persist(): void {
+    const { storage } = this;
+    const { sessionId, messages, todos } = this.state;
+    if (!storage || !sessionId || sessionId.startsWith('new-')) return;
+
+    const session: PersistedSession | undefined = messages.length > 0
+      ? {
+          sessionId,
+          messages,
+          todos,
+          lastSeq: getSharedState(this.options.url).sessionSeqs.get(sessionId) ?? 0,
+          savedAt: Date.now(),
+        }
+      : undefined;
+
+    saveSession(storage, this.storageKey, sessionId, session).catch((err) => {
+      console.error('[ClaudeClient] Failed to save chat:', err);
+    });
+  }
+
+  /**
+   * Show the saved chat for the client's session, or for the session this
+   * storage key showed last. Called by connect; later calls do nothing.
+   */
+  restore(): Promise<void> {
+    this.restoring ??= this.restoreSession(this.state.sessionId);
+    return this.restoring;
+  }
+
+  private async restoreSession(sessionId: string | null): Promise<void> {
+    const { storage } = this;
+    if (!storage) return;
+
+    try {
+      const targetId = sessionId ?? (await loadCurrentSessionId(storage, this.storageKey));
+      if (!targetId) return;
+      const saved = await loadSession(storage, targetId);
+
+      // The live chat moved on while loading (a send, the server's history
+      // or another session) - it wins
+      if (this.state.messages.length > 0) return;
+      if (this.state.sessionId && this.state.sessionId !== targetId) return;
+
+      if (saved) {
+        const seqs = getSharedState(this.options.url).sessionSeqs;
+        if (saved.lastSeq > (seqs.get(targetId) ?? 0)) {
+          seqs.set(targetId, saved.lastSeq);
+        }
+      }
+
+      this.batch(() => {
+        this.set('sessionId', targetId);
+        if (saved) {
+          this.set('messages', saved.messages);
+          this.set('todos', saved.todos);
+        }
+      });
+      // Reconcile with the server (does nothing until connected)
+      this.subscribeToSession();
+    } catch (err) {
+      console.error('[ClaudeClient] Failed to restore chat:', err);
+    }
+  }
+
+  /**
+   * Copy the response so far into the streaming assistant message, so it
+   * renders in real time.
+   */
+  private syncStreamingMessage(): void {
+    const { refs, state } = this;
+    const idx = state.messages.findIndex((m) => m.id === refs.currentAssistantMessage);
+    if (!refs.currentAssistantMessage || idx < 0) return;
+
+    // Build live contentBlocks for real-time rendering
+    const liveContentBlocks = [...refs.contentBlocks];
+    // Add pending thinking if any
+    if (refs.pendingThinking) {
+      liveContentBlocks.push({
+        type: 'thinking',
+        content: refs.pendingThinking,
+        timestamp: Date.now(),
+      });
+    }
+    // Add pending text if any
+    if (refs.pendingText.trim()) {
+      liveContentBlocks.push({
+        type: 'text',
+        content: refs.pendingText,
+        timestamp: Date.now(),
+      });
+    }
+    // Add current tool group if any active tools
+    if (refs.currentToolGroup.length > 0) {
+      liveContentBlocks.push({
+        type: 'tool_group',
+        tools: [...refs.currentToolGroup],
+        timestamp: Date.now(),
+      });
+    }
+
+    const messages = [...state.messages];
+    messages[idx] = {
+      ...messages[idx],
+      content: state.streamingContent,
+      tools: [...state.activeTools, ...state.completedTools],
+      contentBlocks: liveContentBlocks,
+    };
+    this.state = { ...state, messages };
+  }
+
+  // ---------------------------------------------------------------------------
+  // Incoming Messages
+  // ---------------------------------------------------------------------------
+
+  /**
+   * Handle incoming WebSocket message.
+   * Routes to appropriate handler based on message type.
+   * Validates payloads at runtime for type safety.
+   */
+  private handleMessage = (event: MessageEvent): void => {
+    let msg: WebSocketMessage;
+    try {
+      msg = JSON.parse(event.data) as WebSocketMessage;
+      // The socket carries every session its clients follow
+      if (!this.isOwnMessage(msg)) {
+        return;
+      }
+      const onError = (error: string) => this.reportError(error);
+
+      if (msg.type === 'chat') {
+        // Validate chat payload at runtime
+        const payload = validateChatPayload(msg.payload);
+        if (!payload) {
+          console.error('[ClaudeClient] Received invalid chat payload, skipping');
+          return;
+        }
+        this.batch(() => {
+          handleChatPayload(payload as ChatPayload, this.refs, this.setters, onError);
+        });
+      } else if (msg.type === 'system') {
+        // Validate system payload at runtime
+        const payload = validateSystemPayload(msg.payload);
+        if (!payload) {
+          console.error('[ClaudeClient] Received invalid system payload, skipping');
+          return;
+        }
+        this.batch(() => {
+          const system = payload as SystemPayload;
+          // The server rejected the prompt that started the turn
+          if (system.action === 'error' && system.requestId && system.requestId === this.turnRequestId) {
+            this.turnRequestId = null;
+            handleErrorAction({ action: 'error', error: system.error }, this.refs, this.setters, onError);
+            return;
+          }
+          handleSystemPayload(system, this.refs, this.setters, this.handleMessage, onError);
+        });
+      } else {
+        return;
+      }
+    } catch (err) {
+      console.error('[ClaudeClient] Failed to parse message:', err);
+      return;
+    }
+
+    this.emit('message', msg);
+  };
+
+  /**
+   * Whether a message belongs to this client's session. Messages without a
+   * sessionId (session and project lists) go to everyone, except errors about
+   * another client's request.
+   */
+  private isOwnMessage(msg: WebSocketMessage): boolean {
+    const payload = msg.payload as SystemPayload;
+    // Errors about a request go to the client that sent it
+    if (msg.type === 'system' && payload?.action === 'error' && payload.requestId) {
+      return payload.requestId.startsWith(this.requestPrefix);
+    }
+    if (!msg.sessionId) {
+      return true;
+    }
+    if (msg.type === 'system' && payload?.action === 'session_started') {
+      return payload.previousSessionId === this.state.sessionId;
+    }
+    return msg.sessionId === this.state.sessionId;
+  }
+
+  // ---------------------------------------------------------------------------
+  // Connection
+  // ---------------------------------------------------------------------------
+
+  /**
+   * Register with the shared socket for this URL.
+   */
+  private attach(): void {
+    if (this.detach) return;
+
+    const { url } = this.options;
+    const unregisterMessage = registerMessageListener(url, this.handleMessage, () => this.state.sessionId);
+    const unregisterConnection = registerConnectionListener(url, (change) => {
+      this.batch(() => {
+        this.set('status', change.connected ? 'connected' : change.reconnecting ? 'reconnecting' : 'disconnected');
+        this.set('reconnectAttempt', change.reconnectAttempt);
+        this.set('nextRetryAt', change.nextRetryAt);
+      });
+
+      if (change.connected) {
+        this.options.onConnect?.();
+        this.emit('connect');
+      } else if (!change.reconnecting) {
+        this.options.onDisconnect?.();
+        this.emit('disconnect');
+      }
+    });
+
+    this.detach = () => {
+      unregisterMessage();
+      unregisterConnection();
+    };
+  }
+
+  /**
+   * Connect to the server. Clients with the same URL share one WebSocket.
+   */
+  connect(): void {
+    const { url } = this.options;
+    this.attach();
+    void this.restore();
+
+    // Check if already connected via shared WebSocket
+    if (isSharedWebSocketConnected(url)) {
+      this.batch(() => {
+        this.set('status', 'connected');
+        // The hello was answered before this client joined
+        this.set('server', getSharedState(url).server);
+      });
+      this.subscribeToSession();
+      return;
+    }
+
+    this.batch(() => {
+      this.set('status', 'connecting');
+      this.set('error', null);
+    });
+
+    const shared = getSharedState(url);
+    const { autoReconnect, maxReconnectAttempts, reconnectDelay, maxReconnectDelay } = this.options;
+    shared.reconnect = {
+      enabled: autoReconnect ?? DEFAULT_RECONNECT_POLICY.enabled,
+      maxAttempts: maxReconnectAttempts ?? DEFAULT_RECONNECT_POLICY.maxAttempts,
+      baseDelay: reconnectDelay ?? DEFAULT_RECONNECT_POLICY.baseDelay,
+      maxDelay: maxReconnectDelay ?? DEFAULT_RECONNECT_POLICY.maxDelay,
+    };
+
+    // Reconnects happen inside the shared socket, so hand it a token source
+    if (this.options.token !== undefined || this.options.getToken) {
+      shared.getToken = async () => {
+        const { token, getToken } = this.options;
+        return getToken ? getToken() : token;
+      };
+    }
+
+    createSharedWebSocket(url, () => this.subscribeToSession());
+  }
+
+  /**
+   * Disconnect this client. The shared WebSocket closes once no client
+   * is using it.
+   */
+  disconnect(): void {
+    this.detach?.();
+    this.detach = null;
+    // Other clients on the socket keep their sessions
+    if (this.state.sessionId) {
+      releaseSession(this.options.url, this.state.sessionId);
+    }
+    this.batch(() => {
+      this.set('status', 'disconnected');
+      this.set('reconnectAttempt', 0);
+      this.set('nextRetryAt', null);
+    });
+  }
+
+  /**
+   * On connect, subscribe to the session (if we have one) and load its transcript.
+   */
+  private subscribeToSession(): void {
+    const state = getSharedState(this.options.url);
+    const sessionId = this.state.sessionId;
+    if (!sessionId || state.ws?.readyState !== WebSocket.OPEN) return;
+
+    if (!state.subscribedSessions.has(sessionId)) {
+      console.log('[WS] Auto-subscribing to session:', sessionId);
+      state.subscribedSessions.add(sessionId);
+      state.ws.send(
+        JSON.stringify({
+          type: 'system',
+          timestamp: Date.now(),
+          payload: {
+            action: 'subscribe',
+            sessionId,
+          },
+        })
+      );
+    }
+
+    // Hydrate messages from the transcript when resuming an old session
+    if (this.historyRequested !== sessionId) {
+      this.historyRequested = sessionId;
+      state.ws.send(
+        JSON.stringify({
+          type: 'system',
+          timestamp: Date.now(),
+          requestId: this.nextRequestId(),
+          payload: {
+            action: 'load_history',
+            sessionId,
+            projectId: this.options.project,
+          },
+        })
+      );
+    }
+  }
+
+  /**
+   * Whether the shared socket is open; records a 'Not connected' error if not.
+   */
+  private ensureConnected(): boolean {
+    if (isSharedWebSocketConnected(this.options.url)) {
+      return true;
+    }
+    this.set('error', 'Not connected');
+    return false;
+  }
+
+  /**
+   * A new request ID, unique to this client.
+   */
+  private nextRequestId(): string {
+    this.requestCount += 1;
+    return `${this.requestPrefix}${this.requestCount}`;
+  }
+
+  /**
+   * Send a chat action for the current session. Returns its request ID.
+   */
+  private sendChat(payload: Partial<ChatPayload> & Pick<ChatPayload, 'action'>): string {
+    const requestId = this.nextRequestId();
+    sendViaSharedWebSocket(
+      this.options.url,
+      JSON.stringify({
+        type: 'chat',
+        timestamp: Date.now(),
+        sessionId: this.state.sessionId,
+        requestId,
+        payload,
+      })
+    );
+    return requestId;
+  }
+
+  /**
+   * Send a system action.
+   */
+  private sendSystem(
+    payload: Partial<SystemPayload> & Pick<SystemPayload, 'action'>,
+    sessionId?: string
+  ): void {
+    sendViaSharedWebSocket(
+      this.options.url,
+      JSON.stringify({
+        type: 'system',
+        timestamp: Date.now(),
+        ...(sessionId ? { sessionId } : {}),
+        requestId: this.nextRequestId(),
+        payload,
+      })
+    );
+  }
+
+  /**
+   * Whether the server enabled a capability for this connection. Servers
+   * that predate the hello handshake are assumed to support everything.
+   */
+  supports(capability: Capability): boolean {
+    const { server } = this.state;
+    return !server || server.capabilities.includes(capability);
+  }
+
+  // ---------------------------------------------------------------------------
+  // Chat Actions
+  // ---------------------------------------------------------------------------
+
+  /**
+   * Upload files for a message, tracking combined progress.
+   */
+  private async uploadAttachments(files: File[]): Promise<AttachmentInfo[]> {
+    const { url, uploadUrl, token, getToken } = this.options;
+    const authToken = getToken ? await getToken() : token;
+
+    const target = new URL(uploadUrl ?? getDefaultUploadUrl(url), globalThis.location?.href);
+    if (this.state.sessionId) {
+      target.searchParams.set('sessionId', this.state.sessionId);
+    }
+
+    const total = files.reduce((sum, file) => sum + file.size, 0);
+    const loaded = files.map(() => 0);
+    this.set('uploadProgress', { loaded: 0, total });
+
+    try {
+      return await Promise.all(
+        files.map((file, i) =>
+          uploadAttachment(target.toString(), file, authToken, (bytes) => {
+            loaded[i] = bytes;
+            this.set('uploadProgress', { loaded: loaded.reduce((a, b) => a + b, 0), total });
+          })
+        )
+      );
+    } finally {
+      this.set('uploadProgress', null);
+    }
+  }
+
+  /**
+   * Send a message to Claude, optionally with per-message CLI options and
+   * attachments (uploaded first).
+   */
+  send(content: string, options?: SendOptions): void {
+    if (!this.ensureConnected()) return;
+
+    if (content.length > PROTOCOL_LIMITS.MAX_PROMPT_LENGTH) {
+      this.set('error', `Messages can be at most ${PROTOCOL_LIMITS.MAX_PROMPT_LENGTH} characters`);
+      return;
+    }
+
+    const { attachments: files, ...messageOptions } = options ?? {};
+    if (files?.length && !this.supports('uploads')) {
+      this.set('error', "This server doesn't accept attachments");
+      return;
+    }
+
+    // A new session goes by a draft ID until the server reports the real one,
+    // so its events can be told apart from other sessions on the socket
+    if (!this.state.sessionId) {
+      const draftId = `new-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+      this.set('sessionId', draftId);
+      getSharedState(this.options.url).subscribedSessions.add(draftId);
+    }
+
+    const transmit = (attachments: AttachmentInfo[]) => {
+      // While streaming, the server queues the prompt and tells us when it
+      // starts (queue_update), so it isn't added to the history yet
+      const startsTurn = !this.refs.isStreaming;
+      if (startsTurn) {
+        this.batch(() => beginTurn(content, this.refs, this.setters, attachments));
+      }
+
+      const sessionId = this.state.sessionId;
+      const requestId = this.sendChat({
+        action: 'send',
+        content,
+        newSessionId: sessionId?.startsWith('new-') ? sessionId : undefined,
+        projectId: this.options.project,
+        options: Object.keys(messageOptions).length > 0 ? messageOptions : undefined,
+        attachments: attachments.length > 0 ? attachments.map((a) => a.id) : undefined,
+      });
+      if (startsTurn) {
+        this.turnRequestId = requestId;
+      }
+    };
+
+    if (!files?.length) {
+      transmit([]);
+      return;
+    }
+
+    this.uploadAttachments(files).then(transmit, (err: Error) => {
+      this.set('error', err.message);
+      this.reportError(err.message);
+    });
+  }
+
+  /**
+   * Move a queued prompt (position 1 runs next).
+   */
+  reorderQueue(queueId: string, position: number): void {
+    if (!this.ensureConnected()) return;
+    this.sendChat({ action: 'reorder_queue', queueId, position });
+  }
+
+  /**
+   * Drop a queued prompt.
+   */
+  removeQueued(queueId: string): void {
+    if (!this.ensureConnected()) return;
+    this.sendChat({ action: 'remove_queued', queueId });
+  }
+
+  /**
+   * Cancel the current streaming response.
+   */
+  cancel(): void {
+    if (!isSharedWebSocketConnected(this.options.url)) return;
+    this.sendChat({ action: 'cancel' });
+  }
+
+  /**
+   * Approve a pending tool call.
+   */
+  approve(permissionId: string): void {
+    if (!this.ensureConnected()) return;
+    this.sendChat({ action: 'approve', permissionId });
+  }
+
+  /**
+   * Deny a pending tool call, optionally telling Claude why.
+   */
+  deny(permissionId: string, reason?: string): void {
+    if (!this.ensureConnected()) return;
+    this.sendChat({ action: 'deny', permissionId, reason });
+  }
+
+  /**
+   * Answer the pending question. The answers become the next user message;
+   * while a response is streaming the server queues them like any prompt.
+   */
+  answerQuestion(answers: QuestionAnswers): void {
+    const question = this.state.pendingQuestion;
+    if (!question) return;
+    if (!this.ensureConnected()) return;
+
+    this.batch(() => {
+      if (!this.refs.isStreaming) {
+        beginTurn(formatAnswersMessage(question, answers), this.refs, this.setters);
+      }
+      this.sendChat({ action: 'answer', questionId: question.id, answers });
+      this.set('pendingQuestion', null);
+    });
+  }
+
+  /**
+   * Clear chat history.
+   */
+  clearMessages(): void {
+    this.batch(() => {
+      this.set('messages', []);
+      this.set('streamingContent', '');
+      this.set('streamingThinking', '');
+      this.set('activeTools', []);
+      this.set('completedTools', []);
+      this.set('todos', null);
+      this.set('error', null);
+      this.set('pendingPermissions', []);
+      this.set('pendingQuestion', null);
+      this.set('queue', []);
+      this.set('toolResults', {});
+    });
+  }
+
+  // ---------------------------------------------------------------------------
+  // Sessions, Projects and Tool Results
+  // ---------------------------------------------------------------------------
+
+  /**
+   * Request the list of past sessions for the current project.
+   */
+  listSessions(): void {
+    if (!this.ensureConnected()) return;
+    this.sendSystem({ action: 'list_sessions', projectId: this.options.project });
+  }
+
+  /**
+   * Request the projects the server offers.
+   */
+  listProjects(): void {
+    if (!this.ensureConnected()) return;
+    this.sendSystem({ action: 'list_projects' });
+  }
+
+  /**
+   * Request a page of a tool's full output. Pass the length loaded so far
+   * as `offset` to fetch the next page.
+   */
+  loadToolResult(toolId: string, offset = 0): void {
+    if (!this.ensureConnected()) return;
+    if (!this.supports('tool_results')) {
+      this.set('error', "This server can't send full tool results");
+      return;
+    }
+    const sessionId = this.state.sessionId;
+    if (!sessionId) return;
+
+    this.sendSystem({ action: 'get_tool_result', sessionId, toolId, offset }, sessionId);
+  }
+
+  /**
+   * Switch to a past session: subscribe to it and load its transcript.
+   */
+  resumeSession(targetSessionId: string): void {
+    if (!this.ensureConnected()) return;
+
+    const previousSessionId = this.state.sessionId;
+
+    this.batch(() => {
+      resetStreamingState(this.refs, this.setters);
+      this.set('isStreaming', false);
+      this.refs.isStreaming = false;
+      this.set('messages', []);
+      this.set('todos', null);
+      this.set('error', null);
+      this.set('pendingQuestion', null);
+      this.set('queue', []);
+      this.set('toolResults', {});
+      this.set('lastTurnStats', null);
+      this.set('sessionTotals', null);
+      this.set('sessionId', targetSessionId);
+    });
+
+    getSharedState(this.options.url).subscribedSessions.add(targetSessionId);
+    this.historyRequested = targetSessionId;
+
+    for (const action of ['subscribe', 'load_history'] as const) {
+      this.sendSystem({ action, sessionId: targetSessionId, projectId: this.options.project });
+    }
+
+    if (previousSessionId && previousSessionId !== targetSessionId) {
+      releaseSession(this.options.url, previousSessionId);
+    }
+
+    // Show the saved chat until the transcript arrives
+    void this.restoreSession(targetSessionId);
+  }
+}
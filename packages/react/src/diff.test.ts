@@ -0,0 +1,84 @@
+/**
+ * Tests for diff parsing.
+ */
+
+import { describe, expect, test } from 'bun:test';
+import { parseDiff, collectToolDiffs } from './diff';
+import type { ToolUseData } from './types';
+
+const unified = [
+  '--- /repo/a.txt',
+  '+++ /repo/a.txt',
+  '@@ -2,4 +2,5 @@',
+  ' line 2',
+  '-line 3',
+  '+line three',
+  '+line 3b',
+  ' line 4',
+  ' line 5',
+  '',
+].join('\n');
+
+// =============================================================================
+// parseDiff Tests
+// =============================================================================
+
+describe('parseDiff', () => {
+  test('reads paths, hunks and stats', () => {
+    const diff = parseDiff(unified);
+
+    expect(diff.oldPath).toBe('/repo/a.txt');
+    expect(diff.newPath).toBe('/repo/a.txt');
+    expect(diff.additions).toBe(2);
+    expect(diff.deletions).toBe(1);
+    expect(diff.hunks).toHaveLength(1);
+    expect(diff.hunks[0]).toMatchObject({ oldStart: 2, oldLines: 4, newStart: 2, newLines: 5 });
+  });
+
+  test('numbers lines in both files', () => {
+    const lines = parseDiff(unified).hunks[0].lines;
+
+    expect(lines.map((l) => [l.type, l.oldNumber, l.newNumber])).toEqual([
+      ['context', 2, 2],
+      ['delete', 3, undefined],
+      ['add', undefined, 3],
+      ['add', undefined, 4],
+      ['context', 4, 5],
+      ['context', 5, 6],
+    ]);
+  });
+
+  test('treats /dev/null as a new file', () => {
+    const diff = parseDiff('--- /dev/null\n+++ new.ts\n@@ -0,0 +1 @@\n+hello\n');
+
+    expect(diff.oldPath).toBeNull();
+    expect(diff.newPath).toBe('new.ts');
+    expect(diff.hunks[0]).toMatchObject({ newStart: 1, newLines: 1 });
+    expect(diff.hunks[0].lines).toEqual([{ type: 'add', content: 'hello', newNumber: 1 }]);
+  });
+
+  test('returns no hunks for an empty diff', () => {
+    expect(parseDiff('').hunks).toEqual([]);
+  });
+});
+
+// =============================================================================
+// collectToolDiffs Tests
+// =============================================================================
+
+describe('collectToolDiffs', () => {
+  test('finds diffs in subagent tools too', () => {
+    const diff = { path: 'a.txt', unified, additions: 2, deletions: 1 };
+    const tools: ToolUseData[] = [
+      { id: 'edit-1', name: 'Edit', diff },
+      { id: 'read-1', name: 'Read' },
+      {
+        id: 'task-1',
+        name: 'Task',
+        children: [{ id: 'write-1', name: 'Write', parentToolId: 'task-1', diff }],
+      },
+    ];
+
+    expect(collectToolDiffs(tools).map((t) => t.id)).toEqual(['edit-1', 'write-1']);
+  });
+});
@@ -0,0 +1,116 @@
+/**
+ * Diff Parsing
+ *
+ * Parses the unified diffs the server attaches to Edit, MultiEdit and Write
+ * tools into hunks and numbered lines, ready to render.
+ */
+
+import type { ToolUseData } from './types';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export type DiffLineType = 'context' | 'add' | 'delete';
+
+export interface DiffLine {
+  type: DiffLineType;
+  content: string;
+  /** Line number in the old file (context and delete lines) */
+  oldNumber?: number;
+  /** Line number in the new file (context and add lines) */
+  newNumber?: number;
+}
+
+export interface DiffHunk {
+  /** The `@@ -a,b +c,d @@` line */
+  header: string;
+  oldStart: number;
+  oldLines: number;
+  newStart: number;
+  newLines: number;
+  lines: DiffLine[];
+}
+
+export interface ParsedDiff {
+  /** Old path (null for a new file) */
+  oldPath: string | null;
+  newPath: string | null;
+  hunks: DiffHunk[];
+  additions: number;
+  deletions: number;
+}
+
+// =============================================================================
+// Parsing
+// =============================================================================
+
+const HUNK_HEADER = /^@@ -(\d+)(?:,(\d+))? \+(\d+)(?:,(\d+))? @@/;
+
+function parsePath(line: string): string | null {
+  const path = line.slice(4).trim();
+  return path === '/dev/null' ? null : path;
+}
+
+/**
+ * Parse a single-file unified diff.
+ */
+export function parseDiff(unified: string): ParsedDiff {
+  const diff: ParsedDiff = { oldPath: null, newPath: null, hunks: [], additions: 0, deletions: 0 };
+  let hunk: DiffHunk | null = null;
+  let oldNumber = 0;
+  let newNumber = 0;
+
+  for (const line of unified.split('\n')) {
+    const header = HUNK_HEADER.exec(line);
+    if (header) {
+      hunk = {
+        header: line,
+        oldStart: Number(header[1]),
+        oldLines: header[2] === undefined ? 1 : Number(header[2]),
+        newStart: Number(header[3]),
+        newLines: header[4] === undefined ? 1 : Number(header[4]),
+        lines: [],
+      };
+      diff.hunks.push(hunk);
+      oldNumber = hunk.oldStart;
+      newNumber = hunk.newStart;
+      continue;
+    }
+
+    if (!hunk) {
+      if (line.startsWith('--- ')) diff.oldPath = parsePath(line);
+      else if (line.startsWith('+++ ')) diff.newPath = parsePath(line);
+      continue;
+    }
+
+    if (line.startsWith('+')) {
+      hunk.lines.push({ type: 'add', content: line.slice(1), newNumber: newNumber++ });
+      diff.additions++;
+    } else if (line.startsWith('-')) {
+      hunk.lines.push({ type: 'delete', content: line.slice(1), oldNumber: oldNumber++ });
+      diff.deletions++;
+    } else if (line.startsWith(' ')) {
+      hunk.lines.push({
+        type: 'context',
+        content: line.slice(1),
+        oldNumber: oldNumber++,
+        newNumber: newNumber++,
+      });
+    }
+    // Anything else ('\ No newline at end of file', trailing blank) is skipped
+  }
+
+  return diff;
+}
+
+/**
+ * Every tool with a diff in a list of tools, including tools run by
+ * subagents, in the order they ran - e.g. to review a turn's changes.
+ */
+export function collectToolDiffs(tools: ToolUseData[]): ToolUseData[] {
+  return tools.flatMap((tool) => [
+    ...(tool.diff?.unified ? [tool] : []),
+    ...(tool.children ? collectToolDiffs(tool.children) : []),
+  ]);
+}
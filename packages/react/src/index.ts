@@ -5,14 +5,55 @@
  */
 
 export { useClaude } from './useClaude';
+export { ClaudeClient } from './client';
+export { useToolDiff, type UseToolDiffReturn } from './useToolDiff';
+export {
+  parseDiff,
+  collectToolDiffs,
+  type ParsedDiff,
+  type DiffHunk,
+  type DiffLine,
+  type DiffLineType,
+} from './diff';
+export { PROTOCOL_VERSION } from './socket';
+export { PROTOCOL_LIMITS, type ProtocolErrorCode } from 'cc-chat-protocol';
+export {
+  createIndexedDBStorage,
+  createLocalStorage,
+  createMemoryStorage,
+} from './storage';
 export type {
   UseClaudeOptions,
   UseClaudeReturn,
+  ClaudeClientOptions,
+  ClaudeClientState,
+  ClaudeClientEvents,
+  ChatStorage,
+  PersistedSession,
   ConnectionStatus,
   ChatMessage,
   ContentBlock,
   ToolUseData,
+  ToolDiff,
   TodoItem,
+  PermissionRequestData,
+  QuestionItem,
+  QuestionData,
+  QuestionAnswers,
+  QueuedMessage,
+  TokenUsage,
+  TurnStats,
+  SessionTotals,
+  SessionSummary,
+  ProjectInfo,
+  ServerInfo,
+  Capability,
+  ToolResultData,
+  MessageOptions,
+  PermissionMode,
+  AttachmentInfo,
+  SendOptions,
+  UploadProgress,
   WebSocketMessage,
   ChatPayload,
   SystemPayload,
@@ -25,7 +66,20 @@ export {
   systemPayloadSchema,
   webSocketMessageSchema,
   toolUseDataSchema,
+  toolDiffSchema,
   todoItemSchema,
+  permissionRequestSchema,
+  questionItemSchema,
+  questionDataSchema,
+  queuedMessageSchema,
+  turnStatsSchema,
+  sessionTotalsSchema,
+  sessionSummarySchema,
+  projectInfoSchema,
+  toolResultDataSchema,
+  messageOptionsSchema,
+  attachmentInfoSchema,
+  chatMessageSchema,
   validateChatPayload,
   validateSystemPayload,
   validateWebSocketMessage,
@@ -6,12 +6,21 @@
  */
 
 import { z } from 'zod';
+import { CHAT_ACTIONS, SYSTEM_ACTIONS, messageOptionsSchema } from 'cc-chat-protocol';
 
 // =============================================================================
 // Tool and Todo Schemas
 // =============================================================================
 
-export const toolUseDataSchema = z.object({
+export const toolDiffSchema = z.object({
+  path: z.string(),
+  unified: z.string(),
+  additions: z.number(),
+  deletions: z.number(),
+  truncated: z.boolean().optional(),
+});
+
+const baseToolUseDataSchema = z.object({
   id: z.string(),
   name: z.string(),
   friendly: z.string().optional(),
@@ -22,6 +31,18 @@ export const toolUseDataSchema = z.object({
   summary: z.string().optional(),
   duration: z.number().optional(),
   startTime: z.number().optional(),
+  resultSize: z.number().optional(),
+  resultTruncated: z.boolean().optional(),
+  diff: toolDiffSchema.optional(),
+  parentToolId: z.string().optional(),
+  output: z.string().optional(),
+});
+
+type ToolTree = z.infer<typeof baseToolUseDataSchema> & { children?: ToolTree[] };
+
+// Subagent tools nest under their Task
+export const toolUseDataSchema: z.ZodType<ToolTree> = baseToolUseDataSchema.extend({
+  children: z.lazy(() => z.array(toolUseDataSchema)).optional(),
 });
 
 export const todoItemSchema = z.object({
@@ -30,59 +51,183 @@ export const todoItemSchema = z.object({
   activeForm: z.string().optional(),
 });
 
+export const permissionRequestSchema = z.object({
+  id: z.string(),
+  toolName: z.string(),
+  toolUseId: z.string().optional(),
+  friendly: z.string().optional(),
+  input: z.record(z.unknown()).optional(),
+  expiresAt: z.number(),
+});
+
+export const questionItemSchema = z.object({
+  question: z.string(),
+  header: z.string().optional(),
+  options: z.array(z.object({ label: z.string(), description: z.string().optional() })),
+  multiSelect: z.boolean().optional(),
+});
+
+export const questionDataSchema = z.object({
+  id: z.string(),
+  questions: z.array(questionItemSchema),
+  timestamp: z.number(),
+});
+
+export const tokenUsageSchema = z.object({
+  inputTokens: z.number(),
+  outputTokens: z.number(),
+  cacheCreationInputTokens: z.number(),
+  cacheReadInputTokens: z.number(),
+});
+
+export const turnStatsSchema = z.object({
+  usage: tokenUsageSchema,
+  costUsd: z.number(),
+  durationMs: z.number(),
+  durationApiMs: z.number().optional(),
+  numTurns: z.number(),
+  isError: z.boolean(),
+  subtype: z.string().optional(),
+});
+
+export const sessionTotalsSchema = z.object({
+  usage: tokenUsageSchema,
+  costUsd: z.number(),
+  durationMs: z.number(),
+  numTurns: z.number(),
+  turnCount: z.number(),
+});
+
+export { messageOptionsSchema };
+
+export const attachmentInfoSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  type: z.string(),
+  size: z.number(),
+});
+
+export const queuedMessageSchema = z.object({
+  id: z.string(),
+  content: z.string(),
+  queuedAt: z.number(),
+  attachments: z.array(attachmentInfoSchema).optional(),
+});
+
 // =============================================================================
 // Chat Payload Schema
 // =============================================================================
 
-export const chatActionSchema = z.enum([
-  'send',
-  'token',
-  'complete',
-  'error',
-  'cancel',
-  'tool_start',
-  'tool_end',
-  'thinking',
-  'todo_update',
-]);
+export const chatActionSchema = z.enum(CHAT_ACTIONS);
 
 export const chatPayloadSchema = z.object({
   action: chatActionSchema,
   content: z.string().optional(),
   tool: toolUseDataSchema.optional(),
+  toolId: z.string().optional(),
   todos: z.array(todoItemSchema).optional(),
   error: z.string().optional(),
+  permission: permissionRequestSchema.optional(),
+  permissionId: z.string().optional(),
+  question: questionDataSchema.optional(),
+  questionId: z.string().optional(),
+  answers: z.record(z.union([z.string(), z.array(z.string())])).optional(),
+  decision: z.enum(['allow', 'deny']).optional(),
+  reason: z.string().optional(),
+  queueItem: queuedMessageSchema.optional(),
+  queue: z.array(queuedMessageSchema).optional(),
+  queueId: z.string().optional(),
+  position: z.number().optional(),
+  stats: turnStatsSchema.optional(),
+  totals: sessionTotalsSchema.optional(),
+  projectId: z.string().optional(),
+  options: messageOptionsSchema.optional(),
+  attachments: z.array(z.string()).optional(),
+  newSessionId: z.string().optional(),
 });
 
 // =============================================================================
 // System Payload Schema
 // =============================================================================
 
-export const systemActionSchema = z.enum([
-  'connected',
-  'catch_up',
-  'snapshot',
-  'subscribe',
-  'error',
-]);
+export const systemActionSchema = z.enum(SYSTEM_ACTIONS);
 
 export const chatStateSchema = z.object({
   status: z.enum(['idle', 'streaming', 'complete', 'error']),
   accumulatedContent: z.string(),
+  accumulatedThinking: z.string().optional(),
   tools: z.array(toolUseDataSchema),
   todos: z.array(todoItemSchema).nullable(),
+  pendingPermissions: z.array(permissionRequestSchema).optional(),
+  pendingQuestion: questionDataSchema.optional(),
+  queue: z.array(queuedMessageSchema).optional(),
+  totals: sessionTotalsSchema.optional(),
   errorMessage: z.string().optional(),
 });
 
+export const sessionSummarySchema = z.object({
+  sessionId: z.string(),
+  firstPrompt: z.string(),
+  lastActivity: z.number(),
+  messageCount: z.number(),
+});
+
+export const projectInfoSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  path: z.string(),
+});
+
+export const contentBlockSchema = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('text'), content: z.string(), timestamp: z.number() }),
+  z.object({ type: z.literal('thinking'), content: z.string(), timestamp: z.number() }),
+  z.object({ type: z.literal('tool_group'), tools: z.array(toolUseDataSchema), timestamp: z.number() }),
+]);
+
+export const chatMessageSchema = z.object({
+  id: z.string(),
+  role: z.enum(['user', 'assistant']),
+  content: z.string(),
+  timestamp: z.number(),
+  tools: z.array(toolUseDataSchema).optional(),
+  contentBlocks: z.array(contentBlockSchema).optional(),
+  attachments: z.array(attachmentInfoSchema).optional(),
+  isStreaming: z.boolean().optional(),
+});
+
 export const systemPayloadSchema = z.object({
   action: systemActionSchema,
   sessionId: z.string().optional(),
+  protocolVersion: z.number().optional(),
+  features: z.array(z.string()).optional(),
+  // Newer servers may offer capabilities this client doesn't know yet
+  capabilities: z.array(z.string()).optional(),
+  serverVersion: z.string().optional(),
+  cliVersion: z.string().optional(),
+  previousSessionId: z.string().optional(),
   lastSeq: z.number().optional(),
   currentSeq: z.number().optional(),
   // events is an array of WebSocketMessages but we skip deep validation to avoid circular refs
   events: z.array(z.unknown()).optional(),
   chatState: chatStateSchema.optional(),
+  sessions: z.array(sessionSummarySchema).optional(),
+  messages: z.array(chatMessageSchema).optional(),
+  projectId: z.string().optional(),
+  projects: z.array(projectInfoSchema).optional(),
+  toolId: z.string().optional(),
+  offset: z.number().optional(),
+  limit: z.number().optional(),
+  content: z.string().optional(),
+  totalLength: z.number().optional(),
   error: z.string().optional(),
+  code: z.string().optional(),
+  requestId: z.string().optional(),
+});
+
+export const toolResultDataSchema = z.object({
+  toolId: z.string(),
+  content: z.string(),
+  totalLength: z.number(),
 });
 
 // =============================================================================
@@ -91,9 +236,11 @@ export const systemPayloadSchema = z.object({
 
 export const webSocketMessageSchema = z.object({
   type: z.enum(['chat', 'system']),
-  seq: z.number(),
+  sessionSeq: z.number().optional(),
+  connectionSeq: z.number().optional(),
   timestamp: z.number(),
   sessionId: z.string().optional(),
+  requestId: z.string().optional(),
   payload: z.union([chatPayloadSchema, systemPayloadSchema, z.unknown()]),
 });
 
@@ -0,0 +1,21 @@
+/**
+ * Tests for the shared connection's reconnect policy.
+ */
+
+import { describe, expect, test } from 'bun:test';
+import { DEFAULT_RECONNECT_POLICY, getReconnectDelay } from './socket';
+
+describe('getReconnectDelay', () => {
+  test('doubles with each attempt up to the cap', () => {
+    const delays = [1, 2, 3, 4, 5, 6].map((attempt) =>
+      getReconnectDelay(attempt, DEFAULT_RECONNECT_POLICY, () => 1)
+    );
+    expect(delays).toEqual([2000, 4000, 8000, 16000, 30000, 30000]);
+  });
+
+  test('jitters between half and all of the delay', () => {
+    const policy = { ...DEFAULT_RECONNECT_POLICY, baseDelay: 1000 };
+    expect(getReconnectDelay(1, policy, () => 0)).toBe(500);
+    expect(getReconnectDelay(1, policy, () => 0.5)).toBe(750);
+  });
+});
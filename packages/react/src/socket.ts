@@ -0,0 +1,606 @@
+/**
+ * Shared WebSocket Connection
+ *
+ * One socket per server URL, shared by every ClaudeClient (and so every
+ * useClaude hook) talking to it. Handles auth subprotocols, reconnects,
+ * re-subscribing after a drop and dropping replayed events.
+ */
+
+import { CAPABILITIES, PROTOCOL_VERSION } from 'cc-chat-protocol';
+import type { Capability, ServerInfo, WebSocketMessage, SystemPayload } from './types';
+
+// =============================================================================
+// Module-level WebSocket Singleton (survives React StrictMode remounts)
+// Pattern ported from Andy Core's useWebSocketConnection.ts
+// =============================================================================
+
+/**
+ * How a shared connection retries after it drops. Set by the client that
+ * connects (the latest one wins when several share a URL).
+ */
+export interface ReconnectPolicy {
+  enabled: boolean;
+  /** Attempts before giving up (reset when a connection opens) */
+  maxAttempts: number;
+  /** Delay before the first attempt in ms; doubles with each attempt */
+  baseDelay: number;
+  /** Upper bound on the delay in ms */
+  maxDelay: number;
+}
+
+export const DEFAULT_RECONNECT_POLICY: ReconnectPolicy = {
+  enabled: true,
+  maxAttempts: 5,
+  baseDelay: 2000,
+  maxDelay: 30000,
+};
+
+/**
+ * What connection listeners are told when the connection opens, drops or
+ * retries.
+ */
+export interface ConnectionChange {
+  connected: boolean;
+  /** A retry is scheduled or in flight */
+  reconnecting: boolean;
+  /** Retries since the connection was last open */
+  reconnectAttempt: number;
+  /** When the next retry fires (ms since epoch), if one is scheduled */
+  nextRetryAt: number | null;
+}
+
+/** Protocol version this client speaks, sent in the hello */
+export { PROTOCOL_VERSION };
+
+/** Oldest server protocol version this client works with */
+export const MIN_SERVER_PROTOCOL_VERSION = 1;
+
+/** Capabilities this client handles (all of them), offered in the hello */
+export const CLIENT_CAPABILITIES: readonly Capability[] = CAPABILITIES;
+
+// Subprotocols carrying the auth token (browsers can't set WebSocket headers)
+const AUTH_PROTOCOL = 'cc-chat';
+const AUTH_PROTOCOL_TOKEN_PREFIX = 'bearer.';
+
+// Singleton WebSocket state per URL
+interface SharedWebSocketState {
+  ws: WebSocket | null;
+  connecting: boolean;
+  reconnectTimeout: ReturnType<typeof setTimeout> | null;
+  reconnectAttempts: number;
+  reconnect: ReconnectPolicy;
+  // Removes the online/visibilitychange listeners (null when not watching)
+  unwatchNetwork: (() => void) | null;
+  // Sessions the server is sending this socket (cleared when it closes)
+  subscribedSessions: Set<string>;
+  // Highest sessionSeq seen per session, for catch-up and replay dedupe
+  sessionSeqs: Map<string, number>;
+  // Whether this URL has connected before (the next open is a reconnect)
+  hasConnected: boolean;
+  // The server's reply to our last hello (null until it answers)
+  server: ServerInfo | null;
+  // Fetches the auth token before each connection attempt (null = no auth)
+  getToken: (() => Promise<string | undefined>) | null;
+  // Listener Sets - every client registers its handlers here
+  // Each message listener maps to the session it follows (re-subscribed after a reconnect)
+  messageListeners: Map<(event: MessageEvent) => void, () => string | null>;
+  connectionListeners: Set<(change: ConnectionChange) => void>;
+  openListeners: Set<() => void>;
+}
+
+// Track shared state per URL
+const sharedStates = new Map<string, SharedWebSocketState>();
+
+/**
+ * Get or create shared state for a URL.
+ */
+export function getSharedState(url: string): SharedWebSocketState {
+  let state = sharedStates.get(url);
+  if (!state) {
+    state = {
+      ws: null,
+      connecting: false,
+      reconnectTimeout: null,
+      reconnectAttempts: 0,
+      reconnect: DEFAULT_RECONNECT_POLICY,
+      unwatchNetwork: null,
+      subscribedSessions: new Set(),
+      sessionSeqs: new Map(),
+      hasConnected: false,
+      server: null,
+      getToken: null,
+      messageListeners: new Map(),
+      connectionListeners: new Set(),
+      openListeners: new Set(),
+    };
+    sharedStates.set(url, state);
+  }
+  return state;
+}
+
+/**
+ * Record a chat event's sessionSeq. Returns false if it was already seen.
+ */
+function acceptSessionSeq(
+  state: SharedWebSocketState,
+  sessionId: string,
+  seq: number | undefined
+): boolean {
+  if (seq === undefined) {
+    return true; // Unsequenced - nothing to dedupe against
+  }
+  const lastSeq = state.sessionSeqs.get(sessionId) ?? 0;
+  if (seq <= lastSeq) {
+    return false;
+  }
+  state.sessionSeqs.set(sessionId, seq);
+  return true;
+}
+
+/**
+ * The server details from its reply to our hello.
+ */
+export function toServerInfo(payload: SystemPayload): ServerInfo {
+  return {
+    protocolVersion: payload.protocolVersion ?? 1,
+    serverVersion: payload.serverVersion,
+    cliVersion: payload.cliVersion,
+    capabilities: payload.capabilities ?? [],
+  };
+}
+
+/**
+ * Drop chat events this connection has already delivered.
+ *
+ * Catch-up replays everything after the last seq the server thinks we have,
+ * which can overlap with events that arrived before the socket dropped.
+ * Returns null if the whole message should be skipped.
+ */
+function filterReplayedEvents(
+  state: SharedWebSocketState,
+  event: MessageEvent
+): MessageEvent | null {
+  let msg: WebSocketMessage;
+  try {
+    msg = JSON.parse(event.data) as WebSocketMessage;
+  } catch {
+    return event; // Let the listeners report the parse error
+  }
+
+  if (msg.type === 'chat' && msg.sessionId) {
+    if (!acceptSessionSeq(state, msg.sessionId, msg.sessionSeq)) {
+      return null;
+    }
+    return event;
+  }
+
+  const payload = msg.payload as SystemPayload;
+
+  // The server's reply to our hello (keepalives carry no capabilities)
+  if (msg.type === 'system' && payload?.action === 'connected' && payload.capabilities) {
+    state.server = toServerInfo(payload);
+    return event;
+  }
+
+  // A new session got its real ID - the server moved our subscription over
+  if (msg.type === 'system' && payload?.action === 'session_started' && payload.sessionId) {
+    if (payload.previousSessionId) {
+      state.subscribedSessions.delete(payload.previousSessionId);
+    }
+    state.subscribedSessions.add(payload.sessionId);
+    return event;
+  }
+  if (msg.type === 'system' && payload?.action === 'snapshot' && payload.sessionId) {
+    const sessionId = payload.sessionId;
+
+    // Server lost events (e.g. restarted without a store) - start over from its seq
+    const lastSeq = state.sessionSeqs.get(sessionId) ?? 0;
+    if (payload.currentSeq !== undefined && payload.currentSeq < lastSeq) {
+      state.sessionSeqs.set(sessionId, 0);
+    }
+
+    let filtered: MessageEvent | null = null;
+
+    // Only the events a snapshot carries move the cursor: the one answering
+    // subscribe has none, and the catch_up after it still has to get through
+    if (payload.events?.length) {
+      const events = payload.events.filter((e) =>
+        acceptSessionSeq(state, sessionId, e.sessionSeq)
+      );
+      if (events.length !== payload.events.length) {
+        filtered = {
+          data: JSON.stringify({ ...msg, payload: { ...payload, events } }),
+        } as MessageEvent;
+      }
+    }
+
+    return filtered ?? event;
+  }
+
+  return event;
+}
+
+/**
+ * Tell the server which protocol version and capabilities we speak. Servers
+ * that predate the handshake ignore it.
+ */
+function sendHello(ws: WebSocket): void {
+  ws.send(
+    JSON.stringify({
+      type: 'system',
+      timestamp: Date.now(),
+      payload: {
+        action: 'hello',
+        protocolVersion: PROTOCOL_VERSION,
+        features: CLIENT_CAPABILITIES,
+      },
+    })
+  );
+}
+
+/**
+ * Re-subscribe to every session a listener follows and request missed events.
+ * Called when the shared connection reopens after a drop.
+ */
+function resumeSessions(state: SharedWebSocketState, ws: WebSocket): void {
+  for (const getSessionId of state.messageListeners.values()) {
+    const sessionId = getSessionId();
+    // Drafts ("new-...") have nothing to catch up on yet
+    if (!sessionId || sessionId.startsWith('new-') || state.subscribedSessions.has(sessionId)) {
+      continue;
+    }
+    resumeSession(state, ws, sessionId);
+  }
+}
+
+function resumeSession(state: SharedWebSocketState, ws: WebSocket, sessionId: string): void {
+  console.log('[WS] Re-subscribing after reconnect:', sessionId);
+  state.subscribedSessions.add(sessionId);
+
+  ws.send(
+    JSON.stringify({
+      type: 'system',
+      timestamp: Date.now(),
+      payload: {
+        action: 'subscribe',
+        sessionId,
+      },
+    })
+  );
+
+  ws.send(
+    JSON.stringify({
+      type: 'system',
+      timestamp: Date.now(),
+      payload: {
+        action: 'catch_up',
+        sessionId,
+        lastSeq: state.sessionSeqs.get(sessionId) ?? 0,
+      },
+    })
+  );
+}
+
+/**
+ * Delay before a retry: exponential backoff, capped, with jitter so clients
+ * dropped together don't all retry at once. `attempt` starts at 1.
+ */
+export function getReconnectDelay(
+  attempt: number,
+  policy: ReconnectPolicy,
+  random: () => number = Math.random
+): number {
+  const delay = Math.min(policy.maxDelay, policy.baseDelay * 2 ** (attempt - 1));
+  // Somewhere between half and all of the delay
+  return Math.round(delay * (0.5 + random() / 2));
+}
+
+function notifyConnectionListeners(state: SharedWebSocketState, change: ConnectionChange): void {
+  state.connectionListeners.forEach(listener => listener(change));
+}
+
+/**
+ * Retry right away when the network comes back or the page becomes visible
+ * again - iOS drops sockets and stalls timers in the background.
+ */
+function watchNetwork(url: string, state: SharedWebSocketState): void {
+  if (state.unwatchNetwork || typeof window === 'undefined') return;
+
+  const retry = () => {
+    if (typeof document !== 'undefined' && document.visibilityState === 'hidden') return;
+    retrySharedWebSocket(url, state);
+  };
+
+  window.addEventListener('online', retry);
+  if (typeof document !== 'undefined') {
+    document.addEventListener('visibilitychange', retry);
+  }
+  state.unwatchNetwork = () => {
+    window.removeEventListener('online', retry);
+    if (typeof document !== 'undefined') {
+      document.removeEventListener('visibilitychange', retry);
+    }
+  };
+}
+
+/**
+ * Skip the wait and reconnect now, starting the backoff over. Does nothing
+ * while connected or connecting.
+ */
+function retrySharedWebSocket(url: string, state: SharedWebSocketState): void {
+  if (state.ws || state.connecting) return;
+  if (!state.reconnect.enabled || state.messageListeners.size === 0) return;
+
+  if (state.reconnectTimeout) {
+    clearTimeout(state.reconnectTimeout);
+    state.reconnectTimeout = null;
+  }
+  state.reconnectAttempts = 1;
+  console.log('[WS] Network is back, reconnecting now');
+
+  notifyConnectionListeners(state, {
+    connected: false,
+    reconnecting: true,
+    reconnectAttempt: state.reconnectAttempts,
+    nextRetryAt: null,
+  });
+  createSharedWebSocket(url);
+}
+
+/**
+ * Create the shared WebSocket connection (called by the first client that needs it).
+ */
+export function createSharedWebSocket(url: string, onConnect?: () => void): void {
+  const state = getSharedState(url);
+
+  // Already open
+  if (state.ws?.readyState === WebSocket.OPEN) {
+    console.log('[WS] Shared connection already open');
+    onConnect?.();
+    return;
+  }
+  // Already connecting
+  if (state.ws?.readyState === WebSocket.CONNECTING) {
+    console.log('[WS] Shared connection already connecting');
+    if (onConnect) {
+      state.openListeners.add(onConnect);
+    }
+    return;
+  }
+  // Connection in progress (flag)
+  if (state.connecting) {
+    console.log('[WS] Shared connection in progress (flag)');
+    if (onConnect) {
+      state.openListeners.add(onConnect);
+    }
+    return;
+  }
+
+  state.connecting = true;
+  if (onConnect) {
+    state.openListeners.add(onConnect);
+  }
+  watchNetwork(url, state);
+  console.log('[WS] Creating shared connection to:', url);
+
+  if (!state.getToken) {
+    openSharedWebSocket(url, state);
+    return;
+  }
+
+  // Fetch a fresh token for every attempt so reconnects don't reuse an expired one
+  state.getToken().then(
+    (token) => {
+      // Closed while waiting for the token
+      if (!state.connecting) return;
+      openSharedWebSocket(url, state, token);
+    },
+    (err) => {
+      console.error('[WS] Failed to get auth token:', err);
+      if (!state.connecting) return;
+      handleSharedClose(url, state);
+    }
+  );
+}
+
+/**
+ * Open the socket and wire its handlers.
+ */
+function openSharedWebSocket(
+  url: string,
+  state: SharedWebSocketState,
+  token?: string
+): void {
+  const ws = token
+    ? new WebSocket(url, [AUTH_PROTOCOL, `${AUTH_PROTOCOL_TOKEN_PREFIX}${token}`])
+    : new WebSocket(url);
+  state.ws = ws;
+
+  ws.onopen = () => {
+    console.log('[WS] Shared connection opened');
+    state.connecting = false;
+    state.reconnectAttempts = 0;
+    sendHello(ws);
+    // The server forgot our subscription with the old socket
+    if (state.hasConnected) {
+      resumeSessions(state, ws);
+    }
+    state.hasConnected = true;
+    // Notify all connection listeners
+    notifyConnectionListeners(state, {
+      connected: true,
+      reconnecting: false,
+      reconnectAttempt: 0,
+      nextRetryAt: null,
+    });
+    // Call and clear open listeners
+    state.openListeners.forEach(listener => listener());
+    state.openListeners.clear();
+  };
+
+  ws.onmessage = (event) => {
+    const filtered = filterReplayedEvents(state, event);
+    if (!filtered) return;
+    // Broadcast to all registered message listeners
+    state.messageListeners.forEach((_, listener) => listener(filtered));
+  };
+
+  ws.onerror = (error) => {
+    console.error('[WS] Shared connection error:', error);
+    state.connecting = false;
+  };
+
+  ws.onclose = () => {
+    // Closed on purpose, or already replaced by a newer socket
+    if (state.ws !== ws) return;
+    console.log('[WS] Shared connection closed');
+    handleSharedClose(url, state);
+  };
+}
+
+/**
+ * Schedule a reconnect for a lost (or failed) connection, or give up, and
+ * tell the listeners which.
+ */
+function handleSharedClose(url: string, state: SharedWebSocketState): void {
+  state.ws = null;
+  state.connecting = false;
+  state.subscribedSessions.clear();
+
+  const policy = state.reconnect;
+  const willRetry =
+    policy.enabled &&
+    state.messageListeners.size > 0 &&
+    state.reconnectAttempts < policy.maxAttempts;
+
+  if (!willRetry) {
+    notifyConnectionListeners(state, {
+      connected: false,
+      reconnecting: false,
+      reconnectAttempt: state.reconnectAttempts,
+      nextRetryAt: null,
+    });
+    return;
+  }
+
+  state.reconnectAttempts++;
+  const delay = getReconnectDelay(state.reconnectAttempts, policy);
+  console.log(`[WS] Scheduling shared reconnect in ${delay}ms (attempt ${state.reconnectAttempts})`);
+
+  state.reconnectTimeout = setTimeout(() => {
+    state.reconnectTimeout = null;
+    if (state.messageListeners.size === 0) return;
+
+    notifyConnectionListeners(state, {
+      connected: false,
+      reconnecting: true,
+      reconnectAttempt: state.reconnectAttempts,
+      nextRetryAt: null,
+    });
+    createSharedWebSocket(url);
+  }, delay);
+
+  notifyConnectionListeners(state, {
+    connected: false,
+    reconnecting: true,
+    reconnectAttempt: state.reconnectAttempts,
+    nextRetryAt: Date.now() + delay,
+  });
+}
+
+/**
+ * Close the shared WebSocket connection for a URL.
+ */
+function closeSharedWebSocket(url: string): void {
+  const state = sharedStates.get(url);
+  if (!state) return;
+
+  if (state.reconnectTimeout) {
+    clearTimeout(state.reconnectTimeout);
+    state.reconnectTimeout = null;
+  }
+  if (state.ws) {
+    state.ws.close();
+    state.ws = null;
+  }
+  state.unwatchNetwork?.();
+  state.unwatchNetwork = null;
+  state.connecting = false;
+  state.reconnectAttempts = 0;
+  state.subscribedSessions.clear();
+}
+
+/**
+ * Register a message listener for a URL. `getSessionId` reports the session
+ * the listener follows, so it can be re-subscribed after a reconnect.
+ * Returns a cleanup function to unregister.
+ */
+export function registerMessageListener(
+  url: string,
+  listener: (event: MessageEvent) => void,
+  getSessionId: () => string | null = () => null
+): () => void {
+  const state = getSharedState(url);
+  state.messageListeners.set(listener, getSessionId);
+  return () => {
+    state.messageListeners.delete(listener);
+    // If no more listeners, close the connection
+    if (state.messageListeners.size === 0) {
+      closeSharedWebSocket(url);
+    }
+  };
+}
+
+/**
+ * Stop receiving a session's events, unless another listener still follows it.
+ */
+export function releaseSession(url: string, sessionId: string): void {
+  const state = sharedStates.get(url);
+  if (!state?.subscribedSessions.has(sessionId)) return;
+
+  for (const getSessionId of state.messageListeners.values()) {
+    if (getSessionId() === sessionId) return;
+  }
+
+  state.subscribedSessions.delete(sessionId);
+  sendViaSharedWebSocket(
+    url,
+    JSON.stringify({
+      type: 'system',
+      timestamp: Date.now(),
+      payload: { action: 'unsubscribe', sessionId },
+    })
+  );
+}
+
+/**
+ * Register a connection status listener for a URL.
+ * Returns a cleanup function to unregister.
+ */
+export function registerConnectionListener(url: string, listener: (change: ConnectionChange) => void): () => void {
+  const state = getSharedState(url);
+  state.connectionListeners.add(listener);
+  return () => {
+    state.connectionListeners.delete(listener);
+  };
+}
+
+/**
+ * Send a message via the shared WebSocket.
+ */
+export function sendViaSharedWebSocket(url: string, data: string): boolean {
+  const state = sharedStates.get(url);
+  if (state?.ws?.readyState === WebSocket.OPEN) {
+    state.ws.send(data);
+    return true;
+  }
+  return false;
+}
+
+/**
+ * Check if shared WebSocket is connected.
+ */
+export function isSharedWebSocketConnected(url: string): boolean {
+  const state = sharedStates.get(url);
+  return state?.ws?.readyState === WebSocket.OPEN;
+}
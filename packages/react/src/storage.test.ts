@@ -0,0 +1,79 @@
+/**
+ * Tests for chat storage adapters.
+ */
+
+import { describe, expect, test } from 'bun:test';
+import { createLocalStorage, createMemoryStorage, loadCurrentSessionId, loadSession, saveSession } from './storage';
+import type { PersistedSession } from './types';
+
+/**
+ * Just enough of the Web Storage API for the localStorage adapter.
+ */
+function fakeLocalStorage(): Storage {
+  const items = new Map<string, string>();
+  return {
+    getItem: (key: string) => items.get(key) ?? null,
+    setItem: (key: string, value: string) => items.set(key, value),
+    removeItem: (key: string) => items.delete(key),
+    get length() {
+      return items.size;
+    },
+    key: (index: number) => [...items.keys()][index] ?? null,
+    clear: () => items.clear(),
+  } as Storage;
+}
+
+const session: PersistedSession = {
+  sessionId: 's1',
+  messages: [{ id: 'm1', role: 'user', content: 'Hi', timestamp: 1 }],
+  todos: null,
+  lastSeq: 4,
+  savedAt: 10,
+};
+
+// =============================================================================
+// Adapter Tests
+// =============================================================================
+
+describe('createMemoryStorage', () => {
+  test('stores copies of values', async () => {
+    const storage = createMemoryStorage();
+    const value = { count: 1 };
+    await storage.set('a', value);
+    value.count = 2;
+
+    expect(await storage.get<{ count: number }>('a')).toEqual({ count: 1 });
+    await storage.delete('a');
+    expect(await storage.get('a')).toBeUndefined();
+  });
+});
+
+describe('createLocalStorage', () => {
+  test('stores JSON under a prefix', async () => {
+    const local = fakeLocalStorage();
+    const storage = createLocalStorage(local, 'test:');
+    await storage.set('a', [1, 2]);
+
+    expect(local.getItem('test:a')).toBe('[1,2]');
+    expect(await storage.get('a')).toEqual([1, 2]);
+    await storage.delete('a');
+    expect(await storage.get('a')).toBeUndefined();
+  });
+});
+
+// =============================================================================
+// Session Tests
+// =============================================================================
+
+describe('saveSession', () => {
+  test('saves the chat and remembers the session per key', async () => {
+    const storage = createMemoryStorage();
+    await saveSession(storage, 'left', 's1', session);
+    await saveSession(storage, 'right', 's2');
+
+    expect(await loadSession(storage, 's1')).toEqual(session);
+    expect(await loadSession(storage, 's2')).toBeUndefined();
+    expect(await loadCurrentSessionId(storage, 'left')).toBe('s1');
+    expect(await loadCurrentSessionId(storage, 'right')).toBe('s2');
+  });
+});
@@ -0,0 +1,148 @@
+/**
+ * Chat Storage
+ *
+ * Adapters that keep chats on the device, so a reload (or iOS evicting a
+ * PWA) doesn't wipe a conversation the server is still holding. A client
+ * shows the saved chat right away; the server's history replaces it once
+ * connected.
+ */
+
+import type { ChatStorage, PersistedSession } from './types';
+
+// =============================================================================
+// Adapters
+// =============================================================================
+
+const IDB_STORE = 'chats';
+
+/**
+ * Keep chats in memory only (e.g. tests, or to share a store between clients
+ * without touching the disk). Values are copied, like the other adapters do.
+ */
+export function createMemoryStorage(): ChatStorage {
+  const items = new Map<string, string>();
+  return {
+    async get<T>(key: string) {
+      const item = items.get(key);
+      return item === undefined ? undefined : (JSON.parse(item) as T);
+    },
+    async set<T>(key: string, value: T) {
+      items.set(key, JSON.stringify(value));
+    },
+    async delete(key: string) {
+      items.delete(key);
+    },
+  };
+}
+
+/**
+ * Keep chats in localStorage. Synchronous and limited to a few MB, so prefer
+ * IndexedDB for long conversations.
+ */
+export function createLocalStorage(
+  storage: Storage = globalThis.localStorage,
+  prefix = 'cc-chat:'
+): ChatStorage {
+  return {
+    async get<T>(key: string) {
+      const item = storage.getItem(prefix + key);
+      return item === null ? undefined : (JSON.parse(item) as T);
+    },
+    async set<T>(key: string, value: T) {
+      storage.setItem(prefix + key, JSON.stringify(value));
+    },
+    async delete(key: string) {
+      storage.removeItem(prefix + key);
+    },
+  };
+}
+
+/**
+ * Keep chats in an IndexedDB database (one object store, opened on first use).
+ */
+export function createIndexedDBStorage(dbName = 'cc-chat'): ChatStorage {
+  let db: Promise<IDBDatabase> | null = null;
+
+  const open = (): Promise<IDBDatabase> => {
+    db ??= new Promise<IDBDatabase>((resolve, reject) => {
+      const request = indexedDB.open(dbName, 1);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(IDB_STORE);
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    }).catch((err) => {
+      db = null; // Try again next time
+      throw err;
+    });
+    return db;
+  };
+
+  const run = async <T>(
+    mode: IDBTransactionMode,
+    operation: (store: IDBObjectStore) => IDBRequest
+  ): Promise<T> => {
+    const store = (await open()).transaction(IDB_STORE, mode).objectStore(IDB_STORE);
+    return new Promise<T>((resolve, reject) => {
+      const request = operation(store);
+      request.onsuccess = () => resolve(request.result as T);
+      request.onerror = () => reject(request.error);
+    });
+  };
+
+  return {
+    get: <T>(key: string) => run<T | undefined>('readonly', (store) => store.get(key)),
+    async set<T>(key: string, value: T) {
+      await run('readwrite', (store) => store.put(value, key));
+    },
+    async delete(key: string) {
+      await run('readwrite', (store) => store.delete(key));
+    },
+  };
+}
+
+/**
+ * The adapter `storage: true` uses: IndexedDB where there is one, else memory.
+ */
+export function createDefaultStorage(): ChatStorage {
+  return typeof indexedDB === 'undefined' ? createMemoryStorage() : createIndexedDBStorage();
+}
+
+// =============================================================================
+// Keys
+// =============================================================================
+
+/**
+ * Load a session's saved chat.
+ */
+export function loadSession(
+  storage: ChatStorage,
+  sessionId: string
+): Promise<PersistedSession | undefined> {
+  return storage.get<PersistedSession>(`session:${sessionId}`);
+}
+
+/**
+ * Remember a session as the one `storageKey` shows, saving its chat if given.
+ */
+export async function saveSession(
+  storage: ChatStorage,
+  storageKey: string,
+  sessionId: string,
+  session?: PersistedSession
+): Promise<void> {
+  await Promise.all([
+    session ? storage.set(`session:${sessionId}`, session) : undefined,
+    storage.set(`current:${storageKey}`, sessionId),
+  ]);
+}
+
+/**
+ * The session `storageKey` showed last, if any.
+ */
+export function loadCurrentSessionId(
+  storage: ChatStorage,
+  storageKey: string
+): Promise<string | undefined> {
+  return storage.get<string>(`current:${storageKey}`);
+}
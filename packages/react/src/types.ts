@@ -4,6 +4,8 @@
  * TypeScript types for the React client hook.
  */
 
+import type { ChatAction, SystemAction, Capability, ProtocolErrorCode } from 'cc-chat-protocol';
+
 // =============================================================================
 // Message Types (matches server)
 // =============================================================================
@@ -12,9 +14,11 @@ export type MessageType = 'chat' | 'system';
 
 export interface WebSocketMessage<T = unknown> {
   type: MessageType;
-  seq: number;
+  sessionSeq?: number;    // Chat events only - position in the session's event log
+  connectionSeq?: number; // Set by the server on everything it sends
   timestamp: number;
   sessionId?: string;
+  requestId?: string;     // Set on what the client sends; echoed in errors about it
   payload: T;
 }
 
@@ -22,16 +26,7 @@ export interface WebSocketMessage<T = unknown> {
 // Chat Types
 // =============================================================================
 
-export type ChatAction =
-  | 'send'
-  | 'token'
-  | 'complete'
-  | 'error'
-  | 'cancel'
-  | 'tool_start'
-  | 'tool_end'
-  | 'thinking'
-  | 'todo_update';
+export type { ChatAction };
 
 export interface ToolUseData {
   id: string;
@@ -39,11 +34,40 @@ export interface ToolUseData {
   friendly?: string;
   input?: Record<string, unknown>;
   inputDetail?: string;
+  /** Output (from tool_end, a preview; see resultTruncated) */
   result?: string;
+  /** Length of the full output in characters */
+  resultSize?: number;
+  /** Whether `result` is cut short - load the rest with loadToolResult */
+  resultTruncated?: boolean;
   error?: string;
   summary?: string;
   duration?: number;
   startTime?: number;
+  /** Edit, MultiEdit and Write: the change made */
+  diff?: ToolDiff;
+  /** Task tool this call was made inside (subagent tools) */
+  parentToolId?: string;
+  /** Text a Task subagent wrote while running */
+  output?: string;
+  /** Tools a Task subagent ran */
+  children?: ToolUseData[];
+  /** A Task subagent's output and tools, interleaved (built by the hook while streaming) */
+  contentBlocks?: ContentBlock[];
+}
+
+/**
+ * A file change made by an Edit, MultiEdit or Write call (see parseDiff).
+ */
+export interface ToolDiff {
+  path: string;
+  /** Unified diff (empty if nothing changed; in tool_end, a preview - see truncated) */
+  unified: string;
+  /** Lines added and removed in the whole diff */
+  additions: number;
+  deletions: number;
+  /** Whether `unified` was cut short */
+  truncated?: boolean;
 }
 
 export interface TodoItem {
@@ -52,69 +76,322 @@ export interface TodoItem {
   activeForm?: string;
 }
 
+export interface TokenUsage {
+  inputTokens: number;
+  outputTokens: number;
+  cacheCreationInputTokens: number;
+  cacheReadInputTokens: number;
+}
+
+/**
+ * Usage, cost and timing for one response (from the CLI's result event).
+ */
+export interface TurnStats {
+  usage: TokenUsage;
+  costUsd: number;
+  durationMs: number;
+  durationApiMs?: number;
+  numTurns: number;
+  isError: boolean;
+  subtype?: string;
+}
+
+/**
+ * Running totals across a session's responses.
+ */
+export interface SessionTotals {
+  usage: TokenUsage;
+  costUsd: number;
+  durationMs: number;
+  numTurns: number;
+  turnCount: number;
+}
+
+export type PermissionMode = 'skip' | 'prompt' | 'allowlist';
+
+/**
+ * CLI options sent with a message. The server rejects any its policy
+ * doesn't allow.
+ */
+export interface MessageOptions {
+  model?: string;
+  maxTurns?: number;
+  allowedTools?: string[];
+  disallowedTools?: string[];
+  appendSystemPrompt?: string;
+  permissionMode?: PermissionMode;
+}
+
+export type PermissionBehavior = 'allow' | 'deny';
+
+/**
+ * A tool call waiting for approval (server must run in 'prompt' permission mode).
+ */
+export interface PermissionRequestData {
+  id: string;
+  toolName: string;
+  toolUseId?: string;
+  friendly?: string;
+  input?: Record<string, unknown>;
+  expiresAt: number;
+}
+
+/**
+ * One question from Claude's AskUserQuestion tool.
+ */
+export interface QuestionItem {
+  question: string;
+  /** Short label (e.g., "Auth method") */
+  header?: string;
+  options: Array<{ label: string; description?: string }>;
+  /** Whether several options may be chosen */
+  multiSelect?: boolean;
+}
+
+/**
+ * Questions Claude is waiting for the user to answer.
+ */
+export interface QuestionData {
+  /** The AskUserQuestion tool_use ID */
+  id: string;
+  questions: QuestionItem[];
+  timestamp: number;
+}
+
+/**
+ * Answers keyed by question text: the chosen label(s), or free text.
+ */
+export type QuestionAnswers = Record<string, string | string[]>;
+
+/**
+ * A prompt waiting for the current response to finish.
+ */
+export interface QueuedMessage {
+  id: string;
+  content: string;
+  queuedAt: number;
+  attachments?: AttachmentInfo[];
+}
+
+/**
+ * A file uploaded for a message (see POST /uploads).
+ */
+export interface AttachmentInfo {
+  id: string;
+  name: string;
+  type: string;
+  size: number;
+}
+
+/**
+ * Options for `send`: per-message CLI options plus files to attach.
+ */
+export interface SendOptions extends MessageOptions {
+  attachments?: File[];
+}
+
+/**
+ * Bytes uploaded so far across a message's attachments.
+ */
+export interface UploadProgress {
+  loaded: number;
+  total: number;
+}
+
 export interface ChatPayload {
   action: ChatAction;
   content?: string;
   tool?: ToolUseData;
+  toolId?: string;
   todos?: TodoItem[];
   error?: string;
+  permission?: PermissionRequestData;
+  permissionId?: string;
+  question?: QuestionData;
+  questionId?: string;
+  answers?: QuestionAnswers;
+  decision?: PermissionBehavior;
+  reason?: string;
+  queueItem?: QueuedMessage;
+  queue?: QueuedMessage[];
+  queueId?: string;
+  position?: number;
+  stats?: TurnStats;
+  totals?: SessionTotals;
+  projectId?: string;
+  options?: MessageOptions;
+  attachments?: string[];
+  newSessionId?: string;
 }
 
 // =============================================================================
 // System Types
 // =============================================================================
 
-export type SystemAction =
-  | 'connected'
-  | 'catch_up'
-  | 'snapshot'
-  | 'subscribe'
-  | 'error';
+export type { SystemAction };
+
+/**
+ * Optional protocol features, agreed with the server in the hello handshake.
+ */
+export type { Capability };
+
+/**
+ * What the server said about itself in reply to the client's hello.
+ */
+export interface ServerInfo {
+  protocolVersion: number;
+  serverVersion?: string;
+  /** `claude --version` on the server */
+  cliVersion?: string;
+  /** Capabilities enabled for this connection */
+  capabilities: Capability[];
+}
 
 export interface ChatState {
   status: 'idle' | 'streaming' | 'complete' | 'error';
   accumulatedContent: string;
+  accumulatedThinking?: string;
   tools: ToolUseData[];
   todos: TodoItem[] | null;
+  pendingPermissions?: PermissionRequestData[];
+  pendingQuestion?: QuestionData;
+  queue?: QueuedMessage[];
+  totals?: SessionTotals;
   errorMessage?: string;
 }
 
+/**
+ * A past session found in Claude's on-disk transcripts.
+ */
+export interface SessionSummary {
+  sessionId: string;
+  firstPrompt: string;
+  lastActivity: number;
+  messageCount: number;
+}
+
+/**
+ * A project the server can run Claude in.
+ */
+export interface ProjectInfo {
+  id: string;
+  name: string;
+  path: string;
+}
+
 export interface SystemPayload {
   action: SystemAction;
   sessionId?: string;
+  protocolVersion?: number;
+  features?: string[];
+  capabilities?: Capability[];
+  serverVersion?: string;
+  cliVersion?: string;
+  previousSessionId?: string;
   lastSeq?: number;
   currentSeq?: number;
   events?: WebSocketMessage[];
   chatState?: ChatState;
+  sessions?: SessionSummary[];
+  messages?: ChatMessage[];
+  projectId?: string;
+  projects?: ProjectInfo[];
+  toolId?: string;
+  offset?: number;
+  limit?: number;
+  content?: string;
+  totalLength?: number;
   error?: string;
+  /** error: what was wrong with a message the client sent */
+  code?: ProtocolErrorCode;
+  /** error, session_list, history: requestId of the message it answers */
+  requestId?: string;
+}
+
+/**
+ * A tool's full output, as far as it has been loaded.
+ */
+export interface ToolResultData {
+  toolId: string;
+  /** Output loaded so far (from offset 0) */
+  content: string;
+  /** Length of the full output */
+  totalLength: number;
 }
 
 // =============================================================================
-// Hook Types
+// Storage Types
 // =============================================================================
 
 /**
- * Configuration for the useClaude hook.
+ * A session's chat as saved on the device.
+ */
+export interface PersistedSession {
+  sessionId: string;
+  messages: ChatMessage[];
+  todos: TodoItem[] | null;
+  /** Last sessionSeq seen, so replayed events are still dropped after a reload */
+  lastSeq: number;
+  savedAt: number;
+}
+
+/**
+ * Where a client saves chats: an async key-value store of JSON-safe values.
+ * See createIndexedDBStorage, createLocalStorage and createMemoryStorage.
+ */
+export interface ChatStorage {
+  get<T>(key: string): Promise<T | undefined>;
+  set<T>(key: string, value: T): Promise<void>;
+  delete(key: string): Promise<void>;
+}
+
+// =============================================================================
+// Client Types
+// =============================================================================
+
+/**
+ * Configuration for a ClaudeClient.
  */
-export interface UseClaudeOptions {
+export interface ClaudeClientOptions {
   /** WebSocket URL (e.g., "ws://localhost:3000/ws") */
   url: string;
 
   /** Session ID to resume (optional) */
   sessionId?: string;
 
-  /** Auto-connect on mount (default: true) */
-  autoConnect?: boolean;
+  /** Project ID for new sessions and session lists (default: the server's first project) */
+  project?: string;
+
+  /** Upload endpoint for attachments (default: /uploads on the WebSocket's host) */
+  uploadUrl?: string;
 
   /** Reconnect on disconnect (default: true) */
   autoReconnect?: boolean;
 
-  /** Max reconnect attempts (default: 5) */
+  /** Max reconnect attempts before giving up (default: 5) */
   maxReconnectAttempts?: number;
 
-  /** Reconnect delay in ms (default: 2000) */
+  /** Delay before the first reconnect in ms, doubling with each attempt (default: 2000) */
   reconnectDelay?: number;
 
+  /** Longest delay between reconnect attempts in ms (default: 30000) */
+  maxReconnectDelay?: number;
+
+  /**
+   * Save messages, todos and the session on the device and restore them on
+   * load (`true` uses IndexedDB). Read once, when the client is created.
+   */
+  storage?: ChatStorage | boolean;
+
+  /** Name under which the last-shown session is remembered (default: `url`) */
+  storageKey?: string;
+
+  /** Auth token sent when connecting */
+  token?: string;
+
+  /** Returns a fresh auth token before every connect and reconnect (overrides `token`) */
+  getToken?: () => string | Promise<string>;
+
   /** Callback when connected */
   onConnect?: () => void;
 
@@ -125,11 +402,24 @@ export interface UseClaudeOptions {
   onError?: (error: string) => void;
 }
 
+// =============================================================================
+// Hook Types
+// =============================================================================
+
+/**
+ * Configuration for the useClaude hook.
+ */
+export interface UseClaudeOptions extends ClaudeClientOptions {
+  /** Auto-connect on mount (default: true) */
+  autoConnect?: boolean;
+}
+
 /**
  * A content block within a message - either text or a tool group.
  */
 export type ContentBlock =
   | { type: 'text'; content: string; timestamp: number }
+  | { type: 'thinking'; content: string; timestamp: number }
   | { type: 'tool_group'; tools: ToolUseData[]; timestamp: number };
 
 /**
@@ -144,6 +434,8 @@ export interface ChatMessage {
   tools?: ToolUseData[];
   /** Interleaved content blocks (text and tool groups in order) */
   contentBlocks?: ContentBlock[];
+  /** Files sent with a user message */
+  attachments?: AttachmentInfo[];
   isStreaming?: boolean;
 }
 
@@ -157,12 +449,23 @@ export type ConnectionStatus =
   | 'reconnecting';
 
 /**
- * Return value from useClaude hook.
+ * Everything a ClaudeClient knows about the connection and the session.
+ * Never mutated: each change replaces the object, so it can be compared by
+ * reference (and handed straight to useSyncExternalStore).
  */
-export interface UseClaudeReturn {
+export interface ClaudeClientState {
   /** Current connection status */
   status: ConnectionStatus;
 
+  /** The server's versions and capabilities (null until it answers our hello, or if it predates the handshake) */
+  server: ServerInfo | null;
+
+  /** Reconnect attempts since the connection was last open (0 when connected) */
+  reconnectAttempt: number;
+
+  /** When the next reconnect attempt fires (ms since epoch), if one is scheduled */
+  nextRetryAt: number | null;
+
   /** Current session ID (if connected) */
   sessionId: string | null;
 
@@ -172,6 +475,9 @@ export interface UseClaudeReturn {
   /** Currently streaming content (partial response) */
   streamingContent: string;
 
+  /** Extended thinking streamed so far this response */
+  streamingThinking: string;
+
   /** Active tools currently being executed */
   activeTools: ToolUseData[];
 
@@ -187,8 +493,68 @@ export interface UseClaudeReturn {
   /** Current error message (if any) */
   error: string | null;
 
-  /** Send a message to Claude */
-  send: (content: string) => void;
+  /** Tool calls waiting for approval (server 'prompt' permission mode) */
+  pendingPermissions: PermissionRequestData[];
+
+  /** Questions Claude asked with AskUserQuestion, until answered */
+  pendingQuestion: QuestionData | null;
+
+  /** Past sessions for the current project (call listSessions to load) */
+  sessions: SessionSummary[];
+
+  /** Projects the server offers (call listProjects to load) */
+  projects: ProjectInfo[];
+
+  /** Full tool outputs by tool ID (call loadToolResult to load) */
+  toolResults: Record<string, ToolResultData>;
+
+  /** Prompts waiting for the current response to finish, next first */
+  queue: QueuedMessage[];
+
+  /** Usage, cost and timing of the most recent response */
+  lastTurnStats: TurnStats | null;
+
+  /** Usage, cost and timing summed over the session */
+  sessionTotals: SessionTotals | null;
+
+  /** Progress of the attachments being uploaded for a send (null when idle) */
+  uploadProgress: UploadProgress | null;
+}
+
+/**
+ * Events a ClaudeClient emits, with their listener signatures.
+ */
+export interface ClaudeClientEvents {
+  /** The state changed (receives the new state) */
+  state: (state: ClaudeClientState) => void;
+  /** A validated message from the server, after the state was updated */
+  message: (message: WebSocketMessage) => void;
+  connect: () => void;
+  disconnect: () => void;
+  error: (error: string) => void;
+}
+
+/**
+ * Return value from useClaude hook: the client's state plus its actions.
+ */
+export interface UseClaudeReturn extends ClaudeClientState {
+  /** Send a message to Claude (queued by the server if a response is in progress) */
+  send: (content: string, options?: SendOptions) => void;
+
+  /** Move a queued prompt to a position (1 = runs next) */
+  reorderQueue: (queueId: string, position: number) => void;
+
+  /** Drop a queued prompt */
+  removeQueued: (queueId: string) => void;
+
+  /** Approve a pending tool call */
+  approve: (permissionId: string) => void;
+
+  /** Deny a pending tool call, optionally telling Claude why */
+  deny: (permissionId: string, reason?: string) => void;
+
+  /** Answer the pending question; the answers are sent to Claude as the next message */
+  answerQuestion: (answers: QuestionAnswers) => void;
 
   /** Cancel the current streaming response */
   cancel: () => void;
@@ -201,4 +567,22 @@ export interface UseClaudeReturn {
 
   /** Clear chat history */
   clearMessages: () => void;
+
+  /** Request the list of past sessions */
+  listSessions: () => void;
+
+  /** Request the projects the server offers */
+  listProjects: () => void;
+
+  /**
+   * Load a tool's full output, one page at a time. Pass the length loaded so
+   * far as `offset` to fetch the next page.
+   */
+  loadToolResult: (toolId: string, offset?: number) => void;
+
+  /** Switch to a past session and load its history */
+  resumeSession: (sessionId: string) => void;
+
+  /** Whether the server enabled a capability (assumed for servers that predate the handshake) */
+  supports: (capability: Capability) => boolean;
 }
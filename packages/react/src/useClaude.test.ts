@@ -87,15 +87,15 @@ describe('WebSocket Message Protocol', () => {
 
     // Create a simple state tracker
     let streamingContent = '';
-    const messages: Array<{ type: string; seq: number; payload: object }> = [
+    const messages: Array<{ type: string; sessionSeq: number; payload: object }> = [
       {
         type: 'chat',
-        seq: 1,
+        sessionSeq: 1,
         payload: { action: 'token', content: 'Hello' },
       },
       {
         type: 'chat',
-        seq: 2,
+        sessionSeq: 2,
         payload: { action: 'token', content: ' world' },
       },
     ];
@@ -486,7 +486,6 @@ describe('Session Resume', () => {
     // Simulate subscription on connect
     sentMessages.push({
       type: 'system',
-      seq: 0,
       timestamp: Date.now(),
       payload: {
         action: 'subscribe',
@@ -554,7 +553,6 @@ describe('Send Message Format', () => {
 
     const message = {
       type: 'chat',
-      seq: 0,
       timestamp: Date.now(),
       sessionId,
       payload: {
@@ -578,7 +576,6 @@ describe('Send Message Format', () => {
 
     const message = {
       type: 'chat',
-      seq: 0,
       timestamp: Date.now(),
       sessionId,
       payload: {
@@ -634,36 +631,42 @@ describe('Deduplication', () => {
 // =============================================================================
 
 describe('Sequence Numbers', () => {
-  test('sequence numbers track message order', () => {
-    let lastSeq = 0;
+  test('sessionSeq is tracked per session', () => {
+    const sessionSeqs = new Map<string, number>();
 
     const messages = [
-      { type: 'chat', seq: 1, payload: { action: 'token', content: 'a' } },
-      { type: 'chat', seq: 2, payload: { action: 'token', content: 'b' } },
-      { type: 'chat', seq: 3, payload: { action: 'complete' } },
+      { type: 'chat', sessionId: 's1', sessionSeq: 1, payload: { action: 'token', content: 'a' } },
+      { type: 'chat', sessionId: 's2', sessionSeq: 1, payload: { action: 'token', content: 'x' } },
+      { type: 'chat', sessionId: 's1', sessionSeq: 2, payload: { action: 'complete' } },
     ];
 
     for (const msg of messages) {
-      if (msg.seq > lastSeq) {
-        lastSeq = msg.seq;
+      if (msg.sessionSeq > (sessionSeqs.get(msg.sessionId) ?? 0)) {
+        sessionSeqs.set(msg.sessionId, msg.sessionSeq);
       }
     }
 
-    expect(lastSeq).toBe(3);
+    expect(sessionSeqs.get('s1')).toBe(2);
+    expect(sessionSeqs.get('s2')).toBe(1);
   });
 
-  test('connected event may include currentSeq', () => {
-    let lastSeq = 0;
+  test('system messages do not move the catch-up position', () => {
+    const sessionSeqs = new Map<string, number>([['s1', 5]]);
 
-    const connectedPayload = {
-      action: 'connected',
-      currentSeq: 42,
-    };
+    // A keepalive late in a long-lived connection has a large connectionSeq
+    const messages: Array<{ type: string; sessionId?: string; sessionSeq?: number; connectionSeq: number }> = [
+      { type: 'system', connectionSeq: 900 },
+      { type: 'chat', sessionId: 's1', sessionSeq: 6, connectionSeq: 901 },
+    ];
 
-    if (connectedPayload.currentSeq) {
-      lastSeq = connectedPayload.currentSeq;
+    for (const msg of messages) {
+      if (msg.type !== 'chat' || !msg.sessionId || msg.sessionSeq === undefined) continue;
+      if (msg.sessionSeq > (sessionSeqs.get(msg.sessionId) ?? 0)) {
+        sessionSeqs.set(msg.sessionId, msg.sessionSeq);
+      }
     }
 
-    expect(lastSeq).toBe(42);
+    // catch_up would ask for events after 6, not after 900
+    expect(sessionSeqs.get('s1')).toBe(6);
   });
 });
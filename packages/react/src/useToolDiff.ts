@@ -0,0 +1,50 @@
+/**
+ * useToolDiff - Headless hook for rendering an Edit/Write diff
+ *
+ * @example
+ * ```tsx
+ * function ToolDiffView({ tool }: { tool: ToolUseData }) {
+ *   const { diff, expanded, toggle } = useToolDiff(tool);
+ *   if (!diff) return null;
+ *
+ *   return (
+ *     <div>
+ *       <button onClick={toggle}>
+ *         {diff.newPath} +{diff.additions} -{diff.deletions}
+ *       </button>
+ *       {expanded && diff.hunks.map((hunk) => (
+ *         <pre key={hunk.header}>
+ *           {hunk.lines.map((l) => `${l.type === 'add' ? '+' : l.type === 'delete' ? '-' : ' '}${l.content}`).join('\n')}
+ *         </pre>
+ *       ))}
+ *     </div>
+ *   );
+ * }
+ * ```
+ */
+
+import { useCallback, useMemo, useState } from 'react';
+import { parseDiff, type ParsedDiff } from './diff';
+import type { ToolUseData } from './types';
+
+export interface UseToolDiffReturn {
+  /** Parsed diff, or null if the tool made no file change */
+  diff: ParsedDiff | null;
+  /** Whether the diff is shown (starts collapsed) */
+  expanded: boolean;
+  toggle: () => void;
+  setExpanded: (expanded: boolean) => void;
+}
+
+/**
+ * Parse a tool's diff and track whether it is expanded.
+ */
+export function useToolDiff(tool: ToolUseData | null | undefined): UseToolDiffReturn {
+  const unified = tool?.diff?.unified;
+  const diff = useMemo(() => (unified ? parseDiff(unified) : null), [unified]);
+
+  const [expanded, setExpanded] = useState(false);
+  const toggle = useCallback(() => setExpanded((prev) => !prev), []);
+
+  return { diff, expanded, toggle, setExpanded };
+}
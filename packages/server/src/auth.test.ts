@@ -0,0 +1,103 @@
+/**
+ * Tests for token and origin checks.
+ */
+
+import { describe, expect, test } from 'bun:test';
+import {
+  createAuthenticator,
+  createAuthToken,
+  verifyAuthToken,
+  getRequestToken,
+  offersAuthProtocol,
+} from './auth';
+
+function wsRequest(headers: Record<string, string> = {}, query = ''): Request {
+  return new Request(`http://localhost:3457/ws${query}`, { headers });
+}
+
+// =============================================================================
+// Signed Token Tests
+// =============================================================================
+
+describe('signed tokens', () => {
+  test('round-trips claims', () => {
+    const token = createAuthToken('secret', { subject: 'alice', expiresInMs: 1000 });
+    const claims = verifyAuthToken(token, 'secret');
+    expect(claims?.sub).toBe('alice');
+  });
+
+  test('rejects a wrong secret', () => {
+    const token = createAuthToken('secret');
+    expect(verifyAuthToken(token, 'other')).toBeNull();
+  });
+
+  test('rejects expired tokens', () => {
+    const token = createAuthToken('secret', { expiresInMs: 1000 });
+    expect(verifyAuthToken(token, 'secret', Date.now() + 2000)).toBeNull();
+  });
+
+  test('rejects tampered payloads', () => {
+    const [, signature] = createAuthToken('secret').split('.');
+    const forged = Buffer.from(JSON.stringify({ exp: Date.now() + 1e9 })).toString('base64url');
+    expect(verifyAuthToken(`${forged}.${signature}`, 'secret')).toBeNull();
+    expect(verifyAuthToken('garbage', 'secret')).toBeNull();
+  });
+});
+
+// =============================================================================
+// Request Tests
+// =============================================================================
+
+describe('getRequestToken', () => {
+  test('reads the Authorization header', () => {
+    expect(getRequestToken(wsRequest({ Authorization: 'Bearer abc' }))).toBe('abc');
+  });
+
+  test('reads the token from Sec-WebSocket-Protocol', () => {
+    const req = wsRequest({ 'Sec-WebSocket-Protocol': 'cc-chat, bearer.abc' });
+    expect(getRequestToken(req)).toBe('abc');
+    expect(offersAuthProtocol(req)).toBe(true);
+  });
+
+  test('reads the token query param', () => {
+    expect(getRequestToken(wsRequest({}, '?token=abc'))).toBe('abc');
+    expect(getRequestToken(wsRequest())).toBeNull();
+  });
+});
+
+describe('createAuthenticator', () => {
+  test('allows everything when nothing is configured', () => {
+    const auth = createAuthenticator({ auth: {}, allowedOrigins: [] });
+    expect(auth.enabled).toBe(false);
+    expect(auth.check(wsRequest({ Origin: 'https://anywhere.example' }))).toBeNull();
+    expect(auth.corsHeaders(wsRequest())['Access-Control-Allow-Origin']).toBe('*');
+  });
+
+  test('accepts static and signed tokens', () => {
+    const auth = createAuthenticator({
+      auth: { tokens: ['static'], secret: 'secret' },
+      allowedOrigins: [],
+    });
+
+    expect(auth.check(wsRequest({}, '?token=static'))).toBeNull();
+    expect(auth.check(wsRequest({}, `?token=${createAuthToken('secret')}`))).toBeNull();
+    expect(auth.check(wsRequest({}, '?token=wrong'))?.status).toBe(401);
+    expect(auth.check(wsRequest())?.status).toBe(401);
+  });
+
+  test('rejects origins outside the allow list', () => {
+    const auth = createAuthenticator({
+      auth: {},
+      allowedOrigins: ['https://app.example'],
+    });
+
+    expect(auth.check(wsRequest({ Origin: 'https://app.example' }))).toBeNull();
+    expect(auth.check(wsRequest({ Origin: 'https://evil.example' }))?.status).toBe(403);
+    expect(auth.check(wsRequest())).toBeNull();
+
+    const cors = auth.corsHeaders(wsRequest({ Origin: 'https://app.example' }));
+    expect(cors['Access-Control-Allow-Origin']).toBe('https://app.example');
+    expect(auth.corsHeaders(wsRequest({ Origin: 'https://evil.example' }))['Access-Control-Allow-Origin'])
+      .toBeUndefined();
+  });
+});
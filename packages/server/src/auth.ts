@@ -0,0 +1,202 @@
+/**
+ * Authentication
+ *
+ * Guards the WebSocket and HTTP endpoints with either static bearer tokens
+ * or short-lived HMAC-signed tokens, and restricts which browser origins
+ * may connect.
+ *
+ * Browsers can't set headers on a WebSocket, so the token may arrive in
+ * any of three places:
+ * - `Authorization: Bearer <token>`
+ * - `Sec-WebSocket-Protocol: cc-chat, bearer.<token>`
+ * - `?token=<token>`
+ */
+
+import { createHmac, timingSafeEqual } from 'node:crypto';
+import type { AuthConfig } from './types';
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+/** Subprotocol the server selects when a client offers a token this way */
+export const AUTH_PROTOCOL = 'cc-chat';
+
+/** Prefix marking the token entry in Sec-WebSocket-Protocol */
+export const AUTH_PROTOCOL_TOKEN_PREFIX = 'bearer.';
+
+/** Default lifetime of a signed token */
+const DEFAULT_TOKEN_TTL_MS = 5 * 60 * 1000;
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * Claims carried by a signed token.
+ */
+export interface AuthTokenClaims {
+  /** Who the token was issued to (optional, for logging) */
+  sub?: string;
+  /** Expiry, Unix timestamp ms */
+  exp: number;
+}
+
+export interface AuthenticatorOptions {
+  auth: AuthConfig;
+  /** Browser origins allowed to connect; empty allows any */
+  allowedOrigins: string[];
+}
+
+export interface Authenticator {
+  /** Whether any credentials are configured */
+  readonly enabled: boolean;
+
+  /**
+   * Check a request's origin and token. Returns the error response to send,
+   * or null if the request may proceed.
+   */
+  check: (req: Request) => Response | null;
+
+  /** CORS headers for a response to this request */
+  corsHeaders: (req: Request) => Record<string, string>;
+}
+
+// =============================================================================
+// Signed Tokens
+// =============================================================================
+
+function sign(payload: string, secret: string): string {
+  return createHmac('sha256', secret).update(payload).digest('base64url');
+}
+
+function safeEqual(a: string, b: string): boolean {
+  const left = Buffer.from(a);
+  const right = Buffer.from(b);
+  return left.length === right.length && timingSafeEqual(left, right);
+}
+
+/**
+ * Mint a short-lived token signed with the server's secret.
+ * Call this from your own login endpoint and hand the result to the client.
+ */
+export function createAuthToken(
+  secret: string,
+  options: { expiresInMs?: number; subject?: string } = {}
+): string {
+  const claims: AuthTokenClaims = {
+    sub: options.subject,
+    exp: Date.now() + (options.expiresInMs ?? DEFAULT_TOKEN_TTL_MS),
+  };
+  const payload = Buffer.from(JSON.stringify(claims)).toString('base64url');
+  return `${payload}.${sign(payload, secret)}`;
+}
+
+/**
+ * Verify a signed token. Returns its claims, or null if the signature is
+ * wrong or the token has expired.
+ */
+export function verifyAuthToken(
+  token: string,
+  secret: string,
+  now: number = Date.now()
+): AuthTokenClaims | null {
+  const [payload, signature, extra] = token.split('.');
+  if (!payload || !signature || extra !== undefined) return null;
+  if (!safeEqual(signature, sign(payload, secret))) return null;
+
+  try {
+    const claims = JSON.parse(Buffer.from(payload, 'base64url').toString()) as AuthTokenClaims;
+    if (typeof claims.exp !== 'number' || claims.exp <= now) return null;
+    return claims;
+  } catch {
+    return null;
+  }
+}
+
+// =============================================================================
+// Request Helpers
+// =============================================================================
+
+/**
+ * Find the token a request carries, if any.
+ */
+export function getRequestToken(req: Request): string | null {
+  const authorization = req.headers.get('authorization');
+  if (authorization?.toLowerCase().startsWith('bearer ')) {
+    return authorization.slice('bearer '.length).trim();
+  }
+
+  const protocols = req.headers.get('sec-websocket-protocol');
+  if (protocols) {
+    const entry = protocols
+      .split(',')
+      .map((p) => p.trim())
+      .find((p) => p.startsWith(AUTH_PROTOCOL_TOKEN_PREFIX));
+    if (entry) return entry.slice(AUTH_PROTOCOL_TOKEN_PREFIX.length);
+  }
+
+  return new URL(req.url).searchParams.get('token');
+}
+
+/**
+ * Whether the client offered the auth subprotocol. The server must then
+ * select it in the upgrade response or the browser drops the connection.
+ */
+export function offersAuthProtocol(req: Request): boolean {
+  const protocols = req.headers.get('sec-websocket-protocol');
+  return !!protocols?.split(',').some((p) => p.trim() === AUTH_PROTOCOL);
+}
+
+// =============================================================================
+// Authenticator Factory
+// =============================================================================
+
+/**
+ * Create the request guard for a server.
+ */
+export function createAuthenticator(options: AuthenticatorOptions): Authenticator {
+  const tokens = options.auth.tokens ?? [];
+  const secret = options.auth.secret;
+  const allowedOrigins = options.allowedOrigins;
+  const enabled = tokens.length > 0 || !!secret;
+
+  function isOriginAllowed(origin: string | null): boolean {
+    // Non-browser clients send no Origin; the token is their only check
+    return !origin || allowedOrigins.length === 0 || allowedOrigins.includes(origin);
+  }
+
+  function isTokenValid(token: string | null): boolean {
+    if (!token) return false;
+    if (tokens.some((t) => safeEqual(t, token))) return true;
+    return !!secret && verifyAuthToken(token, secret) !== null;
+  }
+
+  return {
+    enabled,
+
+    check(req) {
+      if (!isOriginAllowed(req.headers.get('origin'))) {
+        return new Response('Origin not allowed', { status: 403 });
+      }
+      if (enabled && !isTokenValid(getRequestToken(req))) {
+        return new Response('Unauthorized', {
+          status: 401,
+          headers: { 'WWW-Authenticate': 'Bearer' },
+        });
+      }
+      return null;
+    },
+
+    corsHeaders(req): Record<string, string> {
+      const origin = req.headers.get('origin');
+      if (allowedOrigins.length === 0) {
+        return { 'Access-Control-Allow-Origin': '*' };
+      }
+      if (origin && allowedOrigins.includes(origin)) {
+        return { 'Access-Control-Allow-Origin': origin, Vary: 'Origin' };
+      }
+      return { Vary: 'Origin' };
+    },
+  };
+}
@@ -8,8 +8,14 @@ import {
   getToolInputDetail,
   summarizeToolResult,
   parseClaudeStream,
+  buildClaudeArgs,
+  formatUserMessage,
+  parseTurnStats,
+  addTurnStats,
+  getToolResultText,
   type StreamCallbacks,
 } from './claude';
+import type { ToolUseData } from './types';
 
 // =============================================================================
 // getFriendlyToolName Tests
@@ -201,6 +207,27 @@ describe('summarizeToolResult', () => {
   });
 });
 
+// =============================================================================
+// getToolResultText Tests
+// =============================================================================
+
+describe('getToolResultText', () => {
+  test('prefers the tool_result block content', () => {
+    expect(getToolResultText({ content: 'plain' }, {})).toBe('plain');
+    expect(
+      getToolResultText(
+        { content: [{ type: 'text', text: 'a' }, { type: 'image' }, { type: 'text', text: 'b' }] },
+        {}
+      )
+    ).toBe('a\nb');
+  });
+
+  test('falls back to stdout and stderr', () => {
+    expect(getToolResultText(undefined, { stdout: 'out', stderr: 'err' })).toBe('out\nerr');
+    expect(getToolResultText(undefined, 'Error: nope')).toBe('Error: nope');
+  });
+});
+
 // =============================================================================
 // parseClaudeStream Tests
 // =============================================================================
@@ -212,9 +239,12 @@ describe('parseClaudeStream', () => {
     const calls: Record<string, unknown[][]> = {
       onInit: [],
       onText: [],
+      onThinkingDelta: [],
       onToolStart: [],
       onToolEnd: [],
+      onToolOutput: [],
       onTodoUpdate: [],
+      onQuestion: [],
       onThinking: [],
       onComplete: [],
       onError: [],
@@ -224,9 +254,12 @@ describe('parseClaudeStream', () => {
       calls,
       onInit: (sessionId: string) => calls.onInit.push([sessionId]),
       onText: (text: string) => calls.onText.push([text]),
+      onThinkingDelta: (text: string) => calls.onThinkingDelta.push([text]),
       onToolStart: (tool) => calls.onToolStart.push([tool]),
       onToolEnd: (tool) => calls.onToolEnd.push([tool]),
+      onToolOutput: (toolId, text) => calls.onToolOutput.push([toolId, text]),
       onTodoUpdate: (todos) => calls.onTodoUpdate.push([todos]),
+      onQuestion: (question) => calls.onQuestion.push([question]),
       onThinking: (message: string) => calls.onThinking.push([message]),
       onComplete: (result) => calls.onComplete.push([result]),
       onError: (error: string) => calls.onError.push([error]),
@@ -289,6 +322,31 @@ describe('parseClaudeStream', () => {
     expect(callbacks.calls.onText).toEqual([['Hello'], [' world']]);
   });
 
+  test('parses thinking deltas separately from text', async () => {
+    const callbacks = createMockCallbacks();
+    const reader = createMockReader([
+      {
+        type: 'stream_event',
+        event: {
+          type: 'content_block_delta',
+          delta: { type: 'thinking_delta', thinking: 'Let me check' },
+        },
+      },
+      {
+        type: 'stream_event',
+        event: {
+          type: 'content_block_delta',
+          delta: { type: 'text_delta', text: 'Done' },
+        },
+      },
+    ]);
+
+    await parseClaudeStream(reader, callbacks, () => false);
+
+    expect(callbacks.calls.onThinkingDelta).toEqual([['Let me check']]);
+    expect(callbacks.calls.onText).toEqual([['Done']]);
+  });
+
   test('parses legacy content_block_delta', async () => {
     const callbacks = createMockCallbacks();
     const reader = createMockReader([
@@ -422,6 +480,7 @@ describe('parseClaudeStream', () => {
     expect(callbacks.calls.onToolEnd[0][0]).toMatchObject({
       id: 'tool-4',
       name: 'Read',
+      result: 'file content here',
     });
   });
 
@@ -434,6 +493,31 @@ describe('parseClaudeStream', () => {
     expect(callbacks.calls.onComplete).toEqual([['success']]);
   });
 
+  test('passes turn stats with the result', async () => {
+    const stats: unknown[] = [];
+    const callbacks = {
+      ...createMockCallbacks(),
+      onComplete: (_result?: string, turnStats?: unknown) => stats.push(turnStats),
+    };
+    const reader = createMockReader([
+      {
+        type: 'result',
+        subtype: 'success',
+        is_error: false,
+        result: 'done',
+        total_cost_usd: 0.0125,
+        duration_ms: 4200,
+        num_turns: 3,
+        usage: { input_tokens: 10, output_tokens: 250 },
+      },
+    ]);
+
+    await parseClaudeStream(reader, callbacks, () => false);
+
+    expect(stats).toHaveLength(1);
+    expect(stats[0]).toMatchObject({ costUsd: 0.0125, numTurns: 3, isError: false });
+  });
+
   test('handles abort signal', async () => {
     const callbacks = createMockCallbacks();
     let readCount = 0;
@@ -560,4 +644,266 @@ describe('parseClaudeStream', () => {
     // Should only emit tool_start once
     expect(callbacks.calls.onToolStart.length).toBe(1);
   });
+
+  test('emits AskUserQuestion calls as questions', async () => {
+    const callbacks = createMockCallbacks();
+    const reader = createMockReader([
+      {
+        type: 'assistant',
+        message: {
+          content: [
+            {
+              type: 'tool_use',
+              id: 'ask-1',
+              name: 'AskUserQuestion',
+              input: {
+                questions: [
+                  {
+                    question: 'Which database?',
+                    header: 'Database',
+                    options: [{ label: 'SQLite', description: 'Embedded' }, { label: 'Postgres' }],
+                    multiSelect: false,
+                  },
+                ],
+              },
+            },
+          ],
+        },
+      },
+    ]);
+
+    await parseClaudeStream(reader, callbacks, () => false);
+
+    expect(callbacks.calls.onQuestion.length).toBe(1);
+    expect(callbacks.calls.onQuestion[0][0]).toMatchObject({
+      id: 'ask-1',
+      questions: [{ question: 'Which database?', header: 'Database', multiSelect: false }],
+    });
+  });
+
+  test('nests subagent tools and text under their Task', async () => {
+    const callbacks = createMockCallbacks();
+    const reader = createMockReader([
+      {
+        type: 'assistant',
+        message: {
+          content: [{ type: 'tool_use', id: 'task-1', name: 'Task', input: { prompt: 'Explore' } }],
+        },
+      },
+      {
+        type: 'assistant',
+        parent_tool_use_id: 'task-1',
+        message: {
+          content: [
+            { type: 'text', text: 'Looking around' },
+            { type: 'tool_use', id: 'grep-1', name: 'Grep', input: { pattern: 'foo' } },
+          ],
+        },
+      },
+      {
+        type: 'stream_event',
+        parent_tool_use_id: 'task-1',
+        event: { type: 'content_block_delta', delta: { type: 'text_delta', text: 'Looking' } },
+      },
+      {
+        type: 'user',
+        parent_tool_use_id: 'task-1',
+        tool_use_result: { content: 'foo.ts' },
+        message: { content: [{ type: 'tool_result', tool_use_id: 'grep-1' }] },
+      },
+    ]);
+
+    await parseClaudeStream(reader, callbacks, () => false);
+
+    expect(callbacks.calls.onToolStart.map(([t]) => (t as ToolUseData).parentToolId)).toEqual([
+      undefined,
+      'task-1',
+    ]);
+    expect(callbacks.calls.onToolEnd[0][0]).toMatchObject({ id: 'grep-1', parentToolId: 'task-1' });
+    expect(callbacks.calls.onToolOutput).toEqual([['task-1', 'Looking around']]);
+    // Subagent deltas don't leak into the main response
+    expect(callbacks.calls.onText).toEqual([]);
+  });
+});
+
+// =============================================================================
+// buildClaudeArgs Tests
+// =============================================================================
+
+describe('buildClaudeArgs', () => {
+  const base = {
+    prompt: 'Hello',
+    projectPath: '/project',
+    claudePath: 'claude',
+  };
+
+  test('skips permissions by default', () => {
+    const args = buildClaudeArgs(base);
+    expect(args).toContain('--dangerously-skip-permissions');
+    expect(args.slice(-2)).toEqual(['--', 'Hello']);
+  });
+
+  test('allowlist mode passes allowed tools without skipping permissions', () => {
+    const args = buildClaudeArgs({
+      ...base,
+      permissionMode: 'allowlist',
+      allowedTools: ['Read', 'Grep'],
+    });
+    expect(args).not.toContain('--dangerously-skip-permissions');
+    expect(args).not.toContain('--permission-prompt-tool');
+    const idx = args.indexOf('--allowedTools');
+    expect(args.slice(idx, idx + 3)).toEqual(['--allowedTools', 'Read', 'Grep']);
+  });
+
+  test('skip mode still passes allowed tools', () => {
+    const args = buildClaudeArgs({ ...base, allowedTools: ['Read', 'Grep'] });
+    expect(args).toContain('--dangerously-skip-permissions');
+    const idx = args.indexOf('--allowedTools');
+    expect(args.slice(idx, idx + 3)).toEqual(['--allowedTools', 'Read', 'Grep']);
+    expect(args.slice(-2)).toEqual(['--', 'Hello']);
+  });
+
+  test('prompt mode wires up the permission prompt tool', () => {
+    const args = buildClaudeArgs({
+      ...base,
+      permissionMode: 'prompt',
+      permissionMcpConfig: '{"mcpServers":{}}',
+    });
+    expect(args).not.toContain('--dangerously-skip-permissions');
+    expect(args[args.indexOf('--mcp-config') + 1]).toBe('{"mcpServers":{}}');
+    expect(args[args.indexOf('--permission-prompt-tool') + 1]).toBe(
+      'mcp__cc-chat__approve_tool'
+    );
+  });
+
+  test('prompt mode requires an mcp config', () => {
+    expect(() => buildClaudeArgs({ ...base, permissionMode: 'prompt' })).toThrow();
+  });
+
+  test('passes model, max turns and disallowed tools', () => {
+    const args = buildClaudeArgs({
+      ...base,
+      model: 'sonnet',
+      maxTurns: 3,
+      disallowedTools: ['Bash', 'Write'],
+    });
+    expect(args[args.indexOf('--model') + 1]).toBe('sonnet');
+    expect(args[args.indexOf('--max-turns') + 1]).toBe('3');
+    const idx = args.indexOf('--disallowedTools');
+    expect(args.slice(idx, idx + 3)).toEqual(['--disallowedTools', 'Bash', 'Write']);
+    expect(args.slice(-2)).toEqual(['--', 'Hello']);
+  });
+
+  test('passes resume session ID', () => {
+    const args = buildClaudeArgs({ ...base, sessionId: 'session-123' });
+    expect(args[args.indexOf('--resume') + 1]).toBe('session-123');
+  });
+
+  test('stream-json input reads prompts from stdin', () => {
+    const args = buildClaudeArgs({
+      projectPath: '/project',
+      claudePath: 'claude',
+      inputFormat: 'stream-json',
+    });
+    expect(args[args.indexOf('--input-format') + 1]).toBe('stream-json');
+    expect(args).not.toContain('--');
+  });
+
+  test('text input requires a prompt', () => {
+    expect(() =>
+      buildClaudeArgs({ projectPath: '/project', claudePath: 'claude' })
+    ).toThrow();
+  });
+});
+
+// =============================================================================
+// formatUserMessage Tests
+// =============================================================================
+
+describe('formatUserMessage', () => {
+  test('produces one stream-json user line', () => {
+    const line = formatUserMessage('Hello\nthere');
+    expect(line.endsWith('\n')).toBe(true);
+    expect(line.trim().split('\n')).toHaveLength(1);
+    expect(JSON.parse(line)).toEqual({
+      type: 'user',
+      message: { role: 'user', content: [{ type: 'text', text: 'Hello\nthere' }] },
+    });
+  });
+
+  test('passes content blocks through', () => {
+    const blocks = [
+      { type: 'image' as const, source: { type: 'base64' as const, media_type: 'image/png', data: 'AAAA' } },
+      { type: 'text' as const, text: 'What is this?' },
+    ];
+    expect(JSON.parse(formatUserMessage(blocks)).message.content).toEqual(blocks);
+  });
+});
+
+// =============================================================================
+// Usage and Cost Tests
+// =============================================================================
+
+describe('parseTurnStats', () => {
+  test('reads usage, cost and timing from a result event', () => {
+    expect(
+      parseTurnStats({
+        type: 'result',
+        subtype: 'error_max_turns',
+        is_error: true,
+        duration_ms: 9000,
+        duration_api_ms: 7000,
+        num_turns: 12,
+        total_cost_usd: 0.42,
+        usage: {
+          input_tokens: 100,
+          output_tokens: 2000,
+          cache_creation_input_tokens: 5000,
+          cache_read_input_tokens: 30000,
+        },
+      })
+    ).toEqual({
+      usage: {
+        inputTokens: 100,
+        outputTokens: 2000,
+        cacheCreationInputTokens: 5000,
+        cacheReadInputTokens: 30000,
+      },
+      costUsd: 0.42,
+      durationMs: 9000,
+      durationApiMs: 7000,
+      numTurns: 12,
+      isError: true,
+      subtype: 'error_max_turns',
+    });
+  });
+
+  test('defaults missing fields to zero', () => {
+    const stats = parseTurnStats({ type: 'result', result: 'ok' });
+    expect(stats.costUsd).toBe(0);
+    expect(stats.usage.outputTokens).toBe(0);
+    expect(stats.isError).toBe(false);
+    expect(stats.subtype).toBeUndefined();
+  });
+});
+
+describe('addTurnStats', () => {
+  test('accumulates turns into session totals', () => {
+    const turn = parseTurnStats({
+      total_cost_usd: 0.1,
+      duration_ms: 1000,
+      num_turns: 2,
+      usage: { input_tokens: 5, output_tokens: 50 },
+    });
+
+    const once = addTurnStats(undefined, turn);
+    const twice = addTurnStats(once, turn);
+
+    expect(once.turnCount).toBe(1);
+    expect(twice.turnCount).toBe(2);
+    expect(twice.costUsd).toBeCloseTo(0.2);
+    expect(twice.durationMs).toBe(2000);
+    expect(twice.numTurns).toBe(4);
+    expect(twice.usage.outputTokens).toBe(100);
+  });
 });
@@ -13,8 +13,16 @@ import type {
   ChatPayload,
   ToolUseData,
   TodoItem,
+  QuestionData,
+  PermissionMode,
+  TurnStats,
+  SessionTotals,
   WS_CONFIG,
 } from './types';
+import { PERMISSION_PROMPT_TOOL } from './permissions';
+import { getToolDiff } from './diff';
+import { ASK_USER_QUESTION_TOOL, parseQuestion } from './questions';
+import { createRecordingPath, teeToRecording } from './recordings';
 
 // =============================================================================
 // Claude CLI Location
@@ -41,6 +49,28 @@ export function findClaudePath(): string | null {
   return null;
 }
 
+// Longest `claude --version` may take before we give up on it
+const VERSION_TIMEOUT_MS = 5000;
+
+/**
+ * The CLI's version (`claude --version`), or undefined if it can't be run.
+ */
+export async function getClaudeVersion(claudePath: string): Promise<string | undefined> {
+  try {
+    const proc = Bun.spawn([claudePath, '--version'], {
+      stdin: 'ignore',
+      stdout: 'pipe',
+      stderr: 'ignore',
+    });
+    const timer = setTimeout(() => proc.kill(), VERSION_TIMEOUT_MS);
+    const output = await new Response(proc.stdout).text();
+    clearTimeout(timer);
+    return (await proc.exited) === 0 ? output.trim() || undefined : undefined;
+  } catch {
+    return undefined; // Not installed (or not executable)
+  }
+}
+
 // =============================================================================
 // Friendly Tool Names
 // =============================================================================
@@ -133,6 +163,7 @@ export function getToolInputDetail(
     case 'Read':
     case 'Write':
     case 'Edit':
+    case 'MultiEdit':
       return input.file_path ? String(input.file_path) : undefined;
 
     case 'Bash':
@@ -207,6 +238,42 @@ export function summarizeToolResult(
   }
 }
 
+/**
+ * Text from a string or an array of content blocks (non-text blocks skipped).
+ */
+function textFromContent(content: unknown): string | undefined {
+  if (typeof content === 'string') return content;
+  if (!Array.isArray(content)) return undefined;
+
+  const texts = content
+    .filter((c: Record<string, unknown>) => c?.type === 'text' && typeof c.text === 'string')
+    .map((c: Record<string, unknown>) => c.text as string);
+  return texts.length > 0 ? texts.join('\n') : undefined;
+}
+
+/**
+ * Text of a tool's output: the tool_result block Claude saw, falling back
+ * to the CLI's structured `tool_use_result`.
+ */
+export function getToolResultText(
+  block: Record<string, unknown> | undefined,
+  result: unknown
+): string | undefined {
+  const fromBlock = textFromContent(block?.content);
+  if (fromBlock !== undefined) return fromBlock;
+
+  if (typeof result === 'string') return result;
+  if (!result || typeof result !== 'object') return undefined;
+
+  const { content, stdout, stderr } = result as Record<string, unknown>;
+  const fromResult = textFromContent(content);
+  if (fromResult !== undefined) return fromResult;
+  if (typeof stdout === 'string' || typeof stderr === 'string') {
+    return [stdout, stderr].filter((s) => typeof s === 'string' && s).join('\n');
+  }
+  return JSON.stringify(result, null, 2);
+}
+
 // =============================================================================
 // Stream Parser
 // =============================================================================
@@ -214,11 +281,17 @@ export function summarizeToolResult(
 export interface StreamCallbacks {
   onInit: (sessionId: string) => void;
   onText: (text: string) => void;
+  /** Extended thinking text as it streams */
+  onThinkingDelta: (text: string) => void;
   onToolStart: (tool: ToolUseData) => void;
   onToolEnd: (tool: ToolUseData) => void;
+  /** Text a Task subagent wrote, for the Task tool `toolId` */
+  onToolOutput: (toolId: string, text: string) => void;
   onTodoUpdate: (todos: TodoItem[]) => void;
+  /** Claude called AskUserQuestion */
+  onQuestion: (question: QuestionData) => void;
   onThinking: (message: string) => void;
-  onComplete: (result?: string) => void;
+  onComplete: (result?: string, stats?: TurnStats) => void;
   onError: (error: string) => void;
 }
 
@@ -303,6 +376,9 @@ function processEvent(
   _detectedSessionId: string | undefined,
   setSessionId: (id: string) => void
 ): void {
+  // Events from inside a Task subagent name the Task's tool_use ID
+  const parentToolId = (event.parent_tool_use_id as string | null | undefined) ?? undefined;
+
   // Extract session ID from init event
   if (event.type === 'system' && event.subtype === 'init') {
     const sessionId = event.session_id as string;
@@ -315,7 +391,9 @@ function processEvent(
   if (event.type === 'stream_event' && event.event) {
     const streamEvent = event.event as Record<string, unknown>;
 
+    // Subagent text is taken from its complete assistant messages below
     if (
+      !parentToolId &&
       streamEvent.type === 'content_block_delta' &&
       (streamEvent.delta as Record<string, unknown>)?.type === 'text_delta'
     ) {
@@ -323,6 +401,15 @@ function processEvent(
       callbacks.onText(text);
     }
 
+    if (
+      !parentToolId &&
+      streamEvent.type === 'content_block_delta' &&
+      (streamEvent.delta as Record<string, unknown>)?.type === 'thinking_delta'
+    ) {
+      const thinking = (streamEvent.delta as Record<string, string>).thinking;
+      callbacks.onThinkingDelta(thinking);
+    }
+
     // Early tool detection from content_block_start
     if (
       streamEvent.type === 'content_block_start' &&
@@ -342,12 +429,14 @@ function processEvent(
           name: toolName,
           friendly,
           startTime,
+          parentToolId,
         });
         callbacks.onToolStart({
           id: toolId,
           name: toolName,
           friendly,
           startTime,
+          parentToolId,
         });
       }
     }
@@ -362,6 +451,14 @@ function processEvent(
     callbacks.onText(text);
   }
 
+  if (
+    event.type === 'content_block_delta' &&
+    (event.delta as Record<string, unknown>)?.type === 'thinking_delta'
+  ) {
+    const thinking = (event.delta as Record<string, string>).thinking;
+    callbacks.onThinkingDelta(thinking);
+  }
+
   // Tool usage from assistant message (has full input)
   if (event.type === 'assistant' && event.message) {
     const message = event.message as Record<string, unknown>;
@@ -369,6 +466,10 @@ function processEvent(
 
     if (content) {
       for (const block of content) {
+        if (parentToolId && block.type === 'text' && typeof block.text === 'string') {
+          callbacks.onToolOutput(parentToolId, block.text);
+        }
+
         if (block.type === 'tool_use') {
           const toolId = block.id as string;
           const toolName = block.name as string;
@@ -387,6 +488,8 @@ function processEvent(
               name: toolName,
               friendly,
               startTime,
+              input: toolInput,
+              parentToolId,
             });
             callbacks.onToolStart({
               id: toolId,
@@ -395,15 +498,27 @@ function processEvent(
               input: toolInput,
               inputDetail,
               startTime,
+              parentToolId,
             });
           }
           // If tool already exists (from early detection), don't broadcast again
 
           // Handle TodoWrite specially
+          // Early detection has no input; keep it for the diff at tool_end
+          if (existingTool && !existingTool.input) {
+            existingTool.input = toolInput;
+          }
+
           if (toolName === 'TodoWrite' && toolInput?.todos) {
             const todos = toolInput.todos as TodoItem[];
             callbacks.onTodoUpdate(todos);
           }
+
+          // Nobody can answer in the terminal; ask the web user instead
+          if (toolName === ASK_USER_QUESTION_TOOL) {
+            const question = parseQuestion(toolId, toolInput);
+            if (question) callbacks.onQuestion(question);
+          }
         }
       }
     }
@@ -431,9 +546,12 @@ function processEvent(
           callbacks.onToolEnd({
             id: toolId,
             name: toolName,
+            result: getToolResultText(block, result),
+            diff: result.isError ? undefined : getToolDiff(toolName, activeTool?.input, result),
             summary,
             duration,
             error: result.isError ? String(result.content) : undefined,
+            parentToolId: activeTool?.parentToolId,
           });
 
           activeTools.delete(toolId);
@@ -454,9 +572,12 @@ function processEvent(
         callbacks.onToolEnd({
           id: toolId,
           name: toolName,
+          result: getToolResultText(undefined, result),
+          diff: result.isError ? undefined : getToolDiff(toolName, activeTool?.input, result),
           summary,
           duration,
           error: result.isError ? String(result.content) : undefined,
+          parentToolId: activeTool?.parentToolId,
         });
 
         activeTools.delete(toolId);
@@ -467,38 +588,164 @@ function processEvent(
   // Result event (completion)
   if (event.type === 'result') {
     const result = event.result as string | undefined;
-    callbacks.onComplete(result);
+    callbacks.onComplete(result, parseTurnStats(event));
   }
 }
 
+// =============================================================================
+// Usage and Cost
+// =============================================================================
+
+/**
+ * Read a numeric field, treating anything else as 0.
+ */
+function num(value: unknown): number {
+  return typeof value === 'number' && Number.isFinite(value) ? value : 0;
+}
+
+/**
+ * Extract usage, cost and timing from a CLI result event.
+ */
+export function parseTurnStats(event: Record<string, unknown>): TurnStats {
+  const usage = (event.usage ?? {}) as Record<string, unknown>;
+
+  return {
+    usage: {
+      inputTokens: num(usage.input_tokens),
+      outputTokens: num(usage.output_tokens),
+      cacheCreationInputTokens: num(usage.cache_creation_input_tokens),
+      cacheReadInputTokens: num(usage.cache_read_input_tokens),
+    },
+    costUsd: num(event.total_cost_usd),
+    durationMs: num(event.duration_ms),
+    durationApiMs: typeof event.duration_api_ms === 'number' ? event.duration_api_ms : undefined,
+    numTurns: num(event.num_turns),
+    isError: event.is_error === true,
+    subtype: typeof event.subtype === 'string' ? event.subtype : undefined,
+  };
+}
+
+/**
+ * Add a turn's stats to a session's running totals.
+ */
+export function addTurnStats(
+  totals: SessionTotals | undefined,
+  stats: TurnStats
+): SessionTotals {
+  const base: SessionTotals = totals ?? {
+    usage: {
+      inputTokens: 0,
+      outputTokens: 0,
+      cacheCreationInputTokens: 0,
+      cacheReadInputTokens: 0,
+    },
+    costUsd: 0,
+    durationMs: 0,
+    numTurns: 0,
+    turnCount: 0,
+  };
+
+  return {
+    usage: {
+      inputTokens: base.usage.inputTokens + stats.usage.inputTokens,
+      outputTokens: base.usage.outputTokens + stats.usage.outputTokens,
+      cacheCreationInputTokens:
+        base.usage.cacheCreationInputTokens + stats.usage.cacheCreationInputTokens,
+      cacheReadInputTokens: base.usage.cacheReadInputTokens + stats.usage.cacheReadInputTokens,
+    },
+    costUsd: base.costUsd + stats.costUsd,
+    durationMs: base.durationMs + stats.durationMs,
+    numTurns: base.numTurns + stats.numTurns,
+    turnCount: base.turnCount + 1,
+  };
+}
+
 // =============================================================================
 // Claude Process Spawner
 // =============================================================================
 
 export interface SpawnClaudeOptions {
-  prompt: string;
+  /** Prompt passed on the command line (unused with 'stream-json' input) */
+  prompt?: string;
   projectPath: string;
   claudePath: string;
   sessionId?: string;
   appendSystemPrompt?: string;
+  /** How tool permissions are handled (default: 'skip') */
+  permissionMode?: PermissionMode;
+  /** Tools that run without asking (passed in every mode; no effect in 'skip' mode) */
+  allowedTools?: string[];
+  /** Tools Claude may not use at all */
+  disallowedTools?: string[];
+  /** Model alias or full name (default: the CLI's) */
+  model?: string;
+  /** Stop after this many agentic turns */
+  maxTurns?: number;
+  /** --mcp-config JSON for the permission server (required in 'prompt' mode) */
+  permissionMcpConfig?: string;
+  /**
+   * 'text' (default) runs a single prompt and exits. 'stream-json' keeps the
+   * process alive and reads user messages from stdin (see formatUserMessage).
+   */
+  inputFormat?: 'text' | 'stream-json';
+  /**
+   * Tee the CLI's raw stdout and stderr into a new recording in this
+   * directory. With 'stream-json' input each turn gets its own file.
+   */
+  recordDir?: string;
+  /**
+   * Have a fake CLI at `claudePath` (see writeFakeClaude in
+   * cc-chat-server/testing) play this recording. `speed` divides the
+   * recorded pauses (default 1 = original timing; Infinity = none).
+   */
+  replay?: { path: string; speed?: number };
 }
 
 /**
- * Spawn the Claude CLI process with streaming output.
+ * Build the CLI arguments for a Claude invocation.
  */
-export function spawnClaude(options: SpawnClaudeOptions): {
-  proc: ReturnType<typeof Bun.spawn>;
-  reader: ReadableStreamDefaultReader<Uint8Array>;
-} {
+export function buildClaudeArgs(options: SpawnClaudeOptions): string[] {
   const args: string[] = [
     '--print',
     '--verbose',
-    '--dangerously-skip-permissions',
     '--output-format',
     'stream-json',
     '--include-partial-messages',
   ];
 
+  const permissionMode = options.permissionMode ?? 'skip';
+
+  if (permissionMode === 'skip') {
+    args.push('--dangerously-skip-permissions');
+  } else if (permissionMode === 'prompt') {
+    if (!options.permissionMcpConfig) {
+      throw new Error("permissionMcpConfig is required in 'prompt' permission mode");
+    }
+    args.push(
+      '--mcp-config',
+      options.permissionMcpConfig,
+      '--permission-prompt-tool',
+      PERMISSION_PROMPT_TOOL
+    );
+  }
+
+  // Passed in every mode, so a configured or per-message list is never dropped
+  if (options.allowedTools?.length) {
+    args.push('--allowedTools', ...options.allowedTools);
+  }
+
+  if (options.disallowedTools?.length) {
+    args.push('--disallowedTools', ...options.disallowedTools);
+  }
+
+  if (options.model) {
+    args.push('--model', options.model);
+  }
+
+  if (options.maxTurns !== undefined) {
+    args.push('--max-turns', String(options.maxTurns));
+  }
+
   if (options.sessionId) {
     args.push('--resume', options.sessionId);
   }
@@ -507,17 +754,83 @@ export function spawnClaude(options: SpawnClaudeOptions): {
     args.push('--append-system-prompt', options.appendSystemPrompt);
   }
 
-  args.push(options.prompt);
+  // Prompts arrive on stdin instead of the command line
+  if (options.inputFormat === 'stream-json') {
+    args.push('--input-format', 'stream-json');
+    return args;
+  }
+
+  if (options.prompt === undefined) {
+    throw new Error("prompt is required unless inputFormat is 'stream-json'");
+  }
+
+  // End option parsing: --allowedTools is variadic, and a prompt that
+  // starts with "-" must not be read as a flag
+  args.push('--', options.prompt);
+
+  return args;
+}
+
+/**
+ * A content block in a stream-json user message.
+ */
+export type UserContentBlock =
+  | { type: 'text'; text: string }
+  | { type: 'image'; source: { type: 'base64'; media_type: string; data: string } };
+
+/**
+ * Format a user message as a stream-json input line.
+ */
+export function formatUserMessage(content: string | UserContentBlock[]): string {
+  return (
+    JSON.stringify({
+      type: 'user',
+      message: {
+        role: 'user',
+        content: typeof content === 'string' ? [{ type: 'text', text: content }] : content,
+      },
+    }) + '\n'
+  );
+}
+
+/**
+ * Spawn the Claude CLI process with streaming output. Read stderr from the
+ * returned stream, not `proc.stderr` (it may be teed into a recording).
+ */
+export function spawnClaude(options: SpawnClaudeOptions): {
+  proc: ReturnType<typeof Bun.spawn>;
+  reader: ReadableStreamDefaultReader<Uint8Array>;
+  stderr: ReadableStream<Uint8Array>;
+} {
+  const args = buildClaudeArgs(options);
+  const { replay } = options;
 
   const proc = Bun.spawn([options.claudePath, ...args], {
     cwd: options.projectPath,
+    stdin: options.inputFormat === 'stream-json' ? 'pipe' : 'ignore',
     stdout: 'pipe',
     stderr: 'pipe',
+    env: replay
+      ? { ...process.env, FAKE_CLAUDE_SCRIPT: replay.path, FAKE_CLAUDE_SPEED: String(replay.speed ?? 1) }
+      : undefined,
   });
 
-  const reader = proc.stdout.getReader();
+  let stdout = proc.stdout as ReadableStream<Uint8Array>;
+  let stderr = proc.stderr as ReadableStream<Uint8Array>;
+  const { recordDir } = options;
+  if (recordDir) {
+    ({ stdout, stderr } = teeToRecording(
+      createRecordingPath(recordDir, options.sessionId),
+      stdout,
+      stderr,
+      proc.exited,
+      options.inputFormat === 'stream-json'
+        ? (sessionId) => createRecordingPath(recordDir, sessionId ?? options.sessionId)
+        : undefined
+    ));
+  }
 
-  return { proc, reader };
+  return { proc, reader: stdout.getReader(), stderr };
 }
 
 /**
@@ -540,7 +853,13 @@ export async function parseStderr(
     // Ignore read errors
   }
 
-  // Extract meaningful error message
+  return describeStderr(output);
+}
+
+/**
+ * Turn the CLI's stderr output into a user-friendly error message.
+ */
+export function describeStderr(output: string): string {
   const errorPatterns = [
     { match: /usage limit|limit reached/i, message: 'API usage limit reached' },
     { match: /rate limit|429/i, message: 'Rate limited, please wait' },
@@ -0,0 +1,116 @@
+/**
+ * Tests for Edit/Write diffs.
+ */
+
+import { describe, expect, test } from 'bun:test';
+import { createUnifiedDiff, getToolDiff } from './diff';
+
+const lines = (n: number) => Array.from({ length: n }, (_, i) => `line ${i + 1}`).join('\n') + '\n';
+
+// =============================================================================
+// Unified Diff Tests
+// =============================================================================
+
+describe('createUnifiedDiff', () => {
+  test('produces a hunk with context and line numbers', () => {
+    const before = lines(10);
+    const after = before.replace('line 5\n', 'line five\n');
+
+    const diff = createUnifiedDiff('/repo/a.txt', before, after);
+
+    expect(diff.additions).toBe(1);
+    expect(diff.deletions).toBe(1);
+    expect(diff.unified).toBe(
+      [
+        '--- /repo/a.txt',
+        '+++ /repo/a.txt',
+        '@@ -2,7 +2,7 @@',
+        ' line 2',
+        ' line 3',
+        ' line 4',
+        '-line 5',
+        '+line five',
+        ' line 6',
+        ' line 7',
+        ' line 8',
+        '',
+      ].join('\n')
+    );
+  });
+
+  test('splits distant changes into separate hunks', () => {
+    const before = lines(30);
+    const after = before.replace('line 2\n', 'line two\n').replace('line 28\n', 'line 28b\n');
+
+    const hunks = createUnifiedDiff('a.txt', before, after).unified
+      .split('\n')
+      .filter((l) => l.startsWith('@@'));
+
+    expect(hunks).toEqual(['@@ -1,5 +1,5 @@', '@@ -25,6 +25,6 @@']);
+  });
+
+  test('diffs a new file against /dev/null', () => {
+    const diff = createUnifiedDiff('new.ts', '', 'a\nb\n');
+
+    expect(diff.unified.startsWith('--- /dev/null\n+++ new.ts\n@@ -0,0 +1,2 @@\n')).toBe(true);
+    expect(diff.additions).toBe(2);
+  });
+
+  test('returns an empty diff when nothing changed', () => {
+    expect(createUnifiedDiff('a.txt', 'same\n', 'same\n')).toEqual({
+      path: 'a.txt',
+      unified: '',
+      additions: 0,
+      deletions: 0,
+    });
+  });
+});
+
+// =============================================================================
+// Tool Diff Tests
+// =============================================================================
+
+describe('getToolDiff', () => {
+  test('applies an Edit to the original file', () => {
+    const diff = getToolDiff(
+      'Edit',
+      { file_path: '/repo/a.txt', old_string: 'line 9', new_string: 'line nine' },
+      { originalFile: lines(12) }
+    );
+
+    expect(diff?.unified).toContain('@@ -6,7 +6,7 @@');
+    expect(diff?.unified).toContain('-line 9\n+line nine\n');
+  });
+
+  test('applies MultiEdit edits in order', () => {
+    const diff = getToolDiff(
+      'MultiEdit',
+      {
+        file_path: 'a.txt',
+        edits: [
+          { old_string: 'foo', new_string: 'bar' },
+          { old_string: 'bar', new_string: 'baz', replace_all: true },
+        ],
+      },
+      { originalFile: 'foo\nbar\n' }
+    );
+
+    expect(diff?.unified).toContain('-foo\n-bar\n+baz\n+baz\n');
+  });
+
+  test('falls back to the edit strings without the original file', () => {
+    const diff = getToolDiff('Edit', { file_path: 'a.txt', old_string: 'x', new_string: 'y\nz' }, {});
+
+    expect(diff).toMatchObject({ additions: 2, deletions: 1 });
+    expect(diff?.unified).toBe('--- a.txt\n+++ a.txt\n@@ -1,1 +1,2 @@\n-x\n+y\n+z\n');
+  });
+
+  test('diffs a Write against the previous contents', () => {
+    const diff = getToolDiff('Write', { file_path: 'a.txt', content: 'new\n' }, { originalFile: 'old\n' });
+    expect(diff).toMatchObject({ additions: 1, deletions: 1 });
+  });
+
+  test('ignores other tools', () => {
+    expect(getToolDiff('Read', { file_path: 'a.txt' }, {})).toBeUndefined();
+  });
+});
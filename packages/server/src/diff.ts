@@ -0,0 +1,236 @@
+/**
+ * File Edit Diffs
+ *
+ * Turns `Edit`, `MultiEdit` and `Write` calls into unified diffs so a
+ * client can review what Claude changed. The CLI's tool result carries the
+ * file as it was before the call (`originalFile`); when it does, the diff
+ * covers the whole file with real line numbers. Otherwise the diff is built
+ * from the edit strings alone.
+ */
+
+import type { ToolDiff } from './types';
+
+/** Unchanged lines kept around each change */
+const CONTEXT_LINES = 3;
+
+/** Above this many line comparisons, a changed region is diffed as one replacement */
+const MAX_LCS_CELLS = 4_000_000;
+
+/** Tools whose calls get a diff */
+export const DIFF_TOOLS = ['Edit', 'MultiEdit', 'Write'];
+
+// =============================================================================
+// Types
+// =============================================================================
+
+type Op = { type: ' ' | '-' | '+'; line: string };
+
+interface EditInput {
+  old_string?: unknown;
+  new_string?: unknown;
+  replace_all?: unknown;
+}
+
+// =============================================================================
+// Line Diff
+// =============================================================================
+
+function splitLines(text: string): string[] {
+  if (text === '') return [];
+  const lines = text.split('\n');
+  // A trailing newline ends the last line rather than starting a new one
+  if (lines[lines.length - 1] === '') lines.pop();
+  return lines;
+}
+
+/**
+ * Line operations turning `a` into `b` (longest common subsequence).
+ */
+function diffLines(a: string[], b: string[]): Op[] {
+  // Common prefix and suffix need no comparison table
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) start++;
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  const ops: Op[] = a.slice(0, start).map((line) => ({ type: ' ', line }));
+  const midA = a.slice(start, endA);
+  const midB = b.slice(start, endB);
+
+  if (midA.length * midB.length > MAX_LCS_CELLS) {
+    ops.push(...midA.map((line): Op => ({ type: '-', line })));
+    ops.push(...midB.map((line): Op => ({ type: '+', line })));
+  } else {
+    // lengths[i][j] = LCS length of midA[i..] and midB[j..]
+    const cols = midB.length + 1;
+    const lengths = new Uint32Array((midA.length + 1) * cols);
+    for (let i = midA.length - 1; i >= 0; i--) {
+      for (let j = midB.length - 1; j >= 0; j--) {
+        lengths[i * cols + j] = midA[i] === midB[j]
+          ? lengths[(i + 1) * cols + j + 1] + 1
+          : Math.max(lengths[(i + 1) * cols + j], lengths[i * cols + j + 1]);
+      }
+    }
+
+    let i = 0;
+    let j = 0;
+    while (i < midA.length && j < midB.length) {
+      if (midA[i] === midB[j]) {
+        ops.push({ type: ' ', line: midA[i] });
+        i++;
+        j++;
+      } else if (lengths[(i + 1) * cols + j] >= lengths[i * cols + j + 1]) {
+        ops.push({ type: '-', line: midA[i++] });
+      } else {
+        ops.push({ type: '+', line: midB[j++] });
+      }
+    }
+    while (i < midA.length) ops.push({ type: '-', line: midA[i++] });
+    while (j < midB.length) ops.push({ type: '+', line: midB[j++] });
+  }
+
+  ops.push(...a.slice(endA).map((line): Op => ({ type: ' ', line })));
+  return ops;
+}
+
+/**
+ * Group operations into hunks with surrounding context.
+ */
+function formatHunks(ops: Op[]): string[] {
+  const out: string[] = [];
+  let index = 0;
+
+  while (index < ops.length) {
+    // Find the next change
+    while (index < ops.length && ops[index].type === ' ') index++;
+    if (index >= ops.length) break;
+
+    const start = Math.max(0, index - CONTEXT_LINES);
+    let end = index;
+
+    // Extend while changes are close enough to share context
+    while (end < ops.length) {
+      if (ops[end].type !== ' ') {
+        end++;
+        continue;
+      }
+      let next = end;
+      while (next < ops.length && ops[next].type === ' ') next++;
+      if (next < ops.length && next - end <= CONTEXT_LINES * 2) {
+        end = next;
+      } else {
+        end = Math.min(ops.length, end + CONTEXT_LINES);
+        break;
+      }
+    }
+
+    // Line numbers of the hunk's first line in each file
+    let oldLine = 1;
+    let newLine = 1;
+    for (let k = 0; k < start; k++) {
+      if (ops[k].type !== '+') oldLine++;
+      if (ops[k].type !== '-') newLine++;
+    }
+
+    const hunk = ops.slice(start, end);
+    const oldCount = hunk.filter((op) => op.type !== '+').length;
+    const newCount = hunk.filter((op) => op.type !== '-').length;
+
+    out.push(
+      `@@ -${oldCount === 0 ? oldLine - 1 : oldLine},${oldCount} +${newCount === 0 ? newLine - 1 : newLine},${newCount} @@`
+    );
+    out.push(...hunk.map((op) => `${op.type}${op.line}`));
+
+    index = end;
+  }
+
+  return out;
+}
+
+/**
+ * Unified diff between two versions of a file, with line stats.
+ */
+export function createUnifiedDiff(path: string, before: string, after: string): ToolDiff {
+  const ops = diffLines(splitLines(before), splitLines(after));
+  const hunks = formatHunks(ops);
+
+  const header = [
+    before === '' ? '--- /dev/null' : `--- ${path}`,
+    `+++ ${path}`,
+  ];
+
+  return {
+    path,
+    unified: hunks.length > 0 ? [...header, ...hunks].join('\n') + '\n' : '',
+    additions: ops.filter((op) => op.type === '+').length,
+    deletions: ops.filter((op) => op.type === '-').length,
+  };
+}
+
+// =============================================================================
+// Tool Diffs
+// =============================================================================
+
+function applyEdit(content: string, edit: EditInput): string {
+  const oldString = String(edit.old_string ?? '');
+  const newString = String(edit.new_string ?? '');
+  if (!oldString) return content;
+  return edit.replace_all
+    ? content.split(oldString).join(newString)
+    : content.replace(oldString, () => newString);
+}
+
+function getEdits(toolName: string, input: Record<string, unknown>): EditInput[] {
+  if (toolName === 'MultiEdit') {
+    return Array.isArray(input.edits) ? (input.edits as EditInput[]) : [];
+  }
+  return [input as EditInput];
+}
+
+/**
+ * Diff for a finished Edit, MultiEdit or Write call.
+ * `result` is the CLI's `tool_use_result`; returns undefined for other tools
+ * or calls that failed.
+ */
+export function getToolDiff(
+  toolName: string,
+  input: Record<string, unknown> | undefined,
+  result: unknown
+): ToolDiff | undefined {
+  if (!DIFF_TOOLS.includes(toolName) || !input || typeof input.file_path !== 'string') {
+    return undefined;
+  }
+
+  const path = input.file_path;
+  const details = result && typeof result === 'object' ? (result as Record<string, unknown>) : {};
+  const original = typeof details.originalFile === 'string' ? details.originalFile : undefined;
+
+  if (toolName === 'Write') {
+    if (typeof input.content !== 'string') return undefined;
+    return createUnifiedDiff(path, original ?? '', input.content);
+  }
+
+  const edits = getEdits(toolName, input);
+  if (edits.length === 0) return undefined;
+
+  if (original !== undefined) {
+    return createUnifiedDiff(path, original, edits.reduce(applyEdit, original));
+  }
+
+  // Without the file, diff each edit's strings on their own
+  const parts = edits.map((edit) =>
+    createUnifiedDiff(path, String(edit.old_string ?? ''), String(edit.new_string ?? ''))
+  );
+  const hunks = parts.map((part) => part.unified.split('\n').slice(2).join('\n')).join('');
+
+  return {
+    path,
+    unified: hunks ? `--- ${path}\n+++ ${path}\n${hunks}` : '',
+    additions: parts.reduce((sum, part) => sum + part.additions, 0),
+    deletions: parts.reduce((sum, part) => sum + part.deletions, 0),
+  };
+}
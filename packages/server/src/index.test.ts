@@ -0,0 +1,562 @@
+/**
+ * End-to-end tests for the server: real WebSocket round trips against the
+ * fake Claude CLI from cc-chat-server/testing.
+ */
+
+import { afterAll, beforeAll, describe, expect, test } from 'bun:test';
+import { join } from 'node:path';
+import {
+  createTestServer,
+  textReply,
+  FAKE_CLAUDE_VERSION,
+  type FakeClaudeCall,
+  type FakeClaudeStep,
+  type TestClient,
+  type TestServer,
+} from './testing';
+import type { ChatPayload, SystemPayload, WebSocketMessage } from './types';
+import { getSessionStore } from './websocket';
+
+const FIXTURES = join(import.meta.dir, 'testing', 'fixtures');
+
+let server: TestServer;
+
+beforeAll(() => {
+  server = createTestServer();
+});
+
+afterAll(() => {
+  server.stop();
+});
+
+/**
+ * Send a prompt for a new session and wait for the real session ID.
+ */
+async function startSession(client: TestClient, content: string): Promise<string> {
+  client.chat({ action: 'send', content, newSessionId: `new-${crypto.randomUUID()}` });
+  const started = await client.waitFor('session_started');
+  return (started.payload as SystemPayload).sessionId!;
+}
+
+function lastCall(): FakeClaudeCall {
+  const calls = server.calls();
+  return calls[calls.length - 1];
+}
+
+function chatPayloads(client: TestClient, sessionId: string): ChatPayload[] {
+  return client.messages
+    .filter((m) => m.type === 'chat' && m.sessionId === sessionId)
+    .map((m) => m.payload as ChatPayload);
+}
+
+// =============================================================================
+// Handshake Tests
+// =============================================================================
+
+describe('hello handshake', () => {
+  const isReply = (m: WebSocketMessage) =>
+    (m.payload as SystemPayload).action === 'connected' && !!(m.payload as SystemPayload).capabilities;
+
+  test('replies with versions, projects and the agreed capabilities', async () => {
+    const client = await server.connect();
+    client.system({ action: 'hello', protocolVersion: 2, features: ['thinking', 'queue', 'teleport'] });
+
+    const reply = (await client.waitFor(isReply)).payload as SystemPayload;
+    expect(reply).toMatchObject({
+      protocolVersion: 2,
+      serverVersion: expect.any(String),
+      cliVersion: FAKE_CLAUDE_VERSION,
+      capabilities: ['thinking', 'queue'],
+    });
+    expect(reply.projects?.map((p) => p.id)).toEqual(['default']);
+  });
+
+  test('leaves out events for capabilities the client lacks', async () => {
+    const thinkingThenText: FakeClaudeStep[] = [
+      { type: 'system', subtype: 'init', session_id: '$SESSION_ID' },
+      {
+        type: 'stream_event',
+        event: { type: 'content_block_delta', delta: { type: 'thinking_delta', thinking: 'Hmm' } },
+      },
+      ...textReply('Done').slice(1),
+    ];
+    server.script(thinkingThenText);
+    server.script(thinkingThenText);
+
+    const plain = await server.connect();
+    plain.system({ action: 'hello', protocolVersion: 2, features: [] });
+    await plain.waitFor(isReply);
+    const thinking = await server.connect();
+    thinking.system({ action: 'hello', protocolVersion: 2, features: ['thinking'] });
+    await thinking.waitFor(isReply);
+
+    const plainSession = await startSession(plain, 'Think');
+    await plain.waitFor('complete');
+    const thinkingSession = await startSession(thinking, 'Think');
+    await thinking.waitFor('complete');
+
+    const actions = (client: TestClient, sessionId: string) =>
+      chatPayloads(client, sessionId).map((p) => p.action);
+    expect(actions(plain, plainSession)).not.toContain('thinking_delta');
+    expect(actions(thinking, thinkingSession)).toContain('thinking_delta');
+  });
+
+  test('offers permissions when messages may choose prompt mode', async () => {
+    const optIn = createTestServer({
+      permissionMode: 'skip',
+      messageOptions: { permissionModes: ['prompt'] },
+    });
+    try {
+      const client = await optIn.connect();
+      client.system({ action: 'hello', protocolVersion: 2, features: ['permissions'] });
+
+      const reply = (await client.waitFor(isReply)).payload as SystemPayload;
+      expect(reply.capabilities).toEqual(['permissions']);
+    } finally {
+      optIn.stop();
+    }
+  });
+
+  test('rejects clients older than the server supports', async () => {
+    const client = await server.connect();
+    client.system({ action: 'hello', protocolVersion: 0, features: [] });
+
+    const error = (await client.waitFor('error')).payload as SystemPayload;
+    expect(error.code).toBe('unsupported_protocol');
+    expect(error.protocolVersion).toBe(2);
+    expect(error.error).toContain('Reload the app');
+  });
+});
+
+// =============================================================================
+// Send Tests
+// =============================================================================
+
+describe('send', () => {
+  test('streams the reply and completes', async () => {
+    server.script(textReply('Hello!'));
+    const client = await server.connect();
+
+    const sessionId = await startSession(client, 'Hi');
+    await client.waitFor('complete');
+
+    const payloads = chatPayloads(client, sessionId);
+    expect(payloads.filter((p) => p.action === 'token').map((p) => p.content).join('')).toBe('Hello!');
+    expect(lastCall()).toMatchObject({ sessionId, prompt: 'Hi' });
+  });
+
+  test('resumes the session for follow-up prompts', async () => {
+    const client = await server.connect();
+    const sessionId = await startSession(client, 'First');
+    await client.waitFor('complete');
+
+    server.script(textReply('Again'));
+    client.chat({ action: 'send', content: 'Second' }, sessionId);
+    await client.waitFor(
+      (m) => m.sessionId === sessionId && (m.payload as ChatPayload).content === 'Again'
+    );
+
+    const call = lastCall();
+    expect(call.args).toContain('--resume');
+    expect(call).toMatchObject({ sessionId, prompt: 'Second' });
+  });
+
+  test('forgets the placeholder once the real session ID is known', async () => {
+    const client = await server.connect();
+    const draftId = `new-${crypto.randomUUID()}`;
+    client.chat({ action: 'send', content: 'Hi', newSessionId: draftId });
+    const sessionId = ((await client.waitFor('session_started')).payload as SystemPayload).sessionId!;
+    await client.waitFor('complete');
+
+    expect(getSessionStore().getSession(draftId)).toBeUndefined();
+    expect(getSessionStore().getSession(sessionId)).toBeDefined();
+  });
+});
+
+// =============================================================================
+// Tool Tests
+// =============================================================================
+
+describe('tool events', () => {
+  test('reports tool start and end from a fixture', async () => {
+    server.scriptFile(join(FIXTURES, 'read-file.jsonl'));
+    const client = await server.connect();
+
+    const sessionId = await startSession(client, 'Read the README');
+    await client.waitFor('complete');
+
+    const payloads = chatPayloads(client, sessionId);
+    expect(payloads.find((p) => p.action === 'tool_start')?.tool).toMatchObject({
+      id: 'tool-read-1',
+      name: 'Read',
+    });
+    expect(payloads.find((p) => p.action === 'tool_end')?.tool).toMatchObject({
+      id: 'tool-read-1',
+      result: '# Hello',
+    });
+  });
+
+  test('sends a preview of a large diff', async () => {
+    const content = Array.from({ length: 500 }, (_, i) => `line ${i}`).join('\n');
+    const write = { type: 'tool_use', id: 'tool-write-1', name: 'Write', input: { file_path: '/repo/big.txt', content } };
+    server.script([
+      { type: 'system', subtype: 'init', session_id: '$SESSION_ID' },
+      { type: 'assistant', message: { content: [write] } },
+      {
+        type: 'user',
+        tool_use_result: { type: 'create', filePath: '/repo/big.txt', content },
+        message: { content: [{ type: 'tool_result', tool_use_id: 'tool-write-1', content: 'Created' }] },
+      },
+      ...textReply('Written').slice(1),
+    ]);
+    const client = await server.connect();
+
+    const sessionId = await startSession(client, 'Write a big file');
+    await client.waitFor('complete');
+
+    const diff = chatPayloads(client, sessionId).find((p) => p.action === 'tool_end')?.tool?.diff;
+    expect(diff).toMatchObject({ path: '/repo/big.txt', additions: 500, deletions: 0, truncated: true });
+    expect(diff!.unified.length).toBeLessThanOrEqual(2000);
+    expect(diff!.unified.endsWith('\n')).toBe(true);
+  });
+});
+
+// =============================================================================
+// Error Tests
+// =============================================================================
+
+describe('errors', () => {
+  test('turns a failed CLI run into an error', async () => {
+    server.scriptFile(join(FIXTURES, 'cli-error.jsonl'));
+    const client = await server.connect();
+
+    await startSession(client, 'Hi');
+    const error = await client.waitFor('error');
+    expect((error.payload as ChatPayload).error).toBe('API usage limit reached');
+  });
+
+  test('cancel stops a running response', async () => {
+    server.script([{ type: 'system', subtype: 'init', session_id: '$SESSION_ID' }, { hang: true }]);
+    const client = await server.connect();
+
+    const sessionId = await startSession(client, 'Take your time');
+    client.chat({ action: 'cancel' }, sessionId);
+
+    const error = await client.waitFor('error');
+    expect((error.payload as ChatPayload).error).toBe('Request cancelled');
+  });
+
+  test('a cancelled turn exiting late leaves the next turn tracked', async () => {
+    const hang: FakeClaudeStep[] = [
+      { type: 'system', subtype: 'init', session_id: '$SESSION_ID' },
+      { hang: true },
+    ];
+    server.script(hang);
+    server.script(hang);
+    const client = await server.connect();
+
+    const sessionId = await startSession(client, 'First');
+    client.chat({ action: 'cancel' }, sessionId);
+    client.chat({ action: 'send', content: 'Second' }, sessionId);
+    // Let the first CLI exit while the second one runs
+    await Bun.sleep(300);
+
+    const calls = server.calls().length;
+    client.chat({ action: 'send', content: 'Third' }, sessionId);
+    await client.waitFor('queued');
+    expect(server.calls()).toHaveLength(calls);
+
+    client.chat({ action: 'cancel' }, sessionId);
+    await client.waitFor((m) => (m.payload as ChatPayload).action === 'complete');
+  });
+
+  test('cancel keeps queued prompts ahead of one sent during the cancel', async () => {
+    server.script([{ type: 'system', subtype: 'init', session_id: '$SESSION_ID' }, { hang: true }]);
+    server.script(textReply('One'));
+    server.script(textReply('Two'));
+    server.script(textReply('Three'));
+    const client = await server.connect();
+
+    const sessionId = await startSession(client, 'First');
+    client.chat({ action: 'send', content: 'Queued 1' }, sessionId);
+    client.chat({ action: 'send', content: 'Queued 2' }, sessionId);
+    await client.waitFor((m) => (m.payload as ChatPayload).queue?.length === 2);
+    const calls = server.calls().length;
+
+    client.chat({ action: 'cancel' }, sessionId);
+    client.chat({ action: 'send', content: 'After cancel' }, sessionId);
+    await client.waitFor((m) => (m.payload as ChatPayload).content === 'Three');
+    await client.waitFor((m) => {
+      const payload = m.payload as ChatPayload;
+      return payload.action === 'queue_update' && payload.queueItem?.content === 'After cancel';
+    });
+
+    expect(server.calls().slice(calls).map((c) => c.prompt)).toEqual([
+      'Queued 1',
+      'Queued 2',
+      'After cancel',
+    ]);
+  });
+
+  test('a send the server refuses is answered with its requestId', async () => {
+    const client = await server.connect();
+    client.ws.send(
+      JSON.stringify({
+        type: 'chat',
+        requestId: 'req-refused',
+        payload: { action: 'send', content: 'Hi', projectId: 'nope', newSessionId: 'new-refused' },
+      })
+    );
+
+    const error = (await client.waitFor('error')).payload as SystemPayload;
+    expect(error).toMatchObject({ code: 'request_failed', requestId: 'req-refused' });
+    expect(error.error).toContain('nope');
+  });
+
+  test('session lists are answered with their requestId', async () => {
+    const client = await server.connect();
+    client.ws.send(
+      JSON.stringify({ type: 'system', requestId: 'req-list', payload: { action: 'list_sessions' } })
+    );
+
+    const list = (await client.waitFor('session_list')).payload as SystemPayload;
+    expect(list).toMatchObject({ projectId: 'default', requestId: 'req-list' });
+  });
+
+  test('history for an unknown session is answered with its requestId', async () => {
+    const client = await server.connect();
+    client.ws.send(
+      JSON.stringify({
+        type: 'system',
+        requestId: 'req-history',
+        payload: { action: 'load_history', sessionId: 'no-such-session' },
+      })
+    );
+
+    const error = (await client.waitFor('error')).payload as SystemPayload;
+    expect(error).toMatchObject({ code: 'request_failed', requestId: 'req-history', error: 'Session not found' });
+  });
+});
+
+// =============================================================================
+// Permission Tests
+// =============================================================================
+
+describe('permissions', () => {
+  test('the CLI is pointed at the port the server is bound to', async () => {
+    const prompting = createTestServer({ permissionMode: 'prompt' });
+    try {
+      const client = await prompting.connect();
+      await startSession(client, 'Hi');
+      await client.waitFor('complete');
+
+      const args = prompting.calls()[0].args;
+      const mcpConfig = JSON.parse(args[args.indexOf('--mcp-config') + 1]);
+      const { port } = new URL(prompting.httpUrl);
+      expect(new URL(mcpConfig.mcpServers['cc-chat'].url).port).toBe(port);
+    } finally {
+      prompting.stop();
+    }
+  });
+
+  test('only clients following the session can answer', async () => {
+    const prompting = createTestServer({ permissionMode: 'prompt' });
+    try {
+      prompting.script([
+        { type: 'system', subtype: 'init', session_id: '$SESSION_ID' },
+        { hang: true },
+      ]);
+      const owner = await prompting.connect();
+      const sessionId = await startSession(owner, 'Run it');
+      const stranger = await prompting.connect();
+
+      // Ask the way the CLI would
+      const args = prompting.calls()[0].args;
+      const { url } = JSON.parse(args[args.indexOf('--mcp-config') + 1]).mcpServers['cc-chat'];
+      const answer = fetch(url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          jsonrpc: '2.0',
+          id: 1,
+          method: 'tools/call',
+          params: { name: 'approve_tool', arguments: { tool_name: 'Bash', input: {} } },
+        }),
+      });
+      const request = await owner.waitFor('permission_request');
+      const permissionId = (request.payload as ChatPayload).permission!.id;
+
+      stranger.chat({ action: 'approve', permissionId }, sessionId);
+      owner.chat({ action: 'deny', permissionId, reason: 'Not now' }, sessionId);
+
+      const resolved = (await owner.waitFor('permission_resolved')).payload as ChatPayload;
+      expect(resolved).toMatchObject({ permissionId, decision: 'deny' });
+      await answer;
+      owner.chat({ action: 'cancel' }, sessionId);
+    } finally {
+      prompting.stop();
+    }
+  });
+});
+
+// =============================================================================
+// Session Access Tests
+// =============================================================================
+
+describe('session access', () => {
+  test('clients not following a session cannot act on it', async () => {
+    server.script([{ type: 'system', subtype: 'init', session_id: '$SESSION_ID' }, { hang: true }]);
+    const owner = await server.connect();
+    const sessionId = await startSession(owner, 'Take your time');
+    const stranger = await server.connect();
+
+    const requests: Array<() => void> = [
+      () => stranger.chat({ action: 'cancel' }, sessionId),
+      () => stranger.chat({ action: 'remove_queued', queueId: 'q1' }, sessionId),
+      () => stranger.chat({ action: 'reorder_queue', queueId: 'q1', position: 0 }, sessionId),
+      () => stranger.chat({ action: 'answer', questionId: 'q1', answers: {} }, sessionId),
+      () => stranger.system({ action: 'catch_up', sessionId, lastSeq: 0 }),
+      () => stranger.system({ action: 'get_tool_result', sessionId, toolId: 't1' }),
+    ];
+    for (const send of requests) {
+      const before = stranger.messages.length;
+      send();
+      const error = await stranger.waitFor(
+        (m) => stranger.messages.indexOf(m) >= before && (m.payload as SystemPayload).action === 'error'
+      );
+      expect(error.payload as SystemPayload).toMatchObject({
+        code: 'request_failed',
+        error: `Not subscribed to session: ${sessionId}`,
+      });
+    }
+
+    // The owner's turn is still running
+    expect(owner.messages.some((m) => (m.payload as ChatPayload).action === 'error')).toBe(false);
+    owner.chat({ action: 'cancel' }, sessionId);
+    await owner.waitFor('error');
+  });
+});
+
+// =============================================================================
+// Attachment Tests
+// =============================================================================
+
+describe('attachments', () => {
+  test('the first message of a new session can carry uploads', async () => {
+    const draftId = `new-${crypto.randomUUID()}`;
+    const form = new FormData();
+    form.append('file', new File(['hello'], 'note.txt', { type: 'text/plain' }));
+    const response = await fetch(`${server.httpUrl}/uploads?sessionId=${draftId}`, {
+      method: 'POST',
+      body: form,
+    });
+    const { upload } = (await response.json()) as { upload: { id: string } };
+
+    const client = await server.connect();
+    client.chat({ action: 'send', content: 'Read this', newSessionId: draftId, attachments: [upload.id] });
+    await client.waitFor('complete');
+
+    expect(client.messages.some((m) => (m.payload as SystemPayload).action === 'error')).toBe(false);
+    expect(lastCall().prompt).toContain('note.txt');
+  });
+
+  test('uploads made for a new session follow it to its real ID', async () => {
+    const draftId = `new-${crypto.randomUUID()}`;
+    const form = new FormData();
+    form.append('file', new File(['later'], 'later.txt', { type: 'text/plain' }));
+    const response = await fetch(`${server.httpUrl}/uploads?sessionId=${draftId}`, {
+      method: 'POST',
+      body: form,
+    });
+    const { upload } = (await response.json()) as { upload: { id: string } };
+
+    const client = await server.connect();
+    client.chat({ action: 'send', content: 'Hi', newSessionId: draftId });
+    const sessionId = (await client.waitFor('session_started').then((m) => m.payload as SystemPayload)).sessionId!;
+    await client.waitFor('complete');
+
+    server.script(textReply('Got it'));
+    client.chat({ action: 'send', content: 'Read this', attachments: [upload.id] }, sessionId);
+    await client.waitFor((m) => (m.payload as ChatPayload).content === 'Got it');
+
+    expect(client.messages.some((m) => (m.payload as SystemPayload).action === 'error')).toBe(false);
+    expect(lastCall().prompt).toContain('later.txt');
+  });
+});
+
+// =============================================================================
+// HTTP Auth Tests
+// =============================================================================
+
+describe('http auth', () => {
+  test('refusals carry CORS headers so browsers can read them', async () => {
+    const guarded = createTestServer({ auth: { tokens: ['secret'] } });
+    try {
+      const headers = { Origin: 'http://app.example' };
+      const upload = await fetch(`${guarded.httpUrl}/uploads`, {
+        method: 'POST',
+        headers,
+        body: new FormData(),
+      });
+      const sessions = await fetch(`${guarded.httpUrl}/sessions`, { headers });
+
+      for (const res of [upload, sessions]) {
+        expect(res.status).toBe(401);
+        expect(res.headers.get('Access-Control-Allow-Origin')).toBe('*');
+      }
+    } finally {
+      guarded.stop();
+    }
+  });
+});
+
+// =============================================================================
+// Catch-up Tests
+// =============================================================================
+
+describe('catch-up', () => {
+  test('replays the events a reconnecting client missed', async () => {
+    server.script(textReply('Missed me?'));
+    const first = await server.connect();
+    const sessionId = await startSession(first, 'Hi');
+    await first.waitFor('complete');
+
+    const lastSeq = first.messages.find((m) => m.sessionId === sessionId && m.sessionSeq)!.sessionSeq!;
+    const second = await server.connect();
+    second.system({ action: 'subscribe', sessionId });
+    second.system({ action: 'catch_up', sessionId, lastSeq });
+
+    const snapshot = await second.waitFor(
+      (m) => (m.payload as SystemPayload).action === 'snapshot' && !!(m.payload as SystemPayload).events
+    );
+    const events = (snapshot.payload as SystemPayload).events as WebSocketMessage[];
+    expect(events.every((e) => e.sessionSeq! > lastSeq)).toBe(true);
+    expect(events.map((e) => (e.payload as ChatPayload).action)).toContain('complete');
+  });
+});
+
+// =============================================================================
+// Persistent Process Tests
+// =============================================================================
+
+describe('persistent process mode', () => {
+  test('plays one script per prompt in a single process', async () => {
+    const persistent = createTestServer({ processMode: 'persistent' });
+    try {
+      persistent.script(textReply('One'));
+      persistent.script(textReply('Two'));
+      const client = await persistent.connect();
+
+      const sessionId = await startSession(client, 'First');
+      await client.waitFor('complete');
+      client.chat({ action: 'send', content: 'Second' }, sessionId);
+      await client.waitFor((m) => (m.payload as ChatPayload).content === 'Two');
+
+      const calls = persistent.calls();
+      expect(calls.map((c) => c.prompt)).toEqual(['First', 'Second']);
+      expect(calls[0].args).toContain('--input-format');
+    } finally {
+      persistent.stop();
+    }
+  });
+});
@@ -17,40 +17,128 @@
  */
 
 import type { Server } from 'bun';
-import type { ClaudeServerConfig, ActiveProcess } from './types';
+import { fileURLToPath } from 'node:url';
+import type {
+  ClaudeServerConfig,
+  ActiveProcess,
+  Capability,
+  PermissionMode,
+  PermissionRequestData,
+  QuestionData,
+  QuestionItem,
+  ProcessMode,
+  ProjectConfig,
+  MessageOptions,
+  UploadConfig,
+} from './types';
+import { WS_CONFIG, PROTOCOL_VERSION, MIN_CLIENT_PROTOCOL_VERSION } from './types';
 import {
   findClaudePath,
+  getClaudeVersion,
   spawnClaude,
   parseClaudeStream,
   parseStderr,
+  getFriendlyToolName,
   type StreamCallbacks,
+  type SpawnClaudeOptions,
 } from './claude';
+import {
+  createPermissionBroker,
+  PERMISSION_ROUTE,
+  type PermissionBroker,
+} from './permissions';
 import {
   createWebSocketHandler,
   startPeriodicTasks,
   stopPeriodicTasks,
   resetChatState,
+  getChatState,
   broadcastToken,
   broadcastToolStart,
+  broadcastThinkingDelta,
   broadcastToolEnd,
+  broadcastToolOutput,
+  broadcastQuestion,
+  broadcastQuestionResolved,
   broadcastTodoUpdate,
   broadcastThinking,
   broadcastComplete,
   broadcastError,
+  broadcastPermissionRequest,
+  broadcastPermissionResolved,
+  broadcastQueued,
+  broadcastQueueUpdate,
   subscribeToSession,
+  moveSubscribers,
+  forgetSession,
+  setSessionStore,
+  getSessionStore,
+  sendSystemMessage,
+  setClientCapabilities,
   type ClaudeWebSocket,
 } from './websocket';
+import { createAuthenticator, offersAuthProtocol, AUTH_PROTOCOL } from './auth';
+import { formatQuestionAnswers } from './questions';
+import { spawnPersistentClaude, type PersistentClaude } from './persistent';
+import { createProjectRegistry, type ProjectRegistry } from './projects';
+import { createMessageQueue } from './queue';
+import { resolveMessageOptions } from './options';
+import {
+  createUploadStore,
+  buildUserContent,
+  describeUploads,
+  formatAttachmentPrompt,
+  DEFAULT_UPLOAD_DIR,
+  DEFAULT_UPLOAD_TYPES,
+  UPLOAD_ROUTE,
+  type StoredUpload,
+  type UploadStore,
+} from './uploads';
+import { createSqliteSessionStore } from './store';
+export {
+  createAuthToken,
+  verifyAuthToken,
+  type AuthTokenClaims,
+} from './auth';
+import { listTranscriptSessions, loadTranscript } from './transcripts';
 
 // Re-export types for consumers
 export type {
   ClaudeServerConfig,
+  AuthConfig,
   WebSocketMessage,
   ChatPayload,
   SystemPayload,
   ChatState,
   ToolUseData,
+  ToolDiff,
   TodoItem,
+  TokenUsage,
+  TurnStats,
+  SessionTotals,
+  PermissionMode,
+  PermissionRequestData,
+  ProcessMode,
+  ProjectConfig,
+  ProjectInfo,
+  MessageOptions,
+  MessageOptionsPolicy,
+  AttachmentInfo,
+  UploadConfig,
+  QueuedMessage,
+  SessionSummary,
+  ChatMessage,
+  ContentBlock,
+  Capability,
 } from './types';
+export { PROTOCOL_VERSION, MIN_CLIENT_PROTOCOL_VERSION } from './types';
+export {
+  createSqliteSessionStore,
+  DEFAULT_SESSION_DB_PATH,
+  type SessionStore,
+  type SessionRecord,
+  type SessionUpdate,
+} from './store';
 
 // =============================================================================
 // Server State
@@ -59,56 +147,124 @@ export type {
 /** Active Claude processes by session ID */
 const activeProcesses = new Map<string, ActiveProcess>();
 
+/** Long-lived Claude processes by session ID ('persistent' process mode) */
+const persistentProcesses = new Map<string, PersistentClaude>();
+
+/** Options each persistent process was started with (a change needs a restart) */
+const persistentOptions = new WeakMap<PersistentClaude, string>();
+
+/** What a queued prompt needs to run later */
+interface QueuedTurn {
+  /** Socket that sent the prompt */
+  ws: ClaudeWebSocket;
+  /** Options sent with the prompt (already validated) */
+  options: MessageOptions;
+  /** Files attached to the prompt */
+  attachments: StoredUpload[];
+}
+
+/** Prompts waiting for a busy session */
+const messageQueue = createMessageQueue<QueuedTurn>();
+
+/** How a turn ended */
+interface TurnOutcome {
+  /** The session ID the turn ended up with */
+  sessionId: string;
+  /** Whether the session is still the turn's (not taken over after a cancel) */
+  owned: boolean;
+}
+
 // =============================================================================
 // Chat Handler
 // =============================================================================
 
 /**
- * Handle a chat message from a client.
+ * Record session metadata the first time we see a session.
  */
-async function handleChat(
-  ws: ClaudeWebSocket,
-  sessionId: string | undefined,
-  content: string,
+function rememberSession(
+  sessionId: string,
+  prompt: string,
   config: Required<ClaudeServerConfig>
-): Promise<void> {
-  // Generate session ID if not resuming
-  const effectiveSessionId = sessionId || `new-${Date.now()}`;
+): void {
+  const store = getSessionStore();
+  if (store.getSession(sessionId)?.title) return;
 
-  // Reset chat state for new message BEFORE subscribing
-  // (so the snapshot doesn't include old tools from previous turn)
-  resetChatState(effectiveSessionId);
+  store.saveSession(sessionId, {
+    title: prompt.trim().split('\n')[0].substring(0, 100),
+    projectPath: config.projectPath,
+  });
+}
 
-  // Subscribe client to this session
-  subscribeToSession(ws, effectiveSessionId);
+/**
+ * Pick the directory a session runs in: the path it was started in when
+ * resuming, otherwise the requested (or default) project's root.
+ * Throws if the project is unknown or the path is outside every project.
+ */
+function resolveProjectPath(
+  sessionId: string | undefined,
+  projectId: string | undefined,
+  projects: ProjectRegistry
+): string {
+  const remembered = sessionId ? getSessionStore().getSession(sessionId)?.projectPath : undefined;
+  if (remembered) {
+    if (!projects.contains(remembered)) {
+      throw new Error('Session belongs to a project that is not registered');
+    }
+    return remembered;
+  }
 
-  // Check for existing process
-  const existing = activeProcesses.get(effectiveSessionId);
-  if (existing && !existing.aborted) {
-    broadcastError(effectiveSessionId, 'A request is already in progress');
-    return;
+  const project = projects.get(projectId);
+  if (!project) {
+    throw new Error(`Unknown project: ${projectId}`);
   }
+  return project.path;
+}
 
-  // Spawn Claude
-  const { proc, reader } = spawnClaude({
-    prompt: content,
+/**
+ * CLI options for a turn: the server's settings with the message's
+ * overrides applied.
+ */
+function getSpawnOptions(
+  config: Required<ClaudeServerConfig>,
+  options: MessageOptions
+): Omit<SpawnClaudeOptions, 'prompt' | 'sessionId' | 'permissionMcpConfig' | 'inputFormat'> {
+  return {
     projectPath: config.projectPath,
     claudePath: config.claudePath,
-    sessionId: sessionId, // Only pass if resuming
-  });
-
-  // Track process
-  const processInfo: ActiveProcess = {
-    proc,
-    sessionId: effectiveSessionId,
-    aborted: false,
-    startedAt: Date.now(),
+    permissionMode: options.permissionMode ?? config.permissionMode,
+    allowedTools: options.allowedTools ?? config.allowedTools,
+    disallowedTools: options.disallowedTools,
+    model: options.model,
+    maxTurns: options.maxTurns,
+    appendSystemPrompt: options.appendSystemPrompt,
+    recordDir: config.recordingsDir || undefined,
   };
-  activeProcesses.set(effectiveSessionId, processInfo);
+}
 
-  config.onStreamStart?.(effectiveSessionId);
+/**
+ * Per-turn state shared by both process modes.
+ */
+interface ChatTurn {
+  /** Callbacks that broadcast this turn's events */
+  callbacks: StreamCallbacks;
+  /** Session ID (updated once the CLI reports the real one) */
+  sessionId: () => string;
+  /** Whether a complete event has been broadcast */
+  completeSent: () => boolean;
+  /** Stop the thinking indicator */
+  stop: () => void;
+}
 
-  // Set up callbacks
+/**
+ * Create the callbacks that broadcast one turn of a conversation.
+ */
+function createChatTurn(
+  processInfo: ActiveProcess,
+  content: string,
+  config: Required<ClaudeServerConfig>,
+  uploads: UploadStore
+): ChatTurn {
+  const effectiveSessionId = processInfo.sessionId;
   let detectedSessionId = effectiveSessionId;
   let completeSent = false;
 
@@ -120,16 +276,29 @@ async function handleChat(
         activeProcesses.delete(effectiveSessionId);
         processInfo.sessionId = sid;
         activeProcesses.set(sid, processInfo);
-        // Re-subscribe client to correct session
-        subscribeToSession(ws, sid);
+        // Clients following the placeholder follow the real session
+        moveSubscribers(effectiveSessionId, sid);
         resetChatState(sid);
+        forgetSession(effectiveSessionId);
+        // Prompts queued before the real ID was known follow the session
+        messageQueue.rename(effectiveSessionId, sid);
+        if (messageQueue.list(sid).length > 0) {
+          broadcastQueueUpdate(sid, messageQueue.list(sid));
+        }
+        // So are files uploaded under the placeholder
+        uploads.renameSession(effectiveSessionId, sid);
       }
+      rememberSession(sid, content, config);
     },
 
     onText: (text) => {
       broadcastToken(detectedSessionId, text);
     },
 
+    onThinkingDelta: (text) => {
+      broadcastThinkingDelta(detectedSessionId, text);
+    },
+
     onToolStart: (tool) => {
       broadcastToolStart(detectedSessionId, tool);
     },
@@ -138,18 +307,26 @@ async function handleChat(
       broadcastToolEnd(detectedSessionId, tool);
     },
 
+    onToolOutput: (toolId, text) => {
+      broadcastToolOutput(detectedSessionId, toolId, text);
+    },
+
     onTodoUpdate: (todos) => {
       broadcastTodoUpdate(detectedSessionId, todos);
     },
 
+    onQuestion: (question) => {
+      broadcastQuestion(detectedSessionId, question);
+    },
+
     onThinking: (message) => {
       broadcastThinking(detectedSessionId, message);
     },
 
-    onComplete: (result) => {
+    onComplete: (result, stats) => {
       if (!completeSent) {
         completeSent = true;
-        broadcastComplete(detectedSessionId, result);
+        broadcastComplete(detectedSessionId, result, stats);
       }
     },
 
@@ -182,6 +359,10 @@ async function handleChat(
       lastEventTime = Date.now();
       callbacks.onText(text);
     },
+    onThinkingDelta: (text) => {
+      lastEventTime = Date.now();
+      callbacks.onThinkingDelta(text);
+    },
     onToolStart: (tool) => {
       lastEventTime = Date.now();
       callbacks.onToolStart(tool);
@@ -190,39 +371,604 @@ async function handleChat(
       lastEventTime = Date.now();
       callbacks.onToolEnd(tool);
     },
+    onToolOutput: (toolId, text) => {
+      lastEventTime = Date.now();
+      callbacks.onToolOutput(toolId, text);
+    },
   };
 
+  return {
+    callbacks: wrappedCallbacks,
+    sessionId: () => detectedSessionId,
+    completeSent: () => completeSent,
+    stop: () => {
+      if (thinkingTimeout) clearTimeout(thinkingTimeout);
+    },
+  };
+}
+
+/**
+ * Handle a chat message from a client.
+ */
+async function handleChat(
+  ws: ClaudeWebSocket,
+  sessionId: string | undefined,
+  content: string,
+  projectId: string | undefined,
+  rawOptions: unknown,
+  attachmentIds: string[] | undefined,
+  newSessionId: string | undefined,
+  requestId: string | undefined,
+  config: Required<ClaudeServerConfig>,
+  permissions: PermissionBroker,
+  projects: ProjectRegistry,
+  uploads: UploadStore
+): Promise<void> {
+  // Use the client's placeholder for a new session, so it can tell its
+  // session's events from those of other sessions on the same socket
+  const effectiveSessionId =
+    sessionId || (newSessionId?.startsWith('new-') ? newSessionId : `new-${Date.now()}`);
+
+  let projectPath: string;
+  let options: MessageOptions;
+  let attachments: StoredUpload[];
+  try {
+    projectPath = resolveProjectPath(sessionId, projectId, projects);
+    options = resolveMessageOptions(rawOptions, config.messageOptions, config.permissionMode);
+    // A new session's uploads are tagged with its draft ID
+    attachments = uploads.resolve(attachmentIds ?? [], effectiveSessionId);
+  } catch (error) {
+    sendSystemMessage(
+      ws,
+      {
+        action: 'error',
+        code: 'request_failed',
+        requestId,
+        sessionId: effectiveSessionId,
+        error: (error as Error).message,
+      },
+      effectiveSessionId
+    );
+    return;
+  }
+
+  // Kept on disk until the turn using them ends, however long it waits in the queue
+  uploads.hold(attachments);
+
+  // Busy: queue behind the current response (before touching its state).
+  // A cancelled response counts until its process exits, so a prompt sent
+  // right after a cancel still waits behind the ones queued before it.
+  if (activeProcesses.has(effectiveSessionId)) {
+    const { message, position } = messageQueue.enqueue(
+      effectiveSessionId,
+      content,
+      { ws, options, attachments },
+      describeUploads(attachments)
+    );
+    broadcastQueued(effectiveSessionId, message, position, messageQueue.list(effectiveSessionId));
+    console.log(`[Claude] Queued message for session ${effectiveSessionId.substring(0, 8)} at position ${position}`);
+    return;
+  }
+
+  // Reset chat state for new message BEFORE subscribing
+  // (so the snapshot doesn't include old tools from previous turn)
+  resetChatState(effectiveSessionId);
+
+  // Subscribe client to this session
+  subscribeToSession(ws, effectiveSessionId);
+
+  // Everything downstream (spawn cwd, session metadata) reads the project from config
+  const turnConfig = { ...config, projectPath };
+
+  await runTurn(
+    ws,
+    sessionId,
+    effectiveSessionId,
+    content,
+    options,
+    attachments,
+    turnConfig,
+    permissions,
+    uploads
+  );
+}
+
+/**
+ * Stop tracking a finished turn's process. Only removes the entry if it is
+ * still this one, so a late exit never drops a newer turn. Returns whether it
+ * was.
+ */
+function releaseActiveProcess(sessionId: string, processInfo: ActiveProcess): boolean {
+  if (activeProcesses.get(sessionId) !== processInfo) {
+    return false;
+  }
+  activeProcesses.delete(sessionId);
+  return true;
+}
+
+/**
+ * Run a turn in the configured process mode, then start the next queued
+ * prompt (left to the turn that took over, if this one was replaced).
+ */
+async function runTurn(
+  ws: ClaudeWebSocket,
+  sessionId: string | undefined,
+  effectiveSessionId: string,
+  content: string,
+  options: MessageOptions,
+  attachments: StoredUpload[],
+  config: Required<ClaudeServerConfig>,
+  permissions: PermissionBroker,
+  uploads: UploadStore
+): Promise<void> {
+  const outcome =
+    config.processMode === 'persistent'
+      ? await runPersistentTurn(
+          ws,
+          sessionId,
+          effectiveSessionId,
+          content,
+          options,
+          attachments,
+          config,
+          permissions,
+          uploads
+        )
+      : await runSingleTurn(
+          ws,
+          sessionId,
+          effectiveSessionId,
+          content,
+          options,
+          attachments,
+          config,
+          permissions,
+          uploads
+        );
+  uploads.release(attachments);
+
+  if (!outcome.owned) return;
+  const finalSessionId = outcome.sessionId;
+
+  const next = messageQueue.shift(finalSessionId);
+  if (!next) return;
+
+  broadcastQueueUpdate(finalSessionId, messageQueue.list(finalSessionId), next.message);
+  resetChatState(finalSessionId);
+
+  // Clients are already subscribed; the sender may have moved on, so don't re-subscribe it
+  await runTurn(
+    next.context.ws,
+    finalSessionId,
+    finalSessionId,
+    next.message.content,
+    next.context.options,
+    next.context.attachments,
+    config,
+    permissions,
+    uploads
+  );
+}
+
+/**
+ * Run one turn in a fresh `claude --print` process.
+ */
+async function runSingleTurn(
+  ws: ClaudeWebSocket,
+  sessionId: string | undefined,
+  effectiveSessionId: string,
+  content: string,
+  options: MessageOptions,
+  attachments: StoredUpload[],
+  config: Required<ClaudeServerConfig>,
+  permissions: PermissionBroker,
+  uploads: UploadStore
+): Promise<TurnOutcome> {
+  let turn: ChatTurn | undefined;
+  const spawnOptions = getSpawnOptions(config, options);
+
+  // In prompt mode the CLI asks our permission route before each tool call
+  const permissionToken =
+    spawnOptions.permissionMode === 'prompt'
+      ? permissions.registerProcess(() => turn?.sessionId() ?? effectiveSessionId)
+      : undefined;
+
+  // Spawn Claude
+  let spawned: ReturnType<typeof spawnClaude>;
+  try {
+    spawned = spawnClaude({
+      ...spawnOptions,
+      prompt: formatAttachmentPrompt(content, attachments),
+      sessionId: sessionId, // Only pass if resuming
+      permissionMcpConfig: permissionToken
+        ? permissions.mcpConfig(permissionToken)
+        : undefined,
+    });
+  } catch (error) {
+    if (permissionToken) permissions.releaseProcess(permissionToken);
+    broadcastError(
+      effectiveSessionId,
+      error instanceof Error ? error.message : 'Failed to start Claude'
+    );
+    // A cancelled turn still exiting runs the queue when it does
+    return { sessionId: effectiveSessionId, owned: !activeProcesses.has(effectiveSessionId) };
+  }
+  const { proc, reader, stderr } = spawned;
+
+  // Track process
+  const processInfo: ActiveProcess = {
+    proc,
+    sessionId: effectiveSessionId,
+    aborted: false,
+    startedAt: Date.now(),
+  };
+  activeProcesses.set(effectiveSessionId, processInfo);
+
+  config.onStreamStart?.(effectiveSessionId);
+
+  turn = createChatTurn(processInfo, content, config, uploads);
+  let owned = false;
+
   try {
     // Parse the stream
     await parseClaudeStream(
       reader,
-      wrappedCallbacks,
+      turn.callbacks,
       () => processInfo.aborted
     );
 
     // Wait for process to exit
     const exitCode = await proc.exited;
 
-    if (thinkingTimeout) clearTimeout(thinkingTimeout);
+    turn.stop();
 
     if (exitCode !== 0 && !processInfo.aborted) {
-      const errorMessage = await parseStderr(proc.stderr);
-      broadcastError(detectedSessionId, errorMessage);
-    } else if (!processInfo.aborted && !completeSent) {
+      const errorMessage = await parseStderr(stderr);
+      broadcastError(turn.sessionId(), errorMessage);
+    } else if (!processInfo.aborted && !turn.completeSent()) {
       // Ensure completion is sent (only if not already sent via stream)
-      completeSent = true;
-      broadcastComplete(detectedSessionId);
+      turn.callbacks.onComplete();
     }
   } catch (error) {
-    if (thinkingTimeout) clearTimeout(thinkingTimeout);
+    turn.stop();
     broadcastError(
-      detectedSessionId,
+      turn.sessionId(),
       error instanceof Error ? error.message : 'Unknown error'
     );
   } finally {
-    activeProcesses.delete(detectedSessionId);
-    config.onStreamEnd?.(detectedSessionId);
+    if (permissionToken) permissions.releaseProcess(permissionToken);
+    owned = releaseActiveProcess(turn.sessionId(), processInfo);
+    config.onStreamEnd?.(turn.sessionId());
+  }
+
+  return { sessionId: turn.sessionId(), owned };
+}
+
+/**
+ * Get the running process for a session, or start one. CLI flags are fixed
+ * for a process's life, so different message options restart it.
+ */
+function getPersistentClaude(
+  sessionId: string | undefined,
+  options: MessageOptions,
+  config: Required<ClaudeServerConfig>,
+  permissions: PermissionBroker
+): PersistentClaude {
+  const optionsKey = JSON.stringify(options);
+  const existing = sessionId ? persistentProcesses.get(sessionId) : undefined;
+  if (existing?.alive) {
+    if (persistentOptions.get(existing) === optionsKey) {
+      return existing;
+    }
+    console.log(`[Claude] Restarting process for session ${sessionId?.substring(0, 8)} with new options`);
+    existing.kill();
+  }
+
+  const spawnOptions = getSpawnOptions(config, options);
+
+  // The process outlives a single turn, so it holds the permission token
+  let claude: PersistentClaude | undefined;
+  const permissionToken =
+    spawnOptions.permissionMode === 'prompt'
+      ? permissions.registerProcess(() => claude?.sessionId ?? sessionId ?? '')
+      : undefined;
+
+  try {
+    claude = spawnPersistentClaude({
+      ...spawnOptions,
+      sessionId, // Only pass if resuming
+      permissionMcpConfig: permissionToken
+        ? permissions.mcpConfig(permissionToken)
+        : undefined,
+      idleTimeoutMs: config.processIdleTimeoutMs,
+      onExit: (exited) => {
+        if (permissionToken) permissions.releaseProcess(permissionToken);
+        for (const [sid, running] of persistentProcesses) {
+          if (running === exited) persistentProcesses.delete(sid);
+        }
+      },
+    });
+  } catch (error) {
+    if (permissionToken) permissions.releaseProcess(permissionToken);
+    throw error;
+  }
+
+  persistentOptions.set(claude, optionsKey);
+  if (sessionId) {
+    persistentProcesses.set(sessionId, claude);
+  }
+  return claude;
+}
+
+/**
+ * Run one turn on the session's long-lived process.
+ */
+async function runPersistentTurn(
+  ws: ClaudeWebSocket,
+  sessionId: string | undefined,
+  effectiveSessionId: string,
+  content: string,
+  options: MessageOptions,
+  attachments: StoredUpload[],
+  config: Required<ClaudeServerConfig>,
+  permissions: PermissionBroker,
+  uploads: UploadStore
+): Promise<TurnOutcome> {
+  let claude: PersistentClaude;
+  try {
+    claude = getPersistentClaude(sessionId, options, config, permissions);
+  } catch (error) {
+    broadcastError(
+      effectiveSessionId,
+      error instanceof Error ? error.message : 'Failed to start Claude'
+    );
+    return { sessionId: effectiveSessionId, owned: !activeProcesses.has(effectiveSessionId) };
+  }
+
+  // Track process (cancel kills it; the next message starts a new one)
+  const processInfo: ActiveProcess = {
+    proc: claude.proc,
+    sessionId: effectiveSessionId,
+    aborted: false,
+    startedAt: Date.now(),
+  };
+  activeProcesses.set(effectiveSessionId, processInfo);
+
+  config.onStreamStart?.(effectiveSessionId);
+
+  const turn = createChatTurn(processInfo, content, config, uploads);
+  let owned = false;
+
+  try {
+    const message = attachments.length > 0
+      ? await buildUserContent(content, attachments)
+      : content;
+    await claude.runTurn(message, turn.callbacks);
+  } catch (error) {
+    if (!processInfo.aborted) {
+      broadcastError(
+        turn.sessionId(),
+        error instanceof Error ? error.message : 'Unknown error'
+      );
+    }
+  } finally {
+    turn.stop();
+    owned = releaseActiveProcess(turn.sessionId(), processInfo);
+    // New sessions are only addressable once the CLI reports their ID
+    if (claude.alive) {
+      persistentProcesses.set(turn.sessionId(), claude);
+    }
+    config.onStreamEnd?.(turn.sessionId());
+  }
+
+  return { sessionId: turn.sessionId(), owned };
+}
+
+/**
+ * Send the project's past sessions to a client.
+ */
+async function handleListSessions(
+  ws: ClaudeWebSocket,
+  projectId: string | undefined,
+  projects: ProjectRegistry,
+  requestId?: string
+): Promise<void> {
+  const project = projects.get(projectId);
+  if (!project) {
+    sendSystemMessage(ws, {
+      action: 'error',
+      code: 'request_failed',
+      requestId,
+      error: `Unknown project: ${projectId}`,
+    });
+    return;
+  }
+
+  const sessions = await listTranscriptSessions(project.path);
+  sendSystemMessage(ws, { action: 'session_list', projectId: project.id, sessions, requestId });
+}
+
+/**
+ * Send a session's transcript to a client.
+ */
+async function handleLoadHistory(
+  ws: ClaudeWebSocket,
+  sessionId: string,
+  projectId: string | undefined,
+  projects: ProjectRegistry,
+  requestId?: string
+): Promise<void> {
+  let projectPath: string;
+  try {
+    projectPath = resolveProjectPath(sessionId, projectId, projects);
+  } catch (error) {
+    sendSystemMessage(
+      ws,
+      { action: 'error', code: 'request_failed', requestId, sessionId, error: (error as Error).message },
+      sessionId
+    );
+    return;
+  }
+
+  const messages = await loadTranscript(projectPath, sessionId);
+
+  if (!messages) {
+    sendSystemMessage(
+      ws,
+      { action: 'error', code: 'request_failed', requestId, sessionId, error: 'Session not found' },
+      sessionId
+    );
+    return;
   }
+
+  sendSystemMessage(ws, { action: 'history', sessionId, messages, requestId }, sessionId);
+}
+
+/**
+ * This package's version, from its package.json.
+ */
+async function getServerVersion(): Promise<string | undefined> {
+  try {
+    const path = fileURLToPath(new URL('../package.json', import.meta.url));
+    const pkg = (await Bun.file(path).json()) as { version?: string };
+    return pkg.version;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Capabilities this server can offer with its config.
+ */
+function getServerCapabilities(config: Required<ClaudeServerConfig>): Capability[] {
+  const capabilities: Capability[] = [
+    'thinking',
+    'subagents',
+    'questions',
+    'queue',
+    'uploads',
+    'tool_results',
+  ];
+  // A message may opt into prompting even when the default mode doesn't
+  if (
+    config.permissionMode === 'prompt' ||
+    config.messageOptions.permissionModes?.includes('prompt')
+  ) {
+    capabilities.push('permissions');
+  }
+  return capabilities;
+}
+
+/**
+ * Answer a client's hello: check its protocol version, enable the
+ * capabilities both sides support and send the server's details.
+ */
+async function handleHello(
+  ws: ClaudeWebSocket,
+  protocolVersion: number,
+  features: string[],
+  config: Required<ClaudeServerConfig>,
+  projects: ProjectRegistry,
+  getVersions: () => Promise<[string | undefined, string | undefined]>,
+  requestId?: string
+): Promise<void> {
+  if (protocolVersion < MIN_CLIENT_PROTOCOL_VERSION) {
+    console.log(`[WS] Client ${ws.data.clientId} speaks protocol ${protocolVersion}, too old`);
+    sendSystemMessage(ws, {
+      action: 'error',
+      code: 'unsupported_protocol',
+      requestId,
+      protocolVersion: PROTOCOL_VERSION,
+      error:
+        `This app speaks protocol version ${protocolVersion}, but the server needs ` +
+        `${MIN_CLIENT_PROTOCOL_VERSION}-${PROTOCOL_VERSION}. Reload the app to update it.`,
+    });
+    return;
+  }
+
+  // Newer clients are told our version and fall back to it
+  const capabilities = getServerCapabilities(config).filter((c) => features.includes(c));
+  setClientCapabilities(ws, Math.min(protocolVersion, PROTOCOL_VERSION), capabilities);
+
+  const [serverVersion, cliVersion] = await getVersions();
+  sendSystemMessage(ws, {
+    action: 'connected',
+    protocolVersion: PROTOCOL_VERSION,
+    serverVersion,
+    cliVersion,
+    projects: projects.list(),
+    capabilities,
+  });
+}
+
+/**
+ * Move a queued prompt and tell the session's clients.
+ */
+function handleReorderQueue(sessionId: string, queueId: string, position: number): void {
+  if (messageQueue.move(sessionId, queueId, position)) {
+    broadcastQueueUpdate(sessionId, messageQueue.list(sessionId));
+  }
+}
+
+/**
+ * Drop a queued prompt, let its uploads be pruned and tell the session's
+ * clients.
+ */
+function handleRemoveQueued(sessionId: string, queueId: string, uploads: UploadStore): void {
+  const removed = messageQueue.remove(sessionId, queueId);
+  if (removed) {
+    uploads.release(removed.context.attachments);
+    broadcastQueueUpdate(sessionId, messageQueue.list(sessionId));
+  }
+}
+
+/**
+ * Handle an answer to the session's pending AskUserQuestion: the answers
+ * become the next prompt (queued if Claude is still busy).
+ */
+async function handleAnswer(
+  ws: ClaudeWebSocket,
+  sessionId: string,
+  questionId: string,
+  answers: Record<string, string | string[]>,
+  requestId: string | undefined,
+  config: Required<ClaudeServerConfig>,
+  permissions: PermissionBroker,
+  projects: ProjectRegistry,
+  uploads: UploadStore
+): Promise<void> {
+  const question = getChatState(sessionId)?.pendingQuestion;
+
+  let content: string;
+  try {
+    if (question?.id !== questionId) {
+      throw new Error(`No pending question: ${questionId}`);
+    }
+    content = formatQuestionAnswers(question, answers);
+  } catch (error) {
+    sendSystemMessage(
+      ws,
+      { action: 'error', code: 'request_failed', requestId, sessionId, error: (error as Error).message },
+      sessionId
+    );
+    return;
+  }
+
+  broadcastQuestionResolved(sessionId, questionId);
+  await handleChat(
+    ws,
+    sessionId,
+    content,
+    undefined,
+    undefined,
+    undefined,
+    undefined,
+    requestId,
+    config,
+    permissions,
+    projects,
+    uploads
+  );
 }
 
 /**
@@ -258,10 +1004,29 @@ export function createClaudeServer(
   config: ClaudeServerConfig = {}
 ): ClaudeServer {
   // Resolve configuration
+  const projectPath = config.projectPath ?? config.projects?.[0]?.path ?? process.cwd();
+  const uploadConfig: Required<UploadConfig> = {
+    dir: config.uploads?.dir ?? DEFAULT_UPLOAD_DIR,
+    maxBytes: config.uploads?.maxBytes ?? WS_CONFIG.UPLOAD_MAX_BYTES,
+    allowedTypes: config.uploads?.allowedTypes ?? DEFAULT_UPLOAD_TYPES,
+    ttlMs: config.uploads?.ttlMs ?? WS_CONFIG.UPLOAD_TTL_MS,
+  };
   const resolvedConfig: Required<ClaudeServerConfig> = {
     port: config.port ?? 3457,
-    projectPath: config.projectPath ?? process.cwd(),
+    projectPath,
+    projects: config.projects ?? [{ id: 'default', path: projectPath }],
     claudePath: config.claudePath ?? findClaudePath() ?? 'claude',
+    permissionMode: config.permissionMode ?? 'skip',
+    allowedTools: config.allowedTools ?? [],
+    messageOptions: config.messageOptions ?? {},
+    uploads: uploadConfig,
+    permissionTimeoutMs: config.permissionTimeoutMs ?? WS_CONFIG.PERMISSION_TIMEOUT_MS,
+    processMode: config.processMode ?? 'per-turn',
+    processIdleTimeoutMs: config.processIdleTimeoutMs ?? WS_CONFIG.PROCESS_IDLE_TIMEOUT_MS,
+    auth: config.auth ?? {},
+    allowedOrigins: config.allowedOrigins ?? [],
+    sessionStore: config.sessionStore ?? createSqliteSessionStore(),
+    recordingsDir: config.recordingsDir ?? '',
     onConnect: config.onConnect ?? (() => {}),
     onDisconnect: config.onDisconnect ?? (() => {}),
     onStreamStart: config.onStreamStart ?? (() => {}),
@@ -270,16 +1035,106 @@ export function createClaudeServer(
 
   let server: Server | null = null;
 
+  // Directories clients may run Claude in
+  const projects = createProjectRegistry(resolvedConfig.projects);
+
+  // Files attached to messages
+  const uploads = createUploadStore(uploadConfig);
+
+  // Token and origin checks for /ws and /sessions
+  const auth = createAuthenticator({
+    auth: resolvedConfig.auth,
+    allowedOrigins: resolvedConfig.allowedOrigins,
+  });
+
+  // Browsers only hand cross-origin clients a response (errors included) with these
+  const withCors = (req: Request, res: Response): Response => {
+    for (const [name, value] of Object.entries(auth.corsHeaders(req))) {
+      res.headers.set(name, value);
+    }
+    return res;
+  };
+
+  // Relay tool permission checks between the CLI and clients
+  const permissions = createPermissionBroker({
+    timeoutMs: resolvedConfig.permissionTimeoutMs,
+    onRequest: (sessionId, request) => {
+      const permission: PermissionRequestData = {
+        ...request,
+        friendly: getFriendlyToolName(request.toolName, request.input),
+      };
+      broadcastPermissionRequest(sessionId, permission);
+    },
+    onResolved: (sessionId, permissionId, decision) => {
+      broadcastPermissionResolved(sessionId, permissionId, decision.behavior, decision.reason);
+    },
+    // The bound port: config.port may be 0 (any free port)
+    getBaseUrl: () => `http://127.0.0.1:${server?.port ?? resolvedConfig.port}`,
+  });
+
+  // Looked up on the first hello
+  let versions: Promise<[string | undefined, string | undefined]> | null = null;
+  const getVersions = () =>
+    (versions ??= Promise.all([getServerVersion(), getClaudeVersion(resolvedConfig.claudePath)]));
+
   // Create WebSocket handler
-  const wsHandler = createWebSocketHandler(
-    (ws, sessionId, content) => handleChat(ws, sessionId, content, resolvedConfig),
-    handleCancel
-  );
+  const wsHandler = createWebSocketHandler({
+    onHello: (ws, protocolVersion, features, requestId) =>
+      handleHello(ws, protocolVersion, features, resolvedConfig, projects, getVersions, requestId),
+    onChat: (ws, sessionId, content, projectId, options, attachments, newSessionId, requestId) =>
+      handleChat(
+        ws,
+        sessionId,
+        content,
+        projectId,
+        options,
+        attachments,
+        newSessionId,
+        requestId,
+        resolvedConfig,
+        permissions,
+        projects,
+        uploads
+      ),
+    onCancel: handleCancel,
+    onReorderQueue: handleReorderQueue,
+    onRemoveQueued: (sessionId, queueId) => handleRemoveQueued(sessionId, queueId, uploads),
+    onPermission: (ws, permissionId, decision, reason) => {
+      // Only clients following the session may answer for it
+      const sessionId = permissions.getSessionId(permissionId);
+      if (!sessionId || !ws.data.sessionIds.has(sessionId)) {
+        console.log(`[Claude] Ignoring answer for unknown permission ${permissionId}`);
+        return;
+      }
+      permissions.resolve(permissionId, { behavior: decision, reason });
+    },
+    onAnswer: (ws, sessionId, questionId, answers, requestId) =>
+      handleAnswer(
+        ws,
+        sessionId,
+        questionId,
+        answers,
+        requestId,
+        resolvedConfig,
+        permissions,
+        projects,
+        uploads
+      ),
+    onListSessions: (ws, projectId, requestId) => handleListSessions(ws, projectId, projects, requestId),
+    onLoadHistory: (ws, sessionId, projectId, requestId) =>
+      handleLoadHistory(ws, sessionId, projectId, projects, requestId),
+    onListProjects: (ws) =>
+      sendSystemMessage(ws, { action: 'project_list', projects: projects.list() }),
+  });
 
   return {
     start() {
+      // Persist events and state through the configured store
+      setSessionStore(resolvedConfig.sessionStore);
+
       // Start periodic tasks
       startPeriodicTasks();
+      uploads.startPruning(WS_CONFIG.UPLOAD_PRUNE_INTERVAL_MS);
 
       // Start the server
       server = Bun.serve({
@@ -290,13 +1145,24 @@ export function createClaudeServer(
 
           // WebSocket upgrade
           if (url.pathname === '/ws' || req.headers.get('upgrade') === 'websocket') {
+            const denied = auth.check(req);
+            if (denied) {
+              return denied;
+            }
+
             const success = server.upgrade(req, {
               data: {
                 clientId: '',
+                sessionIds: new Set<string>(),
+                sessionProjects: new Map<string, string>(),
                 connectedAt: new Date(),
                 lastPing: new Date(),
-                lastSeq: 0,
+                connectionSeq: 0,
               },
+              // Browsers drop the socket unless we select the protocol they offered
+              headers: offersAuthProtocol(req)
+                ? { 'Sec-WebSocket-Protocol': AUTH_PROTOCOL }
+                : undefined,
             });
 
             if (success) {
@@ -306,6 +1172,46 @@ export function createClaudeServer(
             return new Response('WebSocket upgrade failed', { status: 500 });
           }
 
+          // Permission prompts from the Claude CLI (MCP over HTTP)
+          if (url.pathname === PERMISSION_ROUTE) {
+            // Answers can take a while; don't let the idle timeout drop the call
+            server.timeout(req, 0);
+            return permissions.handleRequest(req);
+          }
+
+          // Attachment uploads
+          if (url.pathname === UPLOAD_ROUTE && req.method === 'POST') {
+            const denied = auth.check(req);
+            if (denied) {
+              return withCors(req, denied);
+            }
+
+            return uploads.handleRequest(req).then((res) => withCors(req, res));
+          }
+
+          // Past sessions for the project
+          if (url.pathname === '/sessions' && req.method === 'GET') {
+            const denied = auth.check(req);
+            if (denied) {
+              return withCors(req, denied);
+            }
+
+            const project = projects.get(url.searchParams.get('projectId') ?? undefined);
+            if (!project) {
+              return new Response('Unknown project', { status: 404, headers: auth.corsHeaders(req) });
+            }
+
+            return listTranscriptSessions(project.path).then(
+              (sessions) =>
+                new Response(JSON.stringify({ sessions }), {
+                  headers: {
+                    'Content-Type': 'application/json',
+                    ...auth.corsHeaders(req),
+                  },
+                })
+            );
+          }
+
           // Health check
           if (url.pathname === '/health') {
             return new Response(
@@ -324,9 +1230,9 @@ export function createClaudeServer(
           if (req.method === 'OPTIONS') {
             return new Response(null, {
               headers: {
-                'Access-Control-Allow-Origin': '*',
+                ...auth.corsHeaders(req),
                 'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
-                'Access-Control-Allow-Headers': 'Content-Type',
+                'Access-Control-Allow-Headers': 'Content-Type, Authorization',
               },
             });
           }
@@ -338,12 +1244,25 @@ export function createClaudeServer(
       });
 
       console.log(`[Claude Chat] Server running on ws://localhost:${resolvedConfig.port}/ws`);
-      console.log(`[Claude Chat] Project path: ${resolvedConfig.projectPath}`);
+      for (const project of projects.list()) {
+        console.log(`[Claude Chat] Project ${project.id}: ${project.path}`);
+      }
       console.log(`[Claude Chat] Claude CLI: ${resolvedConfig.claudePath}`);
+      console.log(`[Claude Chat] Permission mode: ${resolvedConfig.permissionMode}`);
+      console.log(`[Claude Chat] Process mode: ${resolvedConfig.processMode}`);
+      console.log(`[Claude Chat] Auth: ${auth.enabled ? 'required' : 'disabled'}`);
+      if (resolvedConfig.recordingsDir) {
+        console.log(`[Claude Chat] Recording CLI output to ${resolvedConfig.recordingsDir}`);
+      }
     },
 
     stop() {
       stopPeriodicTasks();
+      uploads.stop();
+      for (const claude of persistentProcesses.values()) {
+        claude.kill();
+      }
+      persistentProcesses.clear();
       if (server) {
         server.stop();
         server = null;
@@ -364,11 +1283,32 @@ export function createClaudeServer(
 // If run directly, start the server
 if (import.meta.main) {
   const port = parseInt(process.env.PORT || '3457', 10);
-  const projectPath = process.env.PROJECT_PATH || process.cwd();
+  const projectPath = process.env.PROJECT_PATH;
+  // PROJECTS=api=/srv/api,web=/srv/web
+  const projects = process.env.PROJECTS?.split(',')
+    .map((entry) => entry.trim().split('='))
+    .filter(([id, path]) => id && path)
+    .map(([id, path]): ProjectConfig => ({ id, path }));
+  const permissionMode = process.env.PERMISSION_MODE as PermissionMode | undefined;
+  const allowedTools = process.env.ALLOWED_TOOLS?.split(',').map((t) => t.trim()).filter(Boolean);
+  const sessionDbPath = process.env.SESSION_DB_PATH;
+  const processMode = process.env.PROCESS_MODE as ProcessMode | undefined;
+  const authTokens = process.env.AUTH_TOKENS?.split(',').map((t) => t.trim()).filter(Boolean);
+  const authSecret = process.env.AUTH_SECRET;
+  const allowedOrigins = process.env.ALLOWED_ORIGINS?.split(',').map((o) => o.trim()).filter(Boolean);
+  const recordingsDir = process.env.RECORDINGS_DIR;
 
   const server = createClaudeServer({
     port,
     projectPath,
+    projects: projects?.length ? projects : undefined,
+    permissionMode,
+    allowedTools,
+    processMode,
+    auth: { tokens: authTokens, secret: authSecret },
+    allowedOrigins,
+    sessionStore: sessionDbPath ? createSqliteSessionStore(sessionDbPath) : undefined,
+    recordingsDir,
   });
 
   server.start();
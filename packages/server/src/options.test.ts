@@ -0,0 +1,82 @@
+/**
+ * Tests for per-message option validation.
+ */
+
+import { describe, expect, test } from 'bun:test';
+import { resolveMessageOptions } from './options';
+import type { MessageOptionsPolicy } from './types';
+
+const policy: MessageOptionsPolicy = {
+  models: ['sonnet', 'opus'],
+  maxTurns: 10,
+  allowedTools: ['Read', 'Grep', 'Bash(git:*)'],
+  appendSystemPrompt: true,
+  permissionModes: ['prompt', 'allowlist'],
+};
+
+describe('resolveMessageOptions', () => {
+  test('returns no options when none are sent', () => {
+    expect(resolveMessageOptions(undefined, {})).toEqual({});
+  });
+
+  test('accepts options the policy allows', () => {
+    const options = resolveMessageOptions(
+      {
+        model: 'opus',
+        maxTurns: 5,
+        allowedTools: ['Read', 'Bash(git:*)'],
+        disallowedTools: ['Write'],
+        appendSystemPrompt: 'Be brief.',
+        permissionMode: 'allowlist',
+      },
+      policy
+    );
+    expect(options).toEqual({
+      model: 'opus',
+      maxTurns: 5,
+      allowedTools: ['Read', 'Bash(git:*)'],
+      disallowedTools: ['Write'],
+      appendSystemPrompt: 'Be brief.',
+      permissionMode: 'allowlist',
+    });
+  });
+
+  test('always accepts disallowedTools', () => {
+    expect(resolveMessageOptions({ disallowedTools: ['Bash'] }, {})).toEqual({
+      disallowedTools: ['Bash'],
+    });
+  });
+
+  test('rejects options outside the policy', () => {
+    expect(() => resolveMessageOptions({ model: 'haiku' }, policy)).toThrow('Model not allowed: haiku');
+    expect(() => resolveMessageOptions({ maxTurns: 50 }, policy)).toThrow('maxTurns not allowed: 50');
+    expect(() => resolveMessageOptions({ allowedTools: ['Bash'] }, policy)).toThrow('Tool not allowed: Bash');
+    expect(() => resolveMessageOptions({ permissionMode: 'skip' }, policy)).toThrow(
+      'Permission mode not allowed: skip'
+    );
+    expect(() => resolveMessageOptions({ appendSystemPrompt: 'x' }, {})).toThrow();
+  });
+
+  test('rejects allowedTools when the message runs in skip mode', () => {
+    const skippable: MessageOptionsPolicy = { ...policy, permissionModes: ['skip', 'prompt'] };
+    const refusal = "allowedTools has no effect in 'skip' permission mode";
+
+    expect(() => resolveMessageOptions({ allowedTools: ['Read'] }, skippable)).toThrow(refusal);
+    expect(() =>
+      resolveMessageOptions({ allowedTools: ['Read'], permissionMode: 'skip' }, skippable, 'prompt')
+    ).toThrow(refusal);
+    expect(resolveMessageOptions({ allowedTools: ['Read'] }, skippable, 'prompt')).toEqual({
+      allowedTools: ['Read'],
+    });
+    expect(
+      resolveMessageOptions({ allowedTools: ['Read'], permissionMode: 'prompt' }, skippable)
+    ).toEqual({ allowedTools: ['Read'], permissionMode: 'prompt' });
+  });
+
+  test('rejects malformed and unknown options', () => {
+    expect(() => resolveMessageOptions({ maxTurns: 1.5 }, policy)).toThrow();
+    expect(() => resolveMessageOptions({ allowedTools: 'Read' }, policy)).toThrow();
+    expect(() => resolveMessageOptions({ cwd: '/' }, policy)).toThrow('Unknown option: cwd');
+    expect(() => resolveMessageOptions('opus', policy)).toThrow();
+  });
+});
@@ -0,0 +1,108 @@
+/**
+ * Per-message Options
+ *
+ * Clients may attach CLI options (model, max turns, tool lists, ...) to a
+ * `send`. Nothing from the wire reaches the CLI unless the server's
+ * `MessageOptionsPolicy` allows it.
+ */
+
+import type { MessageOptions, MessageOptionsPolicy, PermissionMode } from './types';
+
+const PERMISSION_MODES: PermissionMode[] = ['skip', 'prompt', 'allowlist'];
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every((v) => typeof v === 'string');
+}
+
+// =============================================================================
+// Validation
+// =============================================================================
+
+/**
+ * Check a client's options against the server's policy and its default
+ * permission mode. Returns the options to apply, or throws naming the first
+ * one refused.
+ */
+export function resolveMessageOptions(
+  raw: unknown,
+  policy: MessageOptionsPolicy,
+  defaultMode: PermissionMode = 'skip'
+): MessageOptions {
+  if (raw === undefined || raw === null) return {};
+  if (typeof raw !== 'object' || Array.isArray(raw)) {
+    throw new Error('options must be an object');
+  }
+
+  const options: MessageOptions = {};
+
+  for (const [key, value] of Object.entries(raw as Record<string, unknown>)) {
+    if (value === undefined) continue;
+
+    switch (key) {
+      case 'model':
+        if (typeof value !== 'string') throw new Error('model must be a string');
+        if (!policy.models?.includes(value)) {
+          throw new Error(`Model not allowed: ${value}`);
+        }
+        options.model = value;
+        break;
+
+      case 'maxTurns':
+        if (typeof value !== 'number' || !Number.isInteger(value) || value < 1) {
+          throw new Error('maxTurns must be a positive integer');
+        }
+        if (policy.maxTurns === undefined || value > policy.maxTurns) {
+          throw new Error(`maxTurns not allowed: ${value}`);
+        }
+        options.maxTurns = value;
+        break;
+
+      case 'allowedTools': {
+        if (!isStringArray(value)) throw new Error('allowedTools must be an array of strings');
+        const refused = value.find((tool) => !policy.allowedTools?.includes(tool));
+        if (refused) {
+          throw new Error(`Tool not allowed: ${refused}`);
+        }
+        options.allowedTools = value;
+        break;
+      }
+
+      case 'disallowedTools':
+        if (!isStringArray(value)) throw new Error('disallowedTools must be an array of strings');
+        options.disallowedTools = value;
+        break;
+
+      case 'appendSystemPrompt':
+        if (typeof value !== 'string') throw new Error('appendSystemPrompt must be a string');
+        if (!policy.appendSystemPrompt) {
+          throw new Error('appendSystemPrompt not allowed');
+        }
+        options.appendSystemPrompt = value;
+        break;
+
+      case 'permissionMode':
+        if (!PERMISSION_MODES.includes(value as PermissionMode)) {
+          throw new Error(`Unknown permission mode: ${String(value)}`);
+        }
+        if (!policy.permissionModes?.includes(value as PermissionMode)) {
+          throw new Error(`Permission mode not allowed: ${value}`);
+        }
+        options.permissionMode = value as PermissionMode;
+        break;
+
+      default:
+        throw new Error(`Unknown option: ${key}`);
+    }
+  }
+
+  // --dangerously-skip-permissions runs every tool, so the list would restrict nothing
+  if (options.allowedTools && (options.permissionMode ?? defaultMode) === 'skip') {
+    throw new Error("allowedTools has no effect in 'skip' permission mode");
+  }
+
+  return options;
+}
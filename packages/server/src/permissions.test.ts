@@ -0,0 +1,197 @@
+/**
+ * Tests for the tool permission broker and its MCP endpoint.
+ */
+
+import { describe, expect, test } from 'bun:test';
+import {
+  createPermissionBroker,
+  buildPermissionMcpConfig,
+  PERMISSION_ROUTE,
+  PERMISSION_TOOL_NAME,
+  type PermissionDecision,
+} from './permissions';
+import type { PermissionRequestData } from './types';
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+function createTestBroker(timeoutMs = 1000) {
+  const requests: Array<[string, PermissionRequestData]> = [];
+  const resolved: Array<[string, string, PermissionDecision]> = [];
+
+  const broker = createPermissionBroker({
+    timeoutMs,
+    onRequest: (sessionId, request) => requests.push([sessionId, request]),
+    onResolved: (sessionId, id, decision) => resolved.push([sessionId, id, decision]),
+    getBaseUrl: () => 'http://127.0.0.1:3457',
+  });
+
+  return { broker, requests, resolved };
+}
+
+function rpc(token: string, body: Record<string, unknown>): Request {
+  return new Request(`http://127.0.0.1${PERMISSION_ROUTE}?token=${token}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ jsonrpc: '2.0', ...body }),
+  });
+}
+
+function toolCall(token: string, input: Record<string, unknown>): Request {
+  return rpc(token, {
+    id: 2,
+    method: 'tools/call',
+    params: {
+      name: PERMISSION_TOOL_NAME,
+      arguments: { tool_name: 'Bash', input, tool_use_id: 'toolu_1' },
+    },
+  });
+}
+
+async function readAnswer(res: Response): Promise<Record<string, unknown>> {
+  const body = (await res.json()) as {
+    result: { content: Array<{ text: string }> };
+  };
+  return JSON.parse(body.result.content[0].text);
+}
+
+// =============================================================================
+// MCP Protocol Tests
+// =============================================================================
+
+describe('permission MCP endpoint', () => {
+  test('rejects unknown tokens', async () => {
+    const { broker } = createTestBroker();
+    const res = await broker.handleRequest(rpc('nope', { id: 1, method: 'initialize' }));
+    expect(res.status).toBe(401);
+  });
+
+  test('answers initialize and tools/list', async () => {
+    const { broker } = createTestBroker();
+    const token = broker.registerProcess(() => 'session-1');
+
+    const init = await broker.handleRequest(
+      rpc(token, { id: 1, method: 'initialize', params: { protocolVersion: '2025-06-18' } })
+    );
+    const initBody = (await init.json()) as { result: { protocolVersion: string } };
+    expect(initBody.result.protocolVersion).toBe('2025-06-18');
+
+    const list = await broker.handleRequest(rpc(token, { id: 2, method: 'tools/list' }));
+    const listBody = (await list.json()) as { result: { tools: Array<{ name: string }> } };
+    expect(listBody.result.tools.map((t) => t.name)).toEqual([PERMISSION_TOOL_NAME]);
+  });
+
+  test('acknowledges notifications without a body', async () => {
+    const { broker } = createTestBroker();
+    const token = broker.registerProcess(() => 'session-1');
+
+    const res = await broker.handleRequest(
+      rpc(token, { method: 'notifications/initialized' })
+    );
+    expect(res.status).toBe(202);
+  });
+
+  test('builds an http mcp config pointing at the permission route', () => {
+    const config = JSON.parse(buildPermissionMcpConfig('http://127.0.0.1:3457', 'abc'));
+    expect(config.mcpServers['cc-chat']).toEqual({
+      type: 'http',
+      url: 'http://127.0.0.1:3457/mcp/permissions?token=abc',
+    });
+  });
+
+  test('points a registered process at the broker base URL', () => {
+    const { broker } = createTestBroker();
+    const token = broker.registerProcess(() => 'session-1');
+
+    const config = JSON.parse(broker.mcpConfig(token));
+    expect(config.mcpServers['cc-chat'].url).toBe(
+      `http://127.0.0.1:3457/mcp/permissions?token=${token}`
+    );
+  });
+});
+
+// =============================================================================
+// Decision Tests
+// =============================================================================
+
+describe('permission decisions', () => {
+  test('approve returns allow with the original input', async () => {
+    const { broker, requests, resolved } = createTestBroker();
+    const token = broker.registerProcess(() => 'session-1');
+
+    const pending = broker.handleRequest(toolCall(token, { command: 'ls' }));
+    await Bun.sleep(0);
+
+    expect(requests.length).toBe(1);
+    const [sessionId, request] = requests[0];
+    expect(sessionId).toBe('session-1');
+    expect(request.toolName).toBe('Bash');
+    expect(request.toolUseId).toBe('toolu_1');
+    expect(broker.getPending('session-1')).toHaveLength(1);
+    expect(broker.getSessionId(request.id)).toBe('session-1');
+
+    expect(broker.resolve(request.id, { behavior: 'allow' })).toBe(true);
+    expect(broker.getSessionId(request.id)).toBeUndefined();
+
+    expect(await readAnswer(await pending)).toEqual({
+      behavior: 'allow',
+      updatedInput: { command: 'ls' },
+    });
+    expect(resolved).toEqual([['session-1', request.id, { behavior: 'allow' }]]);
+    expect(broker.getPending('session-1')).toHaveLength(0);
+  });
+
+  test('deny passes the reason back to Claude', async () => {
+    const { broker, requests } = createTestBroker();
+    const token = broker.registerProcess(() => 'session-1');
+
+    const pending = broker.handleRequest(toolCall(token, { command: 'rm -rf /' }));
+    await Bun.sleep(0);
+
+    broker.resolve(requests[0][1].id, { behavior: 'deny', reason: 'Too risky' });
+
+    expect(await readAnswer(await pending)).toEqual({
+      behavior: 'deny',
+      message: 'Too risky',
+    });
+  });
+
+  test('times out to deny', async () => {
+    const { broker, resolved } = createTestBroker(10);
+    const token = broker.registerProcess(() => 'session-1');
+
+    const answer = await readAnswer(
+      await broker.handleRequest(toolCall(token, { command: 'ls' }))
+    );
+
+    expect(answer.behavior).toBe('deny');
+    expect(resolved[0][2].reason).toBe('Permission request timed out');
+  });
+
+  test('releasing a process denies its pending requests', async () => {
+    const { broker } = createTestBroker();
+    const token = broker.registerProcess(() => 'session-1');
+
+    const pending = broker.handleRequest(toolCall(token, { command: 'ls' }));
+    await Bun.sleep(0);
+    broker.releaseProcess(token);
+
+    expect((await readAnswer(await pending)).behavior).toBe('deny');
+    expect(broker.resolve('perm-unknown', { behavior: 'allow' })).toBe(false);
+  });
+
+  test('reads the session ID at request time', async () => {
+    const { broker, requests } = createTestBroker();
+    let sessionId = 'new-123';
+    const token = broker.registerProcess(() => sessionId);
+
+    sessionId = 'real-session';
+    const pending = broker.handleRequest(toolCall(token, {}));
+    await Bun.sleep(0);
+
+    expect(requests[0][0]).toBe('real-session');
+    broker.resolve(requests[0][1].id, { behavior: 'allow' });
+    await pending;
+  });
+});
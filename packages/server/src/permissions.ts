@@ -0,0 +1,332 @@
+/**
+ * Tool Permission Broker
+ *
+ * Lets connected clients approve or deny Claude's tool calls.
+ *
+ * The Claude CLI asks an MCP tool (`--permission-prompt-tool`) whether each
+ * tool call may run. We host that MCP server ourselves on a plain HTTP route,
+ * turn every call into a `permission_request` broadcast, and hold the HTTP
+ * response open until a client answers or the request times out.
+ */
+
+import type {
+  PermissionBehavior,
+  PermissionRequestData,
+} from './types';
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+/** MCP server name used in --mcp-config */
+export const PERMISSION_SERVER_NAME = 'cc-chat';
+
+/** MCP tool name exposed by the permission server */
+export const PERMISSION_TOOL_NAME = 'approve_tool';
+
+/** Fully-qualified tool name passed to --permission-prompt-tool */
+export const PERMISSION_PROMPT_TOOL = `mcp__${PERMISSION_SERVER_NAME}__${PERMISSION_TOOL_NAME}`;
+
+/** HTTP route the CLI uses to reach the permission server */
+export const PERMISSION_ROUTE = '/mcp/permissions';
+
+/** MCP protocol version we answer with if the client doesn't send one */
+const MCP_PROTOCOL_VERSION = '2025-03-26';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * A client's answer to a permission request.
+ */
+export interface PermissionDecision {
+  behavior: PermissionBehavior;
+  reason?: string;
+}
+
+export interface PermissionBrokerOptions {
+  /** How long to wait for a decision before denying */
+  timeoutMs: number;
+
+  /** Called when a new request needs a decision */
+  onRequest: (sessionId: string, request: PermissionRequestData) => void;
+
+  /** Called when a request is approved, denied or times out */
+  onResolved: (
+    sessionId: string,
+    permissionId: string,
+    decision: PermissionDecision
+  ) => void;
+
+  /** Base URL the CLI reaches this server on (read per process - the port is bound late) */
+  getBaseUrl: () => string;
+}
+
+interface PendingPermission {
+  request: PermissionRequestData;
+  sessionId: string;
+  token: string;
+  resolve: (decision: PermissionDecision) => void;
+  timeout: ReturnType<typeof setTimeout>;
+}
+
+export interface PermissionBroker {
+  /**
+   * Register a Claude process. Returns the token it must present on the
+   * permission route. `getSessionId` is read on every request because the
+   * real session ID is only known after the CLI's init event.
+   */
+  registerProcess: (getSessionId: () => string) => string;
+
+  /** The --mcp-config that points a registered process at the permission route */
+  mcpConfig: (token: string) => string;
+
+  /** Forget a process and deny anything it is still waiting on */
+  releaseProcess: (token: string) => void;
+
+  /** Answer a pending request. Returns false if it no longer exists. */
+  resolve: (permissionId: string, decision: PermissionDecision) => boolean;
+
+  /** Session a pending request belongs to (undefined once it is settled) */
+  getSessionId: (permissionId: string) => string | undefined;
+
+  /** Requests still waiting for a decision in a session */
+  getPending: (sessionId: string) => PermissionRequestData[];
+
+  /** Handle an HTTP request to the permission route */
+  handleRequest: (req: Request) => Promise<Response>;
+}
+
+interface JsonRpcRequest {
+  jsonrpc: '2.0';
+  id?: string | number | null;
+  method: string;
+  params?: Record<string, unknown>;
+}
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+/**
+ * Generate a unique permission request ID.
+ */
+function generatePermissionId(): string {
+  return `perm-${Date.now()}-${Math.random().toString(36).substring(2, 8)}`;
+}
+
+/**
+ * Generate an unguessable process token.
+ */
+function generateToken(): string {
+  return crypto.randomUUID();
+}
+
+function jsonRpcResult(id: JsonRpcRequest['id'], result: unknown): Response {
+  return Response.json({ jsonrpc: '2.0', id, result });
+}
+
+function jsonRpcError(
+  id: JsonRpcRequest['id'],
+  code: number,
+  message: string
+): Response {
+  return Response.json({ jsonrpc: '2.0', id: id ?? null, error: { code, message } });
+}
+
+/**
+ * Build the --mcp-config JSON that points the CLI at our permission route.
+ */
+export function buildPermissionMcpConfig(baseUrl: string, token: string): string {
+  return JSON.stringify({
+    mcpServers: {
+      [PERMISSION_SERVER_NAME]: {
+        type: 'http',
+        url: `${baseUrl}${PERMISSION_ROUTE}?token=${encodeURIComponent(token)}`,
+      },
+    },
+  });
+}
+
+// =============================================================================
+// Broker Factory
+// =============================================================================
+
+/**
+ * Create a permission broker.
+ */
+export function createPermissionBroker(
+  options: PermissionBrokerOptions
+): PermissionBroker {
+  const processes = new Map<string, () => string>();
+  const pending = new Map<string, PendingPermission>();
+
+  function settle(permissionId: string, decision: PermissionDecision): boolean {
+    const entry = pending.get(permissionId);
+    if (!entry) return false;
+
+    pending.delete(permissionId);
+    clearTimeout(entry.timeout);
+    entry.resolve(decision);
+    options.onResolved(entry.sessionId, permissionId, decision);
+    return true;
+  }
+
+  function requestPermission(
+    token: string,
+    sessionId: string,
+    toolName: string,
+    input: Record<string, unknown> | undefined,
+    toolUseId: string | undefined
+  ): Promise<PermissionDecision> {
+    const request: PermissionRequestData = {
+      id: generatePermissionId(),
+      toolName,
+      toolUseId,
+      input,
+      expiresAt: Date.now() + options.timeoutMs,
+    };
+
+    return new Promise((resolve) => {
+      const timeout = setTimeout(() => {
+        settle(request.id, { behavior: 'deny', reason: 'Permission request timed out' });
+      }, options.timeoutMs);
+
+      pending.set(request.id, { request, sessionId, token, resolve, timeout });
+      options.onRequest(sessionId, request);
+    });
+  }
+
+  async function handleToolCall(
+    rpc: JsonRpcRequest,
+    token: string,
+    getSessionId: () => string
+  ): Promise<Response> {
+    const params = rpc.params ?? {};
+    if (params.name !== PERMISSION_TOOL_NAME) {
+      return jsonRpcError(rpc.id, -32602, `Unknown tool: ${String(params.name)}`);
+    }
+
+    const args = (params.arguments ?? {}) as Record<string, unknown>;
+    const toolName = String(args.tool_name ?? 'unknown');
+    const input = args.input as Record<string, unknown> | undefined;
+    const toolUseId = args.tool_use_id as string | undefined;
+
+    const decision = await requestPermission(
+      token,
+      getSessionId(),
+      toolName,
+      input,
+      toolUseId
+    );
+
+    const answer =
+      decision.behavior === 'allow'
+        ? { behavior: 'allow', updatedInput: input ?? {} }
+        : { behavior: 'deny', message: decision.reason || 'Denied by user' };
+
+    return jsonRpcResult(rpc.id, {
+      content: [{ type: 'text', text: JSON.stringify(answer) }],
+    });
+  }
+
+  return {
+    registerProcess(getSessionId) {
+      const token = generateToken();
+      processes.set(token, getSessionId);
+      return token;
+    },
+
+    mcpConfig(token) {
+      return buildPermissionMcpConfig(options.getBaseUrl(), token);
+    },
+
+    releaseProcess(token) {
+      processes.delete(token);
+      for (const [id, entry] of pending) {
+        if (entry.token === token) {
+          settle(id, { behavior: 'deny', reason: 'Request ended' });
+        }
+      }
+    },
+
+    resolve(permissionId, decision) {
+      return settle(permissionId, decision);
+    },
+
+    getSessionId(permissionId) {
+      return pending.get(permissionId)?.sessionId;
+    },
+
+    getPending(sessionId) {
+      return [...pending.values()]
+        .filter((p) => p.sessionId === sessionId)
+        .map((p) => p.request);
+    },
+
+    async handleRequest(req) {
+      const url = new URL(req.url);
+      const token = url.searchParams.get('token') || '';
+      const getSessionId = processes.get(token);
+
+      if (!getSessionId) {
+        return new Response('Unauthorized', { status: 401 });
+      }
+
+      // We never push server-initiated messages, so there is no SSE stream
+      if (req.method !== 'POST') {
+        return new Response('Method Not Allowed', { status: 405 });
+      }
+
+      let rpc: JsonRpcRequest;
+      try {
+        rpc = (await req.json()) as JsonRpcRequest;
+      } catch {
+        return jsonRpcError(null, -32700, 'Parse error');
+      }
+
+      // Notifications (no id) just get acknowledged
+      if (rpc.id === undefined || rpc.id === null) {
+        return new Response(null, { status: 202 });
+      }
+
+      switch (rpc.method) {
+        case 'initialize':
+          return jsonRpcResult(rpc.id, {
+            protocolVersion: rpc.params?.protocolVersion ?? MCP_PROTOCOL_VERSION,
+            capabilities: { tools: {} },
+            serverInfo: { name: PERMISSION_SERVER_NAME, version: '0.1.0' },
+          });
+
+        case 'ping':
+          return jsonRpcResult(rpc.id, {});
+
+        case 'tools/list':
+          return jsonRpcResult(rpc.id, {
+            tools: [
+              {
+                name: PERMISSION_TOOL_NAME,
+                description: 'Ask the connected chat clients to approve a tool call',
+                inputSchema: {
+                  type: 'object',
+                  properties: {
+                    tool_name: { type: 'string' },
+                    input: { type: 'object' },
+                    tool_use_id: { type: 'string' },
+                  },
+                  required: ['tool_name', 'input'],
+                },
+              },
+            ],
+          });
+
+        case 'tools/call':
+          return handleToolCall(rpc, token, getSessionId);
+
+        default:
+          return jsonRpcError(rpc.id, -32601, `Method not found: ${rpc.method}`);
+      }
+    },
+  };
+}
@@ -0,0 +1,170 @@
+/**
+ * Tests for long-lived Claude processes, using a stand-in CLI that speaks
+ * stream-json on stdin and stdout.
+ */
+
+import { describe, expect, test, beforeAll, afterAll } from 'bun:test';
+import { chmodSync, mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { spawnPersistentClaude, type PersistentClaude } from './persistent';
+import type { StreamCallbacks } from './claude';
+
+// =============================================================================
+// Fake CLI
+// =============================================================================
+
+// Echoes each user message back as one turn. "crash" exits mid-turn;
+// "noisy" first logs more than a pipe holds.
+const FAKE_CLI = `
+let turns = 0;
+const out = (event) => console.log(JSON.stringify(event));
+
+for await (const line of console) {
+  if (!line.trim()) continue;
+  const text = JSON.parse(line).message.content[0].text;
+  turns++;
+
+  out({ type: 'system', subtype: 'init', session_id: 'fake-session' });
+
+  if (text === 'crash') {
+    console.error('API usage limit reached');
+    process.exit(1);
+  }
+  if (text === 'noisy') {
+    for (let i = 0; i < 1024; i++) require('node:fs').writeSync(2, 'x'.repeat(1023) + '\\n');
+  }
+
+  out({
+    type: 'stream_event',
+    event: { type: 'content_block_delta', delta: { type: 'text_delta', text: text + ' #' + turns } },
+  });
+  out({ type: 'result', result: 'done' });
+}
+`;
+
+let dir: string;
+let claudePath: string;
+
+beforeAll(() => {
+  dir = mkdtempSync(join(tmpdir(), 'cc-chat-persistent-'));
+  writeFileSync(join(dir, 'fake-claude.js'), FAKE_CLI);
+  claudePath = join(dir, 'claude');
+  writeFileSync(
+    claudePath,
+    `#!/bin/sh\nexec "${process.execPath}" "${join(dir, 'fake-claude.js')}" "$@"\n`
+  );
+  chmodSync(claudePath, 0o755);
+});
+
+afterAll(() => {
+  rmSync(dir, { recursive: true, force: true });
+});
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+function recordTurn() {
+  const events: string[] = [];
+  const callbacks: StreamCallbacks = {
+    onInit: (sid) => events.push(`init:${sid}`),
+    onText: (text) => events.push(`text:${text}`),
+    onThinkingDelta: () => {},
+    onToolStart: () => {},
+    onToolEnd: () => {},
+    onToolOutput: () => {},
+    onTodoUpdate: () => {},
+    onQuestion: () => {},
+    onThinking: () => {},
+    onComplete: (result) => events.push(`complete:${result}`),
+    onError: (error) => events.push(`error:${error}`),
+  };
+  return { events, callbacks };
+}
+
+function spawnFake(idleTimeoutMs = 5000, onExit?: (claude: PersistentClaude) => void) {
+  return spawnPersistentClaude({
+    projectPath: dir,
+    claudePath,
+    idleTimeoutMs,
+    onExit,
+  });
+}
+
+// =============================================================================
+// Tests
+// =============================================================================
+
+describe('spawnPersistentClaude', () => {
+  test('runs several turns on one process', async () => {
+    const claude = spawnFake();
+
+    const first = recordTurn();
+    await claude.runTurn('hello', first.callbacks);
+    expect(first.events).toEqual([
+      'init:fake-session',
+      'text:hello #1',
+      'complete:done',
+    ]);
+    expect(claude.sessionId).toBe('fake-session');
+    expect(claude.busy).toBe(false);
+
+    const second = recordTurn();
+    await claude.runTurn('again', second.callbacks);
+    expect(second.events).toContain('text:again #2');
+    expect(first.events).toHaveLength(3); // Earlier turn sees nothing new
+
+    expect(claude.alive).toBe(true);
+    claude.kill();
+    await claude.proc.exited;
+  });
+
+  test('rejects overlapping turns', async () => {
+    const claude = spawnFake();
+
+    const pending = claude.runTurn('one', recordTurn().callbacks);
+    await expect(claude.runTurn('two', recordTurn().callbacks)).rejects.toThrow(
+      'A request is already in progress'
+    );
+
+    await pending;
+    claude.kill();
+    await claude.proc.exited;
+  });
+
+  test('rejects the turn with the CLI error when the process dies', async () => {
+    let exited: PersistentClaude | undefined;
+    const claude = spawnFake(5000, (c) => (exited = c));
+
+    await expect(claude.runTurn('crash', recordTurn().callbacks)).rejects.toThrow(
+      'API usage limit reached'
+    );
+    expect(claude.alive).toBe(false);
+    expect(exited).toBe(claude);
+  });
+
+  test('keeps reading stderr while the process runs', async () => {
+    const claude = spawnFake();
+
+    const turn = recordTurn();
+    await claude.runTurn('noisy', turn.callbacks);
+    expect(turn.events).toContain('text:noisy #1');
+
+    claude.kill();
+    await claude.proc.exited;
+  });
+
+  test('reaps the process after the idle timeout', async () => {
+    let exited = false;
+    const claude = spawnFake(50, () => (exited = true));
+
+    await claude.runTurn('hi', recordTurn().callbacks);
+    await claude.proc.exited;
+    await Bun.sleep(10);
+
+    expect(exited).toBe(true);
+    expect(claude.alive).toBe(false);
+    await expect(claude.runTurn('late', recordTurn().callbacks)).rejects.toThrow();
+  });
+});
@@ -0,0 +1,236 @@
+/**
+ * Persistent Claude Processes
+ *
+ * Keeps one Claude CLI process running per session with
+ * `--input-format stream-json`, so follow-up messages skip CLI startup and
+ * context reloading. User messages are written to stdin; the output stream
+ * is parsed once for the life of the process and each turn's events are
+ * routed to that turn's StreamCallbacks.
+ */
+
+import type { FileSink } from 'bun';
+import {
+  spawnClaude,
+  parseClaudeStream,
+  describeStderr,
+  formatUserMessage,
+  type SpawnClaudeOptions,
+  type StreamCallbacks,
+  type UserContentBlock,
+} from './claude';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface PersistentClaudeOptions
+  extends Omit<SpawnClaudeOptions, 'prompt' | 'inputFormat'> {
+  /** Kill the process after this long without a turn */
+  idleTimeoutMs: number;
+
+  /** Called once the process has exited (reaped, killed or crashed) */
+  onExit?: (claude: PersistentClaude) => void;
+}
+
+export interface PersistentClaude {
+  /** The underlying CLI process */
+  readonly proc: ReturnType<typeof Bun.spawn>;
+
+  /** Session ID reported by the CLI (undefined until the first init event) */
+  readonly sessionId: string | undefined;
+
+  /** Whether the process is still running */
+  readonly alive: boolean;
+
+  /** Whether a turn is in progress */
+  readonly busy: boolean;
+
+  /**
+   * Send a user message. `callbacks` receive this turn's events. Resolves
+   * when the turn's result arrives; rejects if the process exits first.
+   */
+  runTurn: (content: string | UserContentBlock[], callbacks: StreamCallbacks) => Promise<void>;
+
+  /** Stop the process */
+  kill: () => void;
+}
+
+/** Most stderr kept for the exit error - the process can log for hours */
+const MAX_STDERR_LENGTH = 64 * 1024;
+
+interface Turn {
+  callbacks: StreamCallbacks;
+  resolve: () => void;
+  reject: (error: Error) => void;
+}
+
+// =============================================================================
+// Process Factory
+// =============================================================================
+
+/**
+ * Spawn a long-lived Claude process that reads messages from stdin.
+ */
+export function spawnPersistentClaude(
+  options: PersistentClaudeOptions
+): PersistentClaude {
+  const { idleTimeoutMs, onExit, ...spawnOptions } = options;
+  const { proc, reader, stderr } = spawnClaude({ ...spawnOptions, inputFormat: 'stream-json' });
+  const stdin = proc.stdin as FileSink;
+
+  let sessionId = options.sessionId;
+  let alive = true;
+  let turn: Turn | null = null;
+  let idleTimer: ReturnType<typeof setTimeout> | null = null;
+
+  function startIdleTimer(): void {
+    if (idleTimer) clearTimeout(idleTimer);
+    idleTimer = setTimeout(() => {
+      if (!turn && alive) {
+        console.log(`[Claude] Reaping idle process for session ${sessionId?.substring(0, 8)}`);
+        proc.kill();
+      }
+    }, idleTimeoutMs);
+  }
+
+  function endTurn(error?: Error): void {
+    const current = turn;
+    if (!current) return;
+
+    turn = null;
+    if (error) {
+      current.reject(error);
+    } else {
+      current.resolve();
+    }
+
+    if (alive) startIdleTimer();
+  }
+
+  // Route stream events to whichever turn is in progress
+  const dispatcher: StreamCallbacks = {
+    onInit: (sid) => {
+      sessionId = sid;
+      turn?.callbacks.onInit(sid);
+    },
+    onText: (text) => turn?.callbacks.onText(text),
+    onThinkingDelta: (text) => turn?.callbacks.onThinkingDelta(text),
+    onToolStart: (tool) => turn?.callbacks.onToolStart(tool),
+    onToolEnd: (tool) => turn?.callbacks.onToolEnd(tool),
+    onToolOutput: (toolId, text) => turn?.callbacks.onToolOutput(toolId, text),
+    onTodoUpdate: (todos) => turn?.callbacks.onTodoUpdate(todos),
+    onQuestion: (question) => turn?.callbacks.onQuestion(question),
+    onThinking: (message) => turn?.callbacks.onThinking(message),
+    onComplete: (result, stats) => {
+      turn?.callbacks.onComplete(result, stats);
+      endTurn();
+    },
+    onError: (error) => turn?.callbacks.onError(error),
+  };
+
+  const claude: PersistentClaude = {
+    proc,
+
+    get sessionId() {
+      return sessionId;
+    },
+
+    get alive() {
+      return alive;
+    },
+
+    get busy() {
+      return turn !== null;
+    },
+
+    runTurn(content, callbacks) {
+      if (!alive) {
+        return Promise.reject(new Error('Claude process has exited'));
+      }
+      if (turn) {
+        return Promise.reject(new Error('A request is already in progress'));
+      }
+
+      if (idleTimer) clearTimeout(idleTimer);
+
+      return new Promise<void>((resolve, reject) => {
+        turn = { callbacks, resolve, reject };
+        stdin.write(formatUserMessage(content));
+        stdin.flush();
+      });
+    },
+
+    kill() {
+      proc.kill();
+    },
+  };
+
+  const stderrOutput = drainStderr(stderr);
+
+  function exited(error: Error): void {
+    if (!alive) return;
+
+    alive = false;
+    if (idleTimer) clearTimeout(idleTimer);
+    endTurn(error);
+    onExit?.(claude);
+  }
+
+  // The stream only ends when the process does
+  async function readOutput(): Promise<void> {
+    await parseClaudeStream(reader, dispatcher, () => false);
+    const exitCode = await proc.exited;
+    await stderrOutput.done;
+
+    const message =
+      exitCode !== 0
+        ? describeStderr(stderrOutput.text())
+        : 'Claude exited before finishing the response';
+    exited(new Error(message));
+  }
+
+  readOutput().catch((error) => {
+    console.error(`[Claude] Lost the output of session ${sessionId?.substring(0, 8)}:`, error);
+    proc.kill();
+    exited(error instanceof Error ? error : new Error('Claude output failed'));
+  });
+
+  startIdleTimer();
+
+  return claude;
+}
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+/**
+ * Read stderr as it arrives, so a chatty CLI never blocks on a full pipe.
+ * Keeps the last MAX_STDERR_LENGTH characters.
+ */
+function drainStderr(
+  stderr: ReadableStream<Uint8Array>
+): { done: Promise<void>; text: () => string } {
+  const decoder = new TextDecoder();
+  let output = '';
+
+  const done = (async () => {
+    const reader = stderr.getReader();
+    try {
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        output += decoder.decode(value, { stream: true });
+        if (output.length > MAX_STDERR_LENGTH) {
+          // Start at a line so the message isn't cut mid-word
+          output = output.slice(-MAX_STDERR_LENGTH);
+          output = output.slice(output.indexOf('\n') + 1);
+        }
+      }
+    } catch {
+      // Ignore read errors
+    }
+  })();
+
+  return { done, text: () => output };
+}
@@ -0,0 +1,64 @@
+/**
+ * Tests for the project registry.
+ */
+
+import { describe, expect, test } from 'bun:test';
+import { createProjectRegistry, isWithinRoot } from './projects';
+
+describe('isWithinRoot', () => {
+  test('accepts the root and paths beneath it', () => {
+    expect(isWithinRoot('/srv/api', '/srv/api')).toBe(true);
+    expect(isWithinRoot('/srv/api/packages/core', '/srv/api')).toBe(true);
+  });
+
+  test('rejects siblings and escapes', () => {
+    expect(isWithinRoot('/srv/api-old', '/srv/api')).toBe(false);
+    expect(isWithinRoot('/srv/api/../web', '/srv/api')).toBe(false);
+    expect(isWithinRoot('/etc', '/srv/api')).toBe(false);
+  });
+});
+
+describe('createProjectRegistry', () => {
+  const registry = createProjectRegistry([
+    { id: 'api', path: '/srv/api' },
+    { id: 'web', path: '/srv/web', name: 'Website' },
+  ]);
+
+  test('lists projects with default names', () => {
+    expect(registry.list()).toEqual([
+      { id: 'api', name: 'api', path: '/srv/api' },
+      { id: 'web', name: 'Website', path: '/srv/web' },
+    ]);
+  });
+
+  test('falls back to the first project without an ID', () => {
+    expect(registry.get()?.id).toBe('api');
+    expect(registry.get('web')?.path).toBe('/srv/web');
+    expect(registry.get('missing')).toBeUndefined();
+  });
+
+  test('finds the project that holds a path', () => {
+    expect(registry.findByPath('/srv/web/src')?.id).toBe('web');
+    expect(registry.contains('/srv/api')).toBe(true);
+    expect(registry.contains('/home/someone')).toBe(false);
+  });
+
+  test('prefers the most specific root for nested projects', () => {
+    const nested = createProjectRegistry([
+      { id: 'mono', path: '/srv/mono' },
+      { id: 'app', path: '/srv/mono/apps/app' },
+    ]);
+    expect(nested.findByPath('/srv/mono/apps/app/src')?.id).toBe('app');
+    expect(nested.findByPath('/srv/mono/libs')?.id).toBe('mono');
+  });
+
+  test('rejects empty and duplicate registrations', () => {
+    expect(() => createProjectRegistry([])).toThrow();
+    expect(() =>
+      createProjectRegistry([
+        { id: 'api', path: '/a' },
+        { id: 'api', path: '/b' },
+      ])
+    ).toThrow('Duplicate project ID: api');
+  });
+});
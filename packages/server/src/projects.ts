@@ -0,0 +1,96 @@
+/**
+ * Project Registry
+ *
+ * The directories one server may run Claude in. Clients pick a project by
+ * ID; sessions remember the path they were started in. Anything that
+ * resolves outside the registered roots is refused, so a stale or forged
+ * path can't point the CLI at the rest of the machine.
+ */
+
+import { basename, isAbsolute, relative, resolve } from 'node:path';
+import type { ProjectConfig, ProjectInfo } from './types';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface ProjectRegistry {
+  /** Projects for `project_list`, in registration order */
+  list: () => ProjectInfo[];
+
+  /**
+   * Find a project by ID. Without an ID, returns the default (first) project.
+   * Returns undefined for unknown IDs.
+   */
+  get: (projectId?: string) => ProjectInfo | undefined;
+
+  /** Whether a path is one of the project roots or inside one */
+  contains: (path: string) => boolean;
+
+  /** The project whose root holds a path (undefined if none does) */
+  findByPath: (path: string) => ProjectInfo | undefined;
+}
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+/**
+ * Whether `path` is `root` or somewhere beneath it.
+ */
+export function isWithinRoot(path: string, root: string): boolean {
+  const rel = relative(resolve(root), resolve(path));
+  return rel === '' || (!rel.startsWith('..') && !isAbsolute(rel));
+}
+
+// =============================================================================
+// Registry Factory
+// =============================================================================
+
+/**
+ * Create a registry from the configured projects.
+ * Throws on an empty list or duplicate IDs.
+ */
+export function createProjectRegistry(projects: ProjectConfig[]): ProjectRegistry {
+  if (projects.length === 0) {
+    throw new Error('At least one project must be registered');
+  }
+
+  const byId = new Map<string, ProjectInfo>();
+  for (const project of projects) {
+    if (byId.has(project.id)) {
+      throw new Error(`Duplicate project ID: ${project.id}`);
+    }
+    const path = resolve(project.path);
+    byId.set(project.id, {
+      id: project.id,
+      name: project.name ?? basename(path),
+      path,
+    });
+  }
+
+  const all = [...byId.values()];
+
+  function findByPath(path: string): ProjectInfo | undefined {
+    // Prefer the most specific root when projects are nested
+    return all
+      .filter((p) => isWithinRoot(path, p.path))
+      .sort((a, b) => b.path.length - a.path.length)[0];
+  }
+
+  return {
+    list() {
+      return all.map((p) => ({ ...p }));
+    },
+
+    get(projectId) {
+      return projectId === undefined ? all[0] : byId.get(projectId);
+    },
+
+    contains(path) {
+      return findByPath(path) !== undefined;
+    },
+
+    findByPath,
+  };
+}
@@ -0,0 +1,78 @@
+/**
+ * Tests for the AskUserQuestion round-trip.
+ */
+
+import { describe, expect, test } from 'bun:test';
+import { parseQuestion, formatQuestionAnswers } from './questions';
+
+const input = {
+  questions: [
+    {
+      question: 'Which database?',
+      header: 'Database',
+      options: [{ label: 'SQLite', description: 'Embedded' }, { label: 'Postgres' }],
+      multiSelect: false,
+    },
+    {
+      question: 'Which features?',
+      options: [{ label: 'Auth' }, { label: 'Uploads' }],
+      multiSelect: true,
+    },
+  ],
+};
+
+// =============================================================================
+// Parsing Tests
+// =============================================================================
+
+describe('parseQuestion', () => {
+  test('reads questions and options from the tool input', () => {
+    const question = parseQuestion('ask-1', input);
+
+    expect(question?.id).toBe('ask-1');
+    expect(question?.questions[0]).toEqual({
+      question: 'Which database?',
+      header: 'Database',
+      options: [{ label: 'SQLite', description: 'Embedded' }, { label: 'Postgres', description: undefined }],
+      multiSelect: false,
+    });
+    expect(question?.questions[1].multiSelect).toBe(true);
+  });
+
+  test('ignores inputs without questions', () => {
+    expect(parseQuestion('ask-1', {})).toBeUndefined();
+    expect(parseQuestion('ask-1', { questions: [{ header: 'no text' }] })).toBeUndefined();
+  });
+});
+
+// =============================================================================
+// Answer Tests
+// =============================================================================
+
+describe('formatQuestionAnswers', () => {
+  const question = parseQuestion('ask-1', input)!;
+
+  test('lists each question with its answer', () => {
+    const text = formatQuestionAnswers(question, {
+      'Which database?': 'SQLite',
+      'Which features?': ['Auth', 'Uploads'],
+    });
+
+    expect(text).toBe(
+      'Answers to your questions:\n- Which database?\n  SQLite\n- Which features?\n  Auth, Uploads'
+    );
+  });
+
+  test('rejects missing and unknown answers', () => {
+    expect(() => formatQuestionAnswers(question, { 'Which database?': 'SQLite' })).toThrow(
+      'Missing answer: Which features?'
+    );
+    expect(() =>
+      formatQuestionAnswers(question, {
+        'Which database?': 'SQLite',
+        'Which features?': 'Auth',
+        'Something else?': 'x',
+      })
+    ).toThrow('Unknown question: Something else?');
+  });
+});
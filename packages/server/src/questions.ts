@@ -0,0 +1,83 @@
+/**
+ * AskUserQuestion Round-trip
+ *
+ * In `--print` mode nobody can answer Claude's AskUserQuestion tool, so the
+ * call dead-ends. The server instead sends the questions to clients as a
+ * `question` action; a client's `answer` becomes the session's next prompt
+ * (written to stdin in persistent mode).
+ */
+
+import type { QuestionData, QuestionItem } from './types';
+
+/** Tool name Claude uses to ask the user something */
+export const ASK_USER_QUESTION_TOOL = 'AskUserQuestion';
+
+// =============================================================================
+// Parsing
+// =============================================================================
+
+/**
+ * Build a question from an AskUserQuestion tool call's input.
+ * Returns undefined if the input has no usable questions.
+ */
+export function parseQuestion(
+  toolUseId: string,
+  input: Record<string, unknown> | undefined
+): QuestionData | undefined {
+  if (!Array.isArray(input?.questions)) return undefined;
+
+  const questions: QuestionItem[] = [];
+  for (const raw of input.questions as Array<Record<string, unknown>>) {
+    if (typeof raw?.question !== 'string') continue;
+
+    const options = Array.isArray(raw.options)
+      ? (raw.options as Array<Record<string, unknown>>)
+          .filter((o) => typeof o?.label === 'string')
+          .map((o) => ({
+            label: o.label as string,
+            description: typeof o.description === 'string' ? o.description : undefined,
+          }))
+      : [];
+
+    questions.push({
+      question: raw.question,
+      header: typeof raw.header === 'string' ? raw.header : undefined,
+      options,
+      multiSelect: raw.multiSelect === true,
+    });
+  }
+
+  if (questions.length === 0) return undefined;
+  return { id: toolUseId, questions, timestamp: Date.now() };
+}
+
+// =============================================================================
+// Answers
+// =============================================================================
+
+/**
+ * Turn a client's answers into the prompt sent back to Claude.
+ * `answers` maps each question's text to the chosen label(s) or free text.
+ * Throws if a question is unanswered or an answer names an unknown question.
+ */
+export function formatQuestionAnswers(
+  question: QuestionData,
+  answers: Record<string, string | string[]>
+): string {
+  const known = new Set(question.questions.map((q) => q.question));
+  const unknown = Object.keys(answers).find((key) => !known.has(key));
+  if (unknown !== undefined) {
+    throw new Error(`Unknown question: ${unknown}`);
+  }
+
+  const lines = question.questions.map((q) => {
+    const answer = answers[q.question];
+    const text = Array.isArray(answer) ? answer.join(', ') : answer;
+    if (typeof text !== 'string' || !text.trim()) {
+      throw new Error(`Missing answer: ${q.question}`);
+    }
+    return `- ${q.question}\n  ${text.trim()}`;
+  });
+
+  return `Answers to your questions:\n${lines.join('\n')}`;
+}
@@ -0,0 +1,67 @@
+/**
+ * Tests for the per-session message queue.
+ */
+
+import { describe, expect, test } from 'bun:test';
+import { createMessageQueue } from './queue';
+
+function contents(queue: ReturnType<typeof createMessageQueue<string>>, sessionId: string) {
+  return queue.list(sessionId).map((m) => m.content);
+}
+
+describe('createMessageQueue', () => {
+  test('enqueues in FIFO order with 1-based positions', () => {
+    const queue = createMessageQueue<string>();
+
+    expect(queue.enqueue('s1', 'first', 'ws-a').position).toBe(1);
+    expect(queue.enqueue('s1', 'second', 'ws-b').position).toBe(2);
+    expect(queue.enqueue('s2', 'other', 'ws-a').position).toBe(1);
+
+    const next = queue.shift('s1');
+    expect(next?.message.content).toBe('first');
+    expect(next?.context).toBe('ws-a');
+    expect(contents(queue, 's1')).toEqual(['second']);
+    expect(contents(queue, 's2')).toEqual(['other']);
+  });
+
+  test('shift on an empty queue returns undefined', () => {
+    const queue = createMessageQueue<string>();
+    expect(queue.shift('s1')).toBeUndefined();
+    expect(queue.list('s1')).toEqual([]);
+  });
+
+  test('removes queued prompts by ID', () => {
+    const queue = createMessageQueue<string>();
+    const { message } = queue.enqueue('s1', 'drop me', 'ws');
+    queue.enqueue('s1', 'keep me', 'ws');
+
+    expect(queue.remove('s1', message.id)).toEqual({ message, context: 'ws' });
+    expect(queue.remove('s1', message.id)).toBeUndefined();
+    expect(contents(queue, 's1')).toEqual(['keep me']);
+  });
+
+  test('moves prompts and clamps the position', () => {
+    const queue = createMessageQueue<string>();
+    queue.enqueue('s1', 'a', 'ws');
+    queue.enqueue('s1', 'b', 'ws');
+    const { message } = queue.enqueue('s1', 'c', 'ws');
+
+    expect(queue.move('s1', message.id, 1)).toBe(true);
+    expect(contents(queue, 's1')).toEqual(['c', 'a', 'b']);
+
+    expect(queue.move('s1', message.id, 99)).toBe(true);
+    expect(contents(queue, 's1')).toEqual(['a', 'b', 'c']);
+
+    expect(queue.move('s1', 'queued-unknown', 1)).toBe(false);
+  });
+
+  test('renames a queue when the real session ID arrives', () => {
+    const queue = createMessageQueue<string>();
+    queue.enqueue('new-123', 'follow-up', 'ws');
+
+    queue.rename('new-123', 'real-session');
+
+    expect(queue.list('new-123')).toEqual([]);
+    expect(contents(queue, 'real-session')).toEqual(['follow-up']);
+  });
+});
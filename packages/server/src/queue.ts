@@ -0,0 +1,128 @@
+/**
+ * Message Queue
+ *
+ * Per-session FIFO of prompts sent while Claude is still working on an
+ * earlier one. Each entry carries a context value (the sending socket) so
+ * the server can run it later on the sender's behalf.
+ */
+
+import type { AttachmentInfo, QueuedMessage } from './types';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface QueueEntry<T> {
+  message: QueuedMessage;
+  context: T;
+}
+
+export interface MessageQueue<T> {
+  /** Add a prompt to the end of a session's queue. Position is 1-based. */
+  enqueue: (
+    sessionId: string,
+    content: string,
+    context: T,
+    attachments?: AttachmentInfo[]
+  ) => { message: QueuedMessage; position: number };
+
+  /** Take the next prompt off a session's queue */
+  shift: (sessionId: string) => QueueEntry<T> | undefined;
+
+  /** Drop a queued prompt. Returns it, or undefined if it isn't queued. */
+  remove: (sessionId: string, queueId: string) => QueueEntry<T> | undefined;
+
+  /** Move a queued prompt to a 1-based position (clamped to the queue). */
+  move: (sessionId: string, queueId: string, position: number) => boolean;
+
+  /** A session's queued prompts, next first */
+  list: (sessionId: string) => QueuedMessage[];
+
+  /** Re-key a queue once a new session learns its real ID */
+  rename: (fromSessionId: string, toSessionId: string) => void;
+}
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+/**
+ * Generate a unique queue entry ID.
+ */
+function generateQueueId(): string {
+  return `queued-${Date.now()}-${Math.random().toString(36).substring(2, 8)}`;
+}
+
+// =============================================================================
+// Queue Factory
+// =============================================================================
+
+/**
+ * Create an in-memory message queue.
+ */
+export function createMessageQueue<T>(): MessageQueue<T> {
+  const queues = new Map<string, QueueEntry<T>[]>();
+
+  function entries(sessionId: string): QueueEntry<T>[] {
+    return queues.get(sessionId) ?? [];
+  }
+
+  function save(sessionId: string, list: QueueEntry<T>[]): void {
+    if (list.length > 0) {
+      queues.set(sessionId, list);
+    } else {
+      queues.delete(sessionId);
+    }
+  }
+
+  return {
+    enqueue(sessionId, content, context, attachments) {
+      const message: QueuedMessage = {
+        id: generateQueueId(),
+        content,
+        queuedAt: Date.now(),
+        ...(attachments?.length ? { attachments } : {}),
+      };
+      const list = [...entries(sessionId), { message, context }];
+      save(sessionId, list);
+      return { message, position: list.length };
+    },
+
+    shift(sessionId) {
+      const [next, ...rest] = entries(sessionId);
+      save(sessionId, rest);
+      return next;
+    },
+
+    remove(sessionId, queueId) {
+      const list = entries(sessionId);
+      const removed = list.find((e) => e.message.id === queueId);
+      if (!removed) return undefined;
+      save(sessionId, list.filter((e) => e !== removed));
+      return removed;
+    },
+
+    move(sessionId, queueId, position) {
+      const list = [...entries(sessionId)];
+      const index = list.findIndex((e) => e.message.id === queueId);
+      if (index < 0) return false;
+
+      const [entry] = list.splice(index, 1);
+      const target = Math.min(Math.max(Math.floor(position) - 1, 0), list.length);
+      list.splice(target, 0, entry);
+      save(sessionId, list);
+      return true;
+    },
+
+    list(sessionId) {
+      return entries(sessionId).map((e) => e.message);
+    },
+
+    rename(fromSessionId, toSessionId) {
+      const list = queues.get(fromSessionId);
+      if (!list) return;
+      queues.delete(fromSessionId);
+      save(toSessionId, [...entries(toSessionId), ...list]);
+    },
+  };
+}
@@ -0,0 +1,262 @@
+/**
+ * Tests for CLI recordings and replaying them through the stream parser.
+ */
+
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test';
+import { mkdtempSync, readdirSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import type { StreamCallbacks } from './claude';
+import { createRecordingPath, teeToRecording } from './recordings';
+import {
+  createTestServer,
+  parseFakeScript,
+  replayRecording,
+  textReply,
+  type FakeClaudeStep,
+} from './testing';
+import type { ChatPayload, SystemPayload } from './types';
+
+const FIXTURES = join(import.meta.dir, 'testing', 'fixtures');
+
+let dir: string;
+
+beforeEach(() => {
+  dir = mkdtempSync(join(tmpdir(), 'cc-chat-recordings-'));
+});
+
+afterEach(() => {
+  rmSync(dir, { recursive: true, force: true });
+});
+
+function streamOf(chunks: string[]): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  return new ReadableStream({
+    start(controller) {
+      chunks.forEach((chunk) => controller.enqueue(encoder.encode(chunk)));
+      controller.close();
+    },
+  });
+}
+
+/**
+ * The steps of a recording once it has been written (it ends with the exit).
+ */
+async function readRecording(path: string): Promise<FakeClaudeStep[]> {
+  for (let attempt = 0; attempt < 100; attempt++) {
+    const steps = parseFakeScript(await Bun.file(path).text().catch(() => ''));
+    if (steps.some((step) => 'exit' in step)) return steps;
+    await Bun.sleep(20);
+  }
+  throw new Error(`Recording ${path} was never finished`);
+}
+
+function createReplayCallbacks(): StreamCallbacks & { text: string[]; events: string[] } {
+  const text: string[] = [];
+  const events: string[] = [];
+  return {
+    text,
+    events,
+    onInit: (sessionId) => events.push(`init:${sessionId}`),
+    onText: (chunk) => text.push(chunk),
+    onThinkingDelta: () => {},
+    onToolStart: (tool) => events.push(`tool_start:${tool.name}`),
+    onToolEnd: (tool) => events.push(`tool_end:${tool.name}`),
+    onToolOutput: () => {},
+    onTodoUpdate: () => {},
+    onQuestion: () => {},
+    onThinking: () => {},
+    onComplete: (result) => events.push(`complete:${result}`),
+    onError: (error) => events.push(`error:${error}`),
+  };
+}
+
+// =============================================================================
+// createRecordingPath Tests
+// =============================================================================
+
+describe('createRecordingPath', () => {
+  test('names a new file per call, labelled by session', () => {
+    const first = createRecordingPath(dir, 'abc/123');
+    const second = createRecordingPath(dir, 'abc/123');
+
+    expect(first).not.toBe(second);
+    expect(first.startsWith(dir)).toBe(true);
+    expect(first.endsWith('-abc_123.jsonl')).toBe(true);
+    expect(createRecordingPath(dir).endsWith('-new.jsonl')).toBe(true);
+  });
+});
+
+// =============================================================================
+// teeToRecording Tests
+// =============================================================================
+
+describe('teeToRecording', () => {
+  test('records events, raw lines, stderr and the exit code', async () => {
+    const path = join(dir, 'nested', 'turn.jsonl');
+    const stdout = streamOf([
+      '{"type":"system","subtype":"init","session_id":"s1"}\n',
+      'not json\n{"type":"result","subt',
+      'ype":"success","result":"Done"}',
+    ]);
+    const stderr = streamOf(['warning: slow\n']);
+
+    const streams = teeToRecording(path, stdout, stderr, Promise.resolve(3));
+    const [stdoutText, stderrText] = await Promise.all([
+      new Response(streams.stdout).text(),
+      new Response(streams.stderr).text(),
+    ]);
+
+    // The caller still reads everything
+    expect(stdoutText).toContain('not json');
+    expect(stderrText).toBe('warning: slow\n');
+
+    const steps = (await readRecording(path)).filter((step) => !('sleep' in step));
+    expect(steps).toContainEqual({ type: 'system', subtype: 'init', session_id: 's1' });
+    expect(steps).toContainEqual({ stdout: 'not json' });
+    expect(steps).toContainEqual({ type: 'result', subtype: 'success', result: 'Done' });
+    expect(steps).toContainEqual({ stderr: 'warning: slow' });
+    expect(steps[steps.length - 1]).toEqual({ exit: 3 });
+  });
+  test('starts a new file for each turn after the first', async () => {
+    const stdout = streamOf([
+      '{"type":"system","subtype":"init","session_id":"s1"}\n',
+      '{"type":"result","subtype":"success","result":"One"}\n',
+      '{"type":"system","subtype":"init","session_id":"s1"}\n',
+      '{"type":"result","subtype":"success","result":"Two"}\n',
+    ]);
+    const sessions: Array<string | undefined> = [];
+    const nextTurnPath = (sessionId: string | undefined) => {
+      sessions.push(sessionId);
+      return join(dir, 'second.jsonl');
+    };
+
+    const streams = teeToRecording(
+      join(dir, 'first.jsonl'),
+      stdout,
+      streamOf([]),
+      Promise.resolve(0),
+      nextTurnPath
+    );
+    await new Response(streams.stdout).text();
+
+    const second = (await readRecording(join(dir, 'second.jsonl'))).filter(
+      (step) => !('sleep' in step)
+    );
+    const first = parseFakeScript(await Bun.file(join(dir, 'first.jsonl')).text()).filter(
+      (step) => !('sleep' in step)
+    );
+    expect(sessions).toEqual(['s1']);
+    expect(first.map((step) => (step as { type?: string }).type)).toEqual(['system', 'result']);
+    expect(second).toEqual([
+      { type: 'system', subtype: 'init', session_id: 's1' },
+      { type: 'result', subtype: 'success', result: 'Two' },
+      { exit: 0 },
+    ]);
+  });
+});
+
+// =============================================================================
+// Replay Tests
+// =============================================================================
+
+describe('replayRecording', () => {
+  test('feeds a recording through the stream parser', async () => {
+    const callbacks = createReplayCallbacks();
+    const { exitCode, error } = await replayRecording(
+      join(FIXTURES, 'recorded-turn.jsonl'),
+      callbacks
+    );
+
+    expect(exitCode).toBe(0);
+    expect(error).toBeUndefined();
+    expect(callbacks.text.join('')).toBe('Hello again');
+    expect(callbacks.events).toEqual(['init:recorded-session', 'complete:Hello again']);
+  });
+
+  test('keeps the recorded timing at speed 1', async () => {
+    const started = Date.now();
+    await replayRecording(join(FIXTURES, 'recorded-turn.jsonl'), createReplayCallbacks(), {
+      speed: 1,
+    });
+
+    // The fixture pauses for 160ms in total
+    expect(Date.now() - started).toBeGreaterThanOrEqual(150);
+  });
+
+  test('reports the error of a failed run', async () => {
+    const { exitCode, error } = await replayRecording(
+      join(FIXTURES, 'cli-error.jsonl'),
+      createReplayCallbacks()
+    );
+
+    expect(exitCode).toBe(1);
+    expect(error).toBe('API usage limit reached');
+  });
+
+  test('replays what a server recorded', async () => {
+    const recordingsDir = join(dir, 'recordings');
+    const server = createTestServer({ recordingsDir });
+    try {
+      server.scriptFile(join(FIXTURES, 'read-file.jsonl'));
+      const client = await server.connect();
+      client.chat({ action: 'send', content: 'Read the README', newSessionId: 'new-1' });
+      await client.waitFor('complete');
+
+      const [name] = readdirSync(recordingsDir);
+      const path = join(recordingsDir, name);
+      await readRecording(path);
+
+      const callbacks = createReplayCallbacks();
+      await replayRecording(path, callbacks);
+
+      const live = client.messages
+        .map((m) => (m.payload as ChatPayload).action)
+        .filter((action) => action === 'tool_start' || action === 'tool_end');
+      expect(callbacks.events.filter((e) => e.startsWith('tool_'))).toEqual(
+        live.map((action) => `${action}:Read`)
+      );
+    } finally {
+      server.stop();
+    }
+  });
+
+  test('records each turn of a persistent process to its own file', async () => {
+    const recordingsDir = join(dir, 'recordings');
+    const server = createTestServer({ recordingsDir, processMode: 'persistent' });
+    let sessionId: string | undefined;
+    try {
+      server.script(textReply('One'));
+      server.script(textReply('Two'));
+      const client = await server.connect();
+      client.chat({ action: 'send', content: 'First', newSessionId: 'new-1' });
+      const started = await client.waitFor('session_started');
+      await client.waitFor('complete');
+      sessionId = (started.payload as SystemPayload).sessionId;
+      client.chat({ action: 'send', content: 'Second' }, sessionId);
+      const completes = () =>
+        client.messages.filter((m) => (m.payload as ChatPayload).action === 'complete').length;
+      await client.waitFor(() => completes() === 2);
+    } finally {
+      // The last turn's file ends when the process does
+      server.stop();
+    }
+
+    const names = readdirSync(recordingsDir);
+    expect(names).toHaveLength(2);
+    // The second turn's file is named by the session the CLI reported
+    const second = names.find((name) => name.endsWith(`-${sessionId}.jsonl`))!;
+    const first = names.find((name) => name !== second)!;
+    await readRecording(join(recordingsDir, second));
+
+    // Each file replays as one turn
+    const replies: string[] = [];
+    for (const name of [first, second]) {
+      const callbacks = createReplayCallbacks();
+      await replayRecording(join(recordingsDir, name), callbacks, { speed: Infinity });
+      expect(callbacks.events.filter((e) => e.startsWith('complete:'))).toHaveLength(1);
+      replies.push(callbacks.text.join(''));
+    }
+    expect(replies).toEqual(['One', 'Two']);
+  });
+});
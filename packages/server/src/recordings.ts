@@ -0,0 +1,191 @@
+/**
+ * CLI Recordings
+ *
+ * Tees a Claude CLI process's raw stdout and stderr into a JSONL recording,
+ * so a change in the stream-json format can be captured from a real session
+ * and replayed (spawnClaude's `replay` option) or added to the test suite as
+ * a fake CLI fixture - a recording is a fake CLI script: events, pauses
+ * between them, stderr lines and the exit code.
+ *
+ * A recording covers one process. A persistent process can instead be
+ * recorded one turn per file: a new file starts with the first output after
+ * each `result`, and whatever follows the last result (e.g. the exit code)
+ * stays with the last turn.
+ */
+
+import { mkdir } from 'node:fs/promises';
+import { join } from 'node:path';
+
+// Gaps shorter than this aren't recorded (they add up until one is)
+const MIN_RECORDED_DELAY_MS = 5;
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * A stream-json event, printed to stdout as one line.
+ */
+export interface RecordingEvent {
+  type: string;
+  [key: string]: unknown;
+}
+
+/**
+ * One line of a recording (and of a fake CLI script).
+ */
+export type RecordingStep =
+  | RecordingEvent
+  /** Write a raw line to stdout (output that isn't an event) */
+  | { stdout: string }
+  /** Pause for this many ms */
+  | { sleep: number }
+  /** Write a line to stderr */
+  | { stderr: string }
+  /** Exit now with this code (a script that runs out exits with 0) */
+  | { exit: number }
+  /** Wait until killed, e.g. to test cancel */
+  | { hang: true };
+
+// =============================================================================
+// Paths
+// =============================================================================
+
+let recordingCount = 0;
+
+/**
+ * A new recording file in `dir`, named by start time and session.
+ */
+export function createRecordingPath(dir: string, sessionId?: string): string {
+  const label = (sessionId ?? 'new').replace(/[^\w-]/g, '_');
+  return join(dir, `${Date.now()}-${++recordingCount}-${label}.jsonl`);
+}
+
+// =============================================================================
+// Recording
+// =============================================================================
+
+/**
+ * Call `onLine` for each line of a stream (the last one may lack a newline).
+ */
+async function readLines(
+  stream: ReadableStream<Uint8Array>,
+  onLine: (line: string) => void
+): Promise<void> {
+  const reader = stream.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+    const lines = buffer.split('\n');
+    buffer = lines.pop() ?? '';
+    lines.forEach(onLine);
+  }
+
+  buffer += decoder.decode();
+  if (buffer) onLine(buffer);
+}
+
+/**
+ * A stdout line as a step: the event if it is one, otherwise the raw text.
+ */
+function toStdoutStep(line: string): RecordingStep {
+  try {
+    const event = JSON.parse(line) as RecordingStep;
+    if (typeof event === 'object' && event !== null && typeof (event as { type?: unknown }).type === 'string') {
+      return event;
+    }
+  } catch {
+    // Not JSON - keep it as is
+  }
+  return { stdout: line };
+}
+
+/**
+ * Path for the recording of the next turn, given the session ID seen so far.
+ */
+export type NextTurnPath = (sessionId: string | undefined) => string;
+
+/**
+ * Write a process's output to a recording as it arrives. With `nextTurnPath`,
+ * each turn after the first goes to a new file.
+ */
+async function writeRecording(
+  path: string,
+  stdout: ReadableStream<Uint8Array>,
+  stderr: ReadableStream<Uint8Array>,
+  exited: Promise<number>,
+  nextTurnPath?: NextTurnPath
+): Promise<void> {
+  await mkdir(join(path, '..'), { recursive: true });
+  let writer = Bun.file(path).writer();
+  let last = Date.now();
+  let sessionId: string | undefined;
+  let turnEnded = false;
+  const finished: Array<number | Promise<number>> = [];
+
+  const write = (step: RecordingStep) => {
+    const now = Date.now();
+    if (now - last >= MIN_RECORDED_DELAY_MS) {
+      writer.write(JSON.stringify({ sleep: now - last }) + '\n');
+      last = now;
+    }
+    writer.write(JSON.stringify(step) + '\n');
+  };
+
+  const writeStdout = (line: string) => {
+    const step = toStdoutStep(line);
+    if (turnEnded && nextTurnPath) {
+      // The time between turns is the user's, not the CLI's
+      finished.push(writer.end());
+      writer = Bun.file(nextTurnPath(sessionId)).writer();
+      last = Date.now();
+    }
+    write(step);
+
+    // Later turns' files are named by the session the CLI reported
+    const event = step as { type?: unknown; subtype?: unknown; session_id?: unknown };
+    if (event.subtype === 'init' && typeof event.session_id === 'string') {
+      sessionId = event.session_id;
+    }
+    turnEnded = event.type === 'result';
+  };
+
+  await Promise.all([
+    readLines(stdout, writeStdout),
+    readLines(stderr, (line) => write({ stderr: line })),
+  ]);
+  write({ exit: await exited });
+  await Promise.all([...finished, writer.end()]);
+}
+
+/**
+ * Record a process's stdout and stderr to `path`, or only its first turn if
+ * `nextTurnPath` names files for the rest. Returns copies of both streams
+ * for the caller to read in their place.
+ */
+export function teeToRecording(
+  path: string,
+  stdout: ReadableStream<Uint8Array>,
+  stderr: ReadableStream<Uint8Array>,
+  exited: Promise<number>,
+  nextTurnPath?: NextTurnPath
+): { stdout: ReadableStream<Uint8Array>; stderr: ReadableStream<Uint8Array> } {
+  const [stdoutForCaller, stdoutForRecording] = stdout.tee();
+  const [stderrForCaller, stderrForRecording] = stderr.tee();
+
+  writeRecording(
+    path,
+    stdoutForRecording,
+    stderrForRecording,
+    exited,
+    nextTurnPath
+  ).catch((error) => {
+    console.error(`[Claude] Failed to record CLI output to ${path}:`, error);
+  });
+
+  return { stdout: stdoutForCaller, stderr: stderrForCaller };
+}
@@ -0,0 +1,194 @@
+/**
+ * Tests for the SQLite session store.
+ */
+
+import { describe, expect, test, afterEach } from 'bun:test';
+import { rmSync, mkdtempSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { createSqliteSessionStore, type SessionStore } from './store';
+import type { ChatState, WebSocketMessage } from './types';
+
+function tokenEvent(seq: number, content: string): WebSocketMessage {
+  return {
+    type: 'chat',
+    sessionSeq: seq,
+    timestamp: 1000 + seq,
+    sessionId: 'session-1',
+    payload: { action: 'token', content },
+  };
+}
+
+// =============================================================================
+// Event Tests
+// =============================================================================
+
+describe('SQLite session store events', () => {
+  let store: SessionStore;
+
+  afterEach(() => {
+    store.close();
+  });
+
+  test('returns events after a sequence number in order', () => {
+    store = createSqliteSessionStore(':memory:');
+    store.appendEvent('session-1', tokenEvent(1, 'a'));
+    store.appendEvent('session-1', tokenEvent(2, 'b'));
+    store.appendEvent('session-1', tokenEvent(3, 'c'));
+    store.appendEvent('session-2', tokenEvent(1, 'x'));
+
+    const events = store.getEventsSince('session-1', 1);
+    expect(events.map((e) => e.sessionSeq)).toEqual([2, 3]);
+    expect(events[0].payload).toEqual({ action: 'token', content: 'b' });
+  });
+
+  test('limits catch-up results', () => {
+    store = createSqliteSessionStore(':memory:');
+    for (let i = 1; i <= 5; i++) {
+      store.appendEvent('session-1', tokenEvent(i, String(i)));
+    }
+
+    expect(store.getEventsSince('session-1', 0, 2).map((e) => e.sessionSeq)).toEqual([1, 2]);
+  });
+
+  test('writes appended events in batches', async () => {
+    const dir = mkdtempSync(join(tmpdir(), 'cc-chat-store-'));
+    const path = join(dir, 'sessions.db');
+    const reader = createSqliteSessionStore(path);
+
+    try {
+      store = createSqliteSessionStore(path);
+      store.appendEvent('session-1', tokenEvent(1, 'a'));
+      store.appendEvent('session-1', tokenEvent(2, 'b'));
+
+      // Not written yet, though this store's own reads see them
+      expect(reader.getEventsSince('session-1', 0)).toEqual([]);
+      expect(store.getLastSeq('session-1')).toBe(2);
+
+      store.appendEvent('session-1', tokenEvent(3, 'c'));
+      await Bun.sleep(100);
+      expect(reader.getEventsSince('session-1', 0).map((e) => e.sessionSeq)).toEqual([1, 2, 3]);
+    } finally {
+      reader.close();
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  test('deletes everything stored for a session', () => {
+    store = createSqliteSessionStore(':memory:');
+    store.appendEvent('new-1', tokenEvent(1, 'a'));
+    store.saveChatState('new-1', { status: 'streaming', accumulatedContent: '', tools: [], todos: [] });
+    store.saveToolResult('new-1', 'tool-1', 'output');
+    store.appendEvent('session-1', tokenEvent(1, 'b'));
+
+    store.deleteSession('new-1');
+
+    expect(store.getSession('new-1')).toBeUndefined();
+    expect(store.getEventsSince('new-1', 0)).toEqual([]);
+    expect(store.getChatState('new-1')).toBeUndefined();
+    expect(store.getToolResult('new-1', 'tool-1')).toBeUndefined();
+    expect(store.getLastSeq('session-1')).toBe(1);
+  });
+
+  test('tracks last sequence per session', () => {
+    store = createSqliteSessionStore(':memory:');
+    expect(store.getLastSeq('session-1')).toBe(0);
+
+    store.appendEvent('session-1', tokenEvent(1, 'a'));
+    store.appendEvent('session-1', tokenEvent(2, 'b'));
+
+    expect(store.getLastSeq('session-1')).toBe(2);
+  });
+
+  test('prunes old events but keeps the sequence counter', () => {
+    store = createSqliteSessionStore(':memory:');
+    store.appendEvent('session-1', tokenEvent(1, 'a'));
+    store.appendEvent('session-1', tokenEvent(2, 'b'));
+
+    store.pruneEvents(1002);
+
+    expect(store.getEventsSince('session-1', 0).map((e) => e.sessionSeq)).toEqual([2]);
+    expect(store.getLastSeq('session-1')).toBe(2);
+  });
+
+  test('stores tool output by session and tool ID', () => {
+    store = createSqliteSessionStore(':memory:');
+    store.saveToolResult('session-1', 'tool-1', 'full output');
+
+    expect(store.getToolResult('session-1', 'tool-1')).toBe('full output');
+    expect(store.getToolResult('session-2', 'tool-1')).toBeUndefined();
+
+    store.pruneEvents(Date.now() + 1);
+    expect(store.getToolResult('session-1', 'tool-1')).toBeUndefined();
+  });
+});
+
+// =============================================================================
+// State and Metadata Tests
+// =============================================================================
+
+describe('SQLite session store state', () => {
+  let store: SessionStore;
+
+  afterEach(() => {
+    store.close();
+  });
+
+  test('round-trips chat state', () => {
+    store = createSqliteSessionStore(':memory:');
+    const state: ChatState = {
+      status: 'complete',
+      accumulatedContent: 'Hello',
+      tools: [{ id: 'tool-1', name: 'Read', summary: '3 lines' }],
+      todos: [{ content: 'Task', status: 'pending' }],
+    };
+
+    expect(store.getChatState('session-1')).toBeUndefined();
+    store.saveChatState('session-1', state);
+    expect(store.getChatState('session-1')).toEqual(state);
+  });
+
+  test('keeps the first title and project path', () => {
+    store = createSqliteSessionStore(':memory:');
+    store.saveSession('session-1', { title: 'Fix the bug', projectPath: '/repo' });
+    store.saveSession('session-1', {});
+
+    const session = store.getSession('session-1');
+    expect(session).toMatchObject({
+      sessionId: 'session-1',
+      title: 'Fix the bug',
+      projectPath: '/repo',
+      lastSeq: 0,
+    });
+    expect(session!.createdAt).toBeGreaterThan(0);
+  });
+
+  test('lists sessions by most recent activity', async () => {
+    store = createSqliteSessionStore(':memory:');
+    store.saveSession('older', { title: 'Older' });
+    await Bun.sleep(2);
+    store.saveSession('newer', { title: 'Newer' });
+
+    expect(store.listSessions().map((s) => s.sessionId)).toEqual(['newer', 'older']);
+  });
+
+  test('survives reopening the database', () => {
+    const dir = mkdtempSync(join(tmpdir(), 'cc-chat-store-'));
+    const path = join(dir, 'nested', 'sessions.db');
+
+    try {
+      store = createSqliteSessionStore(path);
+      store.appendEvent('session-1', tokenEvent(1, 'a'));
+      store.saveSession('session-1', { title: 'Persisted' });
+      store.close();
+
+      store = createSqliteSessionStore(path);
+      expect(store.getLastSeq('session-1')).toBe(1);
+      expect(store.getEventsSince('session-1', 0)).toHaveLength(1);
+      expect(store.getSession('session-1')?.title).toBe('Persisted');
+    } finally {
+      store.close();
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,352 @@
+/**
+ * Session Store
+ *
+ * Durable storage for broadcast events, chat state, sequence counters and
+ * session metadata, so catch-up and snapshots survive server restarts.
+ *
+ * The store is pluggable: anything implementing `SessionStore` works. The
+ * default implementation uses bun:sqlite (pass ':memory:' for an ephemeral
+ * database).
+ */
+
+import { Database } from 'bun:sqlite';
+import { mkdirSync } from 'node:fs';
+import { homedir } from 'node:os';
+import { dirname } from 'node:path';
+import type { ChatState, WebSocketMessage } from './types';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * Metadata kept for each session.
+ */
+export interface SessionRecord {
+  sessionId: string;
+  title?: string;
+  projectPath?: string;
+  createdAt: number;  // Unix timestamp ms
+  updatedAt: number;  // Unix timestamp ms
+  lastSeq: number;    // Highest sequence number broadcast
+}
+
+/**
+ * Fields a caller may set on a session.
+ */
+export type SessionUpdate = Partial<Pick<SessionRecord, 'title' | 'projectPath'>>;
+
+/**
+ * Storage backend for session state.
+ *
+ * Methods are synchronous because they sit on the broadcast hot path.
+ * Implementations may buffer `appendEvent` writes, as long as every other
+ * method sees them.
+ */
+export interface SessionStore {
+  /** Persist a broadcast chat event by its sessionSeq (also bumps the session's lastSeq) */
+  appendEvent: (sessionId: string, message: WebSocketMessage) => void;
+
+  /** Events with sessionSeq greater than `afterSeq`, oldest first */
+  getEventsSince: (
+    sessionId: string,
+    afterSeq: number,
+    limit?: number
+  ) => WebSocketMessage[];
+
+  /** Highest sequence number stored for a session (0 if unknown) */
+  getLastSeq: (sessionId: string) => number;
+
+  /** Latest chat state for a session */
+  getChatState: (sessionId: string) => ChatState | undefined;
+
+  /** Replace the chat state for a session */
+  saveChatState: (sessionId: string, state: ChatState) => void;
+
+  /** Session metadata */
+  getSession: (sessionId: string) => SessionRecord | undefined;
+
+  /** Create or update session metadata */
+  saveSession: (sessionId: string, update: SessionUpdate) => void;
+
+  /** Sessions ordered by most recent activity */
+  listSessions: (limit?: number) => SessionRecord[];
+
+  /** Store the full output of a tool call */
+  saveToolResult: (sessionId: string, toolId: string, content: string) => void;
+
+  /** Full output of a tool call */
+  getToolResult: (sessionId: string, toolId: string) => string | undefined;
+
+  /** Delete events and tool outputs older than a timestamp (metadata and state are kept) */
+  pruneEvents: (olderThan: number) => void;
+
+  /** Delete everything stored for a session (e.g. a new session's placeholder) */
+  deleteSession: (sessionId: string) => void;
+
+  /** Release resources */
+  close: () => void;
+}
+
+// =============================================================================
+// SQLite Implementation
+// =============================================================================
+
+/** Default database location */
+export const DEFAULT_SESSION_DB_PATH = `${homedir()}/.cc-chat/sessions.db`;
+
+/** How long appended events wait to be written together */
+const EVENT_FLUSH_MS = 50;
+
+interface SessionRow {
+  id: string;
+  title: string | null;
+  project_path: string | null;
+  created_at: number;
+  updated_at: number;
+  last_seq: number;
+}
+
+function rowToRecord(row: SessionRow): SessionRecord {
+  return {
+    sessionId: row.id,
+    title: row.title ?? undefined,
+    projectPath: row.project_path ?? undefined,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+    lastSeq: row.last_seq,
+  };
+}
+
+/**
+ * Create a session store backed by bun:sqlite.
+ */
+export function createSqliteSessionStore(
+  path: string = DEFAULT_SESSION_DB_PATH
+): SessionStore {
+  if (path !== ':memory:') {
+    mkdirSync(dirname(path), { recursive: true });
+  }
+
+  const db = new Database(path, { create: true });
+
+  db.exec('PRAGMA journal_mode = WAL');
+  db.exec('PRAGMA synchronous = NORMAL');
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS sessions (
+      id TEXT PRIMARY KEY,
+      title TEXT,
+      project_path TEXT,
+      created_at INTEGER NOT NULL,
+      updated_at INTEGER NOT NULL,
+      last_seq INTEGER NOT NULL DEFAULT 0,
+      chat_state TEXT
+    )
+  `);
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS events (
+      session_id TEXT NOT NULL,
+      seq INTEGER NOT NULL,
+      timestamp INTEGER NOT NULL,
+      message TEXT NOT NULL,
+      PRIMARY KEY (session_id, seq)
+    )
+  `);
+  db.exec('CREATE INDEX IF NOT EXISTS events_timestamp ON events (timestamp)');
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS tool_results (
+      session_id TEXT NOT NULL,
+      tool_id TEXT NOT NULL,
+      created_at INTEGER NOT NULL,
+      content TEXT NOT NULL,
+      PRIMARY KEY (session_id, tool_id)
+    )
+  `);
+
+  const touchSession = db.prepare(`
+    INSERT INTO sessions (id, created_at, updated_at, last_seq)
+    VALUES ($id, $now, $now, $seq)
+    ON CONFLICT (id) DO UPDATE SET
+      updated_at = $now,
+      last_seq = MAX(last_seq, $seq)
+  `);
+  const insertEvent = db.prepare(`
+    INSERT OR REPLACE INTO events (session_id, seq, timestamp, message)
+    VALUES ($sessionId, $seq, $timestamp, $message)
+  `);
+  const selectEvents = db.prepare(`
+    SELECT message FROM events
+    WHERE session_id = $sessionId AND seq > $afterSeq
+    ORDER BY seq ASC
+    LIMIT $limit
+  `);
+  const selectLastSeq = db.prepare('SELECT last_seq FROM sessions WHERE id = $id');
+  const selectChatState = db.prepare('SELECT chat_state FROM sessions WHERE id = $id');
+  const updateChatState = db.prepare(`
+    INSERT INTO sessions (id, created_at, updated_at, chat_state)
+    VALUES ($id, $now, $now, $state)
+    ON CONFLICT (id) DO UPDATE SET chat_state = $state, updated_at = $now
+  `);
+  const selectSession = db.prepare(`
+    SELECT id, title, project_path, created_at, updated_at, last_seq
+    FROM sessions WHERE id = $id
+  `);
+  const upsertSession = db.prepare(`
+    INSERT INTO sessions (id, title, project_path, created_at, updated_at)
+    VALUES ($id, $title, $projectPath, $now, $now)
+    ON CONFLICT (id) DO UPDATE SET
+      title = COALESCE($title, title),
+      project_path = COALESCE($projectPath, project_path),
+      updated_at = $now
+  `);
+  const selectSessions = db.prepare(`
+    SELECT id, title, project_path, created_at, updated_at, last_seq
+    FROM sessions ORDER BY updated_at DESC LIMIT $limit
+  `);
+  const deleteEvents = db.prepare('DELETE FROM events WHERE timestamp < $olderThan');
+  const insertToolResult = db.prepare(`
+    INSERT OR REPLACE INTO tool_results (session_id, tool_id, created_at, content)
+    VALUES ($sessionId, $toolId, $now, $content)
+  `);
+  const selectToolResult = db.prepare(`
+    SELECT content FROM tool_results WHERE session_id = $sessionId AND tool_id = $toolId
+  `);
+  const deleteToolResults = db.prepare('DELETE FROM tool_results WHERE created_at < $olderThan');
+  const deleteSessionRow = db.prepare('DELETE FROM sessions WHERE id = $id');
+  const deleteSessionEvents = db.prepare('DELETE FROM events WHERE session_id = $id');
+  const deleteSessionToolResults = db.prepare('DELETE FROM tool_results WHERE session_id = $id');
+
+  // Streamed tokens arrive many times a second; write them in batches
+  let pending: Array<{ sessionId: string; message: WebSocketMessage }> = [];
+  let flushTimer: ReturnType<typeof setTimeout> | null = null;
+
+  const writeEvents = db.transaction((events: typeof pending) => {
+    const now = Date.now();
+    for (const { sessionId, message } of events) {
+      const seq = message.sessionSeq ?? 0;
+      insertEvent.run({
+        $sessionId: sessionId,
+        $seq: seq,
+        $timestamp: message.timestamp,
+        $message: JSON.stringify(message),
+      });
+      touchSession.run({ $id: sessionId, $now: now, $seq: seq });
+    }
+  });
+
+  const deleteSession = db.transaction((sessionId: string) => {
+    deleteSessionEvents.run({ $id: sessionId });
+    deleteSessionToolResults.run({ $id: sessionId });
+    deleteSessionRow.run({ $id: sessionId });
+  });
+
+  /**
+   * Write buffered events, so reads and other writes see them.
+   */
+  function flush(): void {
+    if (flushTimer) {
+      clearTimeout(flushTimer);
+      flushTimer = null;
+    }
+    if (pending.length === 0) return;
+    const events = pending;
+    pending = [];
+    writeEvents(events);
+  }
+
+  return {
+    appendEvent(sessionId, message) {
+      pending.push({ sessionId, message });
+      if (!flushTimer) {
+        flushTimer = setTimeout(flush, EVENT_FLUSH_MS);
+      }
+    },
+
+    getEventsSince(sessionId, afterSeq, limit = -1) {
+      flush();
+      const rows = selectEvents.all({
+        $sessionId: sessionId,
+        $afterSeq: afterSeq,
+        $limit: limit,
+      }) as Array<{ message: string }>;
+      return rows.map((row) => JSON.parse(row.message) as WebSocketMessage);
+    },
+
+    getLastSeq(sessionId) {
+      flush();
+      const row = selectLastSeq.get({ $id: sessionId }) as { last_seq: number } | null;
+      return row?.last_seq ?? 0;
+    },
+
+    getChatState(sessionId) {
+      flush();
+      const row = selectChatState.get({ $id: sessionId }) as { chat_state: string | null } | null;
+      return row?.chat_state ? (JSON.parse(row.chat_state) as ChatState) : undefined;
+    },
+
+    saveChatState(sessionId, state) {
+      flush();
+      updateChatState.run({
+        $id: sessionId,
+        $now: Date.now(),
+        $state: JSON.stringify(state),
+      });
+    },
+
+    getSession(sessionId) {
+      flush();
+      const row = selectSession.get({ $id: sessionId }) as SessionRow | null;
+      return row ? rowToRecord(row) : undefined;
+    },
+
+    saveSession(sessionId, update) {
+      flush();
+      upsertSession.run({
+        $id: sessionId,
+        $title: update.title ?? null,
+        $projectPath: update.projectPath ?? null,
+        $now: Date.now(),
+      });
+    },
+
+    listSessions(limit = 100) {
+      flush();
+      const rows = selectSessions.all({ $limit: limit }) as SessionRow[];
+      return rows.map(rowToRecord);
+    },
+
+    saveToolResult(sessionId, toolId, content) {
+      flush();
+      insertToolResult.run({
+        $sessionId: sessionId,
+        $toolId: toolId,
+        $now: Date.now(),
+        $content: content,
+      });
+    },
+
+    getToolResult(sessionId, toolId) {
+      const row = selectToolResult.get({
+        $sessionId: sessionId,
+        $toolId: toolId,
+      }) as { content: string } | null;
+      return row?.content;
+    },
+
+    pruneEvents(olderThan) {
+      flush();
+      deleteEvents.run({ $olderThan: olderThan });
+      deleteToolResults.run({ $olderThan: olderThan });
+    },
+
+    deleteSession(sessionId) {
+      flush();
+      deleteSession(sessionId);
+    },
+
+    close() {
+      flush();
+      db.close();
+    },
+  };
+}
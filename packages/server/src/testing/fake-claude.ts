@@ -0,0 +1,277 @@
+#!/usr/bin/env bun
+/**
+ * Fake Claude CLI
+ *
+ * Stands in for `claude` in tests. Instead of calling the API it plays a
+ * script: a JSONL fixture of stream-json events to print, plus steps that
+ * pause, write to stderr, exit with a code or hang until killed.
+ *
+ * Scripts are queued as files in `$FAKE_CLAUDE_DIR/queue` (createTestServer
+ * does this); each run claims the oldest one. With `--input-format
+ * stream-json` every prompt on stdin plays the next script. With nothing
+ * queued it replies "OK". `--version` prints FAKE_CLAUDE_VERSION.
+ *
+ * `$FAKE_CLAUDE_SCRIPT` plays one file instead (a recording, see
+ * recordings.ts) - in persistent mode, one turn of it (up to each `result`)
+ * per prompt. `$FAKE_CLAUDE_SPEED` divides every pause (default 1;
+ * `Infinity` skips them).
+ *
+ * In events, `$SESSION_ID` becomes the session ID (the `--resume` argument,
+ * or a new UUID) and `$PROMPT` the prompt.
+ */
+
+import { appendFile, mkdir, readdir, rename } from 'node:fs/promises';
+import { join } from 'node:path';
+import type { RecordingEvent, RecordingStep } from '../recordings';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * A stream-json event, printed to stdout as one line.
+ */
+export type FakeClaudeEvent = RecordingEvent;
+
+/**
+ * One line of a fake CLI script (the same format as a recording).
+ */
+export type FakeClaudeStep = RecordingStep;
+
+/**
+ * A run of the fake CLI, logged to `$FAKE_CLAUDE_DIR/calls.jsonl`.
+ */
+export interface FakeClaudeCall {
+  args: string[];
+  prompt?: string;
+  sessionId: string;
+  /** Queued script file it played, or undefined for the default reply */
+  script?: string;
+}
+
+// Longest a `hang` step waits, so a test that never kills the CLI still ends
+const HANG_LIMIT_MS = 60_000;
+
+// What `--version` prints
+export const FAKE_CLAUDE_VERSION = '0.0.0 (Fake Claude)';
+
+// =============================================================================
+// Scripts
+// =============================================================================
+
+/**
+ * Parse a JSONL script. Blank lines are skipped.
+ */
+export function parseFakeScript(text: string): FakeClaudeStep[] {
+  return text
+    .split('\n')
+    .map((line) => line.trim())
+    .filter(Boolean)
+    .map((line) => JSON.parse(line) as FakeClaudeStep);
+}
+
+/**
+ * Serialize a script as JSONL.
+ */
+export function formatFakeScript(steps: FakeClaudeStep[]): string {
+  return steps.map((step) => JSON.stringify(step)).join('\n') + '\n';
+}
+
+/**
+ * A complete turn that answers with `text`.
+ */
+export function textReply(text: string): FakeClaudeStep[] {
+  return [
+    { type: 'system', subtype: 'init', session_id: '$SESSION_ID' },
+    {
+      type: 'stream_event',
+      event: { type: 'content_block_delta', delta: { type: 'text_delta', text } },
+    },
+    { type: 'result', subtype: 'success', is_error: false, result: text },
+  ];
+}
+
+/**
+ * Take the oldest queued script, or undefined if none is queued.
+ */
+async function claimScript(
+  dir: string
+): Promise<{ name: string; steps: FakeClaudeStep[] } | undefined> {
+  const queueDir = join(dir, 'queue');
+  const claimedDir = join(dir, 'claimed');
+  await mkdir(claimedDir, { recursive: true });
+
+  const names = (await readdir(queueDir).catch(() => [] as string[])).sort();
+  for (const name of names) {
+    const claimed = join(claimedDir, name);
+    try {
+      // Renaming is atomic, so two runs can't claim the same script
+      await rename(join(queueDir, name), claimed);
+    } catch {
+      continue;
+    }
+    return { name, steps: parseFakeScript(await Bun.file(claimed).text()) };
+  }
+  return undefined;
+}
+
+/**
+ * Play a script. Returns the exit code if it asked to exit.
+ */
+async function playScript(
+  steps: FakeClaudeStep[],
+  sessionId: string,
+  prompt: string,
+  speed: number
+): Promise<number | undefined> {
+  const escapedPrompt = JSON.stringify(prompt).slice(1, -1);
+
+  for (const step of steps) {
+    if ('sleep' in step && typeof step.sleep === 'number') {
+      await Bun.sleep(step.sleep / speed);
+    } else if ('stdout' in step && typeof step.stdout === 'string') {
+      await Bun.write(Bun.stdout, step.stdout + '\n');
+    } else if ('stderr' in step && typeof step.stderr === 'string') {
+      await Bun.write(Bun.stderr, step.stderr + '\n');
+    } else if ('exit' in step && typeof step.exit === 'number') {
+      return step.exit;
+    } else if ('hang' in step && step.hang === true) {
+      await Bun.sleep(HANG_LIMIT_MS);
+    } else {
+      const line = JSON.stringify(step)
+        .split('$SESSION_ID').join(sessionId)
+        .split('$PROMPT').join(escapedPrompt);
+      await Bun.write(Bun.stdout, line + '\n');
+    }
+  }
+  return undefined;
+}
+
+// =============================================================================
+// CLI
+// =============================================================================
+
+/**
+ * Split a script into turns, each ending after a `result` event. Steps
+ * after the last result (e.g. the exit code) go with the last turn.
+ */
+export function splitTurns(steps: FakeClaudeStep[]): FakeClaudeStep[][] {
+  const turns: FakeClaudeStep[][] = [[]];
+  for (const step of steps) {
+    turns[turns.length - 1].push(step);
+    if ((step as FakeClaudeEvent).type === 'result') {
+      turns.push([]);
+    }
+  }
+  const rest = turns.pop()!;
+  if (turns.length === 0) return [rest];
+  turns[turns.length - 1].push(...rest);
+  return turns;
+}
+
+export interface FakeClaudeEnv {
+  /** Directory with the script queue and call log */
+  dir?: string;
+  /** Play this file instead of the queue */
+  scriptPath?: string;
+  speed: number;
+}
+
+/**
+ * Run one turn: pick a script, log the call and play it.
+ */
+async function runTurn(
+  env: FakeClaudeEnv,
+  args: string[],
+  sessionId: string,
+  prompt: string,
+  nextTurn: () => Promise<FakeClaudeStep[] | undefined>
+): Promise<number | undefined> {
+  const queued = env.dir && !env.scriptPath ? await claimScript(env.dir) : undefined;
+  const steps = env.scriptPath ? await nextTurn() : queued?.steps;
+
+  if (env.dir) {
+    const call: FakeClaudeCall = { args, prompt, sessionId, script: queued?.name ?? env.scriptPath };
+    await appendFile(join(env.dir, 'calls.jsonl'), JSON.stringify(call) + '\n');
+  }
+
+  return playScript(steps ?? textReply('OK'), sessionId, prompt, env.speed);
+}
+
+/**
+ * Prompt text from a stream-json user message line.
+ */
+function readUserMessage(line: string): string | undefined {
+  try {
+    const message = JSON.parse(line) as {
+      type?: string;
+      message?: { content?: Array<{ type: string; text?: string }> };
+    };
+    if (message.type !== 'user') return undefined;
+    return (message.message?.content ?? [])
+      .filter((block) => block.type === 'text')
+      .map((block) => block.text ?? '')
+      .join('\n');
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Act like `claude --print --output-format stream-json`.
+ */
+export async function runFakeClaude(
+  args: string[] = process.argv.slice(2),
+  env: FakeClaudeEnv = {
+    dir: process.env.FAKE_CLAUDE_DIR,
+    scriptPath: process.env.FAKE_CLAUDE_SCRIPT,
+    speed: Number(process.env.FAKE_CLAUDE_SPEED ?? 1) || 1,
+  }
+): Promise<number> {
+  if (args.includes('--version')) {
+    await Bun.write(Bun.stdout, FAKE_CLAUDE_VERSION + '\n');
+    return 0;
+  }
+
+  const resumeIndex = args.indexOf('--resume');
+  const sessionId = resumeIndex >= 0 ? args[resumeIndex + 1] : crypto.randomUUID();
+  const persistent = args.includes('--input-format');
+
+  // A script file plays whole per run, or turn by turn per prompt
+  let turns: FakeClaudeStep[][] | undefined;
+  const nextTurn = async () => {
+    if (!turns) {
+      const steps = parseFakeScript(await Bun.file(env.scriptPath!).text());
+      turns = persistent ? splitTurns(steps) : [steps];
+    }
+    return turns.shift();
+  };
+
+  // Per-turn: the prompt follows "--"
+  if (!persistent) {
+    const separator = args.indexOf('--');
+    const prompt = separator >= 0 ? args.slice(separator + 1).join(' ') : '';
+    return (await runTurn(env, args, sessionId, prompt, nextTurn)) ?? 0;
+  }
+
+  // Persistent: one turn per user message until stdin closes
+  const decoder = new TextDecoder();
+  let buffer = '';
+  for await (const chunk of Bun.stdin.stream()) {
+    buffer += decoder.decode(chunk, { stream: true });
+    let newline: number;
+    while ((newline = buffer.indexOf('\n')) >= 0) {
+      const prompt = readUserMessage(buffer.slice(0, newline));
+      buffer = buffer.slice(newline + 1);
+      if (prompt === undefined) continue;
+
+      const exitCode = await runTurn(env, args, sessionId, prompt, nextTurn);
+      if (exitCode !== undefined) return exitCode;
+    }
+  }
+  return 0;
+}
+
+if (import.meta.main) {
+  process.exit(await runFakeClaude());
+}
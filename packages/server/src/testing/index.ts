@@ -0,0 +1,299 @@
+/**
+ * Test Harness (`cc-chat-server/testing`)
+ *
+ * Full WebSocket round-trip tests with no CLI and no network: a server on a
+ * free local port whose `claude` is a fake that plays scripted stream-json
+ * fixtures (see fake-claude.ts).
+ *
+ * Usage:
+ * ```typescript
+ * import { createTestServer, textReply } from 'cc-chat-server/testing';
+ *
+ * const server = createTestServer();
+ * server.script(textReply('Hello!'));
+ *
+ * const client = await server.connect();
+ * client.chat({ action: 'send', content: 'Hi' });
+ * await client.waitFor('complete');
+ *
+ * server.stop();
+ * ```
+ */
+
+import { chmodSync, mkdirSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { parseClaudeStream, parseStderr, spawnClaude, type StreamCallbacks } from '../claude';
+import { createClaudeServer, type ClaudeServer } from '../index';
+import { createSqliteSessionStore } from '../store';
+import type { ChatPayload, ClaudeServerConfig, SystemPayload, WebSocketMessage } from '../types';
+import { formatFakeScript, parseFakeScript, type FakeClaudeCall, type FakeClaudeStep } from './fake-claude';
+
+export {
+  parseFakeScript,
+  formatFakeScript,
+  textReply,
+  runFakeClaude,
+  FAKE_CLAUDE_VERSION,
+  type FakeClaudeCall,
+  type FakeClaudeEvent,
+  type FakeClaudeStep,
+} from './fake-claude';
+export { spawnClaude, parseClaudeStream, type StreamCallbacks } from '../claude';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * Server config for tests. The port, CLI and (unless given) the project,
+ * uploads and session store are set up by the harness.
+ */
+export type TestServerOptions = Omit<ClaudeServerConfig, 'port' | 'claudePath'>;
+
+export interface TestServer {
+  /** WebSocket URL (ws://localhost:<port>/ws) */
+  url: string;
+  /** HTTP base URL (http://localhost:<port>) */
+  httpUrl: string;
+  /** Scratch directory: the default project, uploads and the fake CLI's queue */
+  dir: string;
+  /** The server under test */
+  server: ClaudeServer;
+  /** Queue a script for the next CLI run (or next prompt, in persistent mode) */
+  script(steps: FakeClaudeStep[]): void;
+  /** Queue a JSONL fixture file */
+  scriptFile(path: string): void;
+  /** Every CLI run so far, oldest first */
+  calls(): FakeClaudeCall[];
+  /** Open a WebSocket client */
+  connect(): Promise<TestClient>;
+  /** Close clients, stop the server and delete the scratch directory */
+  stop(): void;
+}
+
+export interface TestClient {
+  ws: WebSocket;
+  /** Everything the server sent, oldest first */
+  messages: WebSocketMessage[];
+  /** Send a chat action (sessionId is optional, as for real clients) */
+  chat(payload: ChatPayload, sessionId?: string): void;
+  /** Send a system action */
+  system(payload: SystemPayload, sessionId?: string): void;
+  /**
+   * The first message (already received or still to come) matching an
+   * action name or predicate. Rejects after `timeoutMs`.
+   */
+  waitFor(
+    match: string | ((message: WebSocketMessage) => boolean),
+    timeoutMs?: number
+  ): Promise<WebSocketMessage>;
+  close(): void;
+}
+
+export interface ReplayOptions {
+  /** Divides the recorded pauses (default Infinity = none; 1 = original timing) */
+  speed?: number;
+  /** Prompt for `$PROMPT` in the recording */
+  prompt?: string;
+}
+
+const DEFAULT_WAIT_MS = 5000;
+
+// =============================================================================
+// Fake CLI
+// =============================================================================
+
+/**
+ * Path of the fake CLI script (fake-claude.ts, or .js once built).
+ */
+function getFakeClaudePath(): string {
+  const extension = import.meta.url.endsWith('.ts') ? '.ts' : '.js';
+  return fileURLToPath(new URL(`./fake-claude${extension}`, import.meta.url));
+}
+
+/**
+ * Write an executable `claude` that runs the fake CLI with Bun, reading its
+ * scripts from `dir`. Returns its path, for `claudePath`.
+ */
+export function writeFakeClaude(dir: string): string {
+  const quote = (value: string) => `'${value.split("'").join(`'\\''`)}'`;
+  const path = join(dir, 'claude');
+  writeFileSync(
+    path,
+    [
+      '#!/bin/sh',
+      `FAKE_CLAUDE_DIR=${quote(dir)} exec ${quote(process.execPath)} ${quote(getFakeClaudePath())} "$@"`,
+      '',
+    ].join('\n')
+  );
+  chmodSync(path, 0o755);
+  return path;
+}
+
+// =============================================================================
+// Replay
+// =============================================================================
+
+/**
+ * Feed a recording (or any fixture) through parseClaudeStream, as the server
+ * would feed a live CLI run. Resolves once it ends, with the exit code and,
+ * if it failed, the error the server would report.
+ */
+export async function replayRecording(
+  path: string,
+  callbacks: StreamCallbacks,
+  options: ReplayOptions = {}
+): Promise<{ exitCode: number; error?: string }> {
+  const dir = mkdtempSync(join(tmpdir(), 'cc-chat-replay-'));
+  try {
+    const { proc, reader, stderr } = spawnClaude({
+      prompt: options.prompt ?? '',
+      projectPath: process.cwd(),
+      claudePath: writeFakeClaude(dir),
+      replay: { path, speed: options.speed ?? Infinity },
+    });
+
+    const [, error, exitCode] = await Promise.all([
+      parseClaudeStream(reader, callbacks, () => false),
+      parseStderr(stderr),
+      proc.exited,
+    ]);
+    return exitCode === 0 ? { exitCode } : { exitCode, error };
+  } finally {
+    rmSync(dir, { recursive: true, force: true });
+  }
+}
+
+// =============================================================================
+// Client
+// =============================================================================
+
+function createTestClient(ws: WebSocket): TestClient {
+  const messages: WebSocketMessage[] = [];
+  const waiters = new Set<(message: WebSocketMessage) => void>();
+
+  ws.onmessage = (event) => {
+    const message = JSON.parse(String(event.data)) as WebSocketMessage;
+    messages.push(message);
+    waiters.forEach((waiter) => waiter(message));
+  };
+
+  const send = (type: 'chat' | 'system', payload: ChatPayload | SystemPayload, sessionId?: string) =>
+    ws.send(JSON.stringify({ type, timestamp: Date.now(), sessionId, payload }));
+
+  return {
+    ws,
+    messages,
+    chat: (payload, sessionId) => send('chat', payload, sessionId),
+    system: (payload, sessionId) => send('system', payload, sessionId),
+
+    waitFor(match, timeoutMs = DEFAULT_WAIT_MS) {
+      const matches =
+        typeof match === 'string'
+          ? (message: WebSocketMessage) => (message.payload as { action?: string })?.action === match
+          : match;
+
+      const received = messages.find(matches);
+      if (received) {
+        return Promise.resolve(received);
+      }
+
+      return new Promise((resolve, reject) => {
+        const timer = setTimeout(() => {
+          waiters.delete(waiter);
+          reject(new Error(`Timed out waiting for ${typeof match === 'string' ? match : 'message'}`));
+        }, timeoutMs);
+        const waiter = (message: WebSocketMessage) => {
+          if (!matches(message)) return;
+          clearTimeout(timer);
+          waiters.delete(waiter);
+          resolve(message);
+        };
+        waiters.add(waiter);
+      });
+    },
+
+    close() {
+      ws.close();
+    },
+  };
+}
+
+// =============================================================================
+// Server
+// =============================================================================
+
+/**
+ * Start a server backed by the fake CLI on a free port.
+ */
+export function createTestServer(options: TestServerOptions = {}): TestServer {
+  const dir = mkdtempSync(join(tmpdir(), 'cc-chat-test-'));
+  const queueDir = join(dir, 'queue');
+  const projectPath = join(dir, 'project');
+  mkdirSync(queueDir);
+  mkdirSync(projectPath);
+
+  const server = createClaudeServer({
+    projectPath,
+    uploads: { dir: join(dir, 'uploads') },
+    sessionStore: createSqliteSessionStore(':memory:'),
+    ...options,
+    port: 0,
+    claudePath: writeFakeClaude(dir),
+  });
+  server.start();
+
+  const port = server.server?.port;
+  const clients = new Set<TestClient>();
+  let queued = 0;
+
+  const enqueue = (jsonl: string) => {
+    // Zero-padded so the fake CLI plays them in order
+    writeFileSync(join(queueDir, `${String(++queued).padStart(6, '0')}.jsonl`), jsonl);
+  };
+
+  return {
+    url: `ws://localhost:${port}/ws`,
+    httpUrl: `http://localhost:${port}`,
+    dir,
+    server,
+
+    script(steps) {
+      enqueue(formatFakeScript(steps));
+    },
+
+    scriptFile(path) {
+      // Parse now, so a broken fixture fails the test that queued it
+      enqueue(formatFakeScript(parseFakeScript(readFileSync(path, 'utf-8'))));
+    },
+
+    calls() {
+      try {
+        return readFileSync(join(dir, 'calls.jsonl'), 'utf-8')
+          .split('\n')
+          .filter(Boolean)
+          .map((line) => JSON.parse(line) as FakeClaudeCall);
+      } catch {
+        return []; // No runs yet
+      }
+    },
+
+    connect() {
+      const ws = new WebSocket(`ws://localhost:${port}/ws`);
+      const client = createTestClient(ws);
+      clients.add(client);
+      return new Promise((resolve, reject) => {
+        ws.onopen = () => resolve(client);
+        ws.onerror = () => reject(new Error('Failed to connect to the test server'));
+      });
+    },
+
+    stop() {
+      clients.forEach((client) => client.close());
+      server.stop();
+      rmSync(dir, { recursive: true, force: true });
+    },
+  };
+}
@@ -0,0 +1,249 @@
+/**
+ * Tests for reading Claude's on-disk session transcripts.
+ */
+
+import { describe, expect, test, beforeAll, afterAll } from 'bun:test';
+import { mkdirSync, mkdtempSync, rmSync, utimesSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import {
+  getProjectTranscriptDir,
+  parseTranscript,
+  listTranscriptSessions,
+  loadTranscript,
+} from './transcripts';
+
+function jsonl(lines: Record<string, unknown>[]): string {
+  return lines.map((l) => JSON.stringify(l)).join('\n') + '\n';
+}
+
+const conversation = [
+  { type: 'summary', summary: 'Reading files' },
+  {
+    type: 'user',
+    uuid: 'u1',
+    timestamp: '2025-01-01T10:00:00.000Z',
+    message: { role: 'user', content: 'What is in index.ts?' },
+  },
+  {
+    type: 'assistant',
+    uuid: 'a1',
+    timestamp: '2025-01-01T10:00:01.000Z',
+    message: { role: 'assistant', content: [{ type: 'text', text: 'Let me look.' }] },
+  },
+  {
+    type: 'assistant',
+    uuid: 'a2',
+    timestamp: '2025-01-01T10:00:02.000Z',
+    message: {
+      role: 'assistant',
+      content: [
+        { type: 'tool_use', id: 'toolu_1', name: 'Read', input: { file_path: '/repo/index.ts' } },
+      ],
+    },
+  },
+  {
+    type: 'user',
+    uuid: 'u2',
+    timestamp: '2025-01-01T10:00:03.000Z',
+    message: {
+      role: 'user',
+      content: [{ type: 'tool_result', tool_use_id: 'toolu_1', content: 'line1\nline2' }],
+    },
+  },
+  {
+    type: 'assistant',
+    uuid: 'a3',
+    timestamp: '2025-01-01T10:00:04.000Z',
+    message: { role: 'assistant', content: [{ type: 'text', text: 'It exports main.' }] },
+  },
+  {
+    type: 'user',
+    uuid: 'meta',
+    isMeta: true,
+    timestamp: '2025-01-01T10:00:05.000Z',
+    message: { role: 'user', content: 'Caveat: ignore this' },
+  },
+];
+
+// =============================================================================
+// Path Tests
+// =============================================================================
+
+describe('getProjectTranscriptDir', () => {
+  test('encodes the project path like the CLI', () => {
+    expect(getProjectTranscriptDir('/Users/me/my.project', '/home/.claude')).toBe(
+      '/home/.claude/projects/-Users-me-my-project'
+    );
+  });
+});
+
+// =============================================================================
+// Parsing Tests
+// =============================================================================
+
+describe('parseTranscript', () => {
+  test('merges an assistant turn into one message with interleaved blocks', () => {
+    const messages = parseTranscript(jsonl(conversation));
+
+    expect(messages.map((m) => m.role)).toEqual(['user', 'assistant']);
+    expect(messages[0].content).toBe('What is in index.ts?');
+
+    const assistant = messages[1];
+    expect(assistant.content).toBe('Let me look.It exports main.');
+    expect(assistant.contentBlocks!.map((b) => b.type)).toEqual([
+      'text',
+      'tool_group',
+      'text',
+    ]);
+  });
+
+  test('attaches tool results to their tool calls', () => {
+    const [, assistant] = parseTranscript(jsonl(conversation));
+    const tool = assistant.tools![0];
+
+    expect(tool).toMatchObject({
+      id: 'toolu_1',
+      name: 'Read',
+      friendly: 'Reading index.ts',
+      inputDetail: '/repo/index.ts',
+      result: 'line1\nline2',
+      summary: '2 lines',
+    });
+  });
+
+  test('keeps thinking as its own block', () => {
+    const [, assistant] = parseTranscript(
+      jsonl([
+        { type: 'user', message: { role: 'user', content: 'Why?' } },
+        {
+          type: 'assistant',
+          message: {
+            role: 'assistant',
+            content: [
+              { type: 'thinking', thinking: 'The user wants a reason.' },
+              { type: 'text', text: 'Because.' },
+            ],
+          },
+        },
+      ])
+    );
+
+    expect(assistant.content).toBe('Because.');
+    expect(assistant.contentBlocks).toMatchObject([
+      { type: 'thinking', content: 'The user wants a reason.' },
+      { type: 'text', content: 'Because.' },
+    ]);
+  });
+
+  test('skips meta, sidechain and malformed lines', () => {
+    const text =
+      jsonl([
+        { type: 'user', isSidechain: true, message: { role: 'user', content: 'agent prompt' } },
+        { type: 'user', isMeta: true, message: { role: 'user', content: 'meta' } },
+      ]) + 'not json\n';
+
+    expect(parseTranscript(text)).toEqual([]);
+  });
+});
+
+// =============================================================================
+// Listing Tests
+// =============================================================================
+
+describe('listTranscriptSessions', () => {
+  let claudeDir: string;
+  const projectPath = '/work/repo';
+  const OLDER = new Date('2025-01-01T10:00:05.000Z');
+  const NEWER = new Date('2025-02-01T09:00:00.000Z');
+
+  beforeAll(() => {
+    claudeDir = mkdtempSync(join(tmpdir(), 'cc-chat-transcripts-'));
+    const dir = getProjectTranscriptDir(projectPath, claudeDir);
+    mkdirSync(dir, { recursive: true });
+
+    writeFileSync(join(dir, 'older-session.jsonl'), jsonl(conversation));
+    writeFileSync(
+      join(dir, 'newer-session.jsonl'),
+      jsonl([
+        {
+          type: 'user',
+          uuid: 'n1',
+          timestamp: '2025-02-01T09:00:00.000Z',
+          message: { role: 'user', content: 'Second chat' },
+        },
+      ])
+    );
+    writeFileSync(join(dir, 'empty.jsonl'), '');
+
+    // Last activity is the file's modification time
+    utimesSync(join(dir, 'older-session.jsonl'), OLDER, OLDER);
+    utimesSync(join(dir, 'newer-session.jsonl'), NEWER, NEWER);
+  });
+
+  afterAll(() => {
+    rmSync(claudeDir, { recursive: true, force: true });
+  });
+
+  test('lists sessions with summary fields, most recent first', async () => {
+    const sessions = await listTranscriptSessions(projectPath, claudeDir);
+
+    expect(sessions).toEqual([
+      {
+        sessionId: 'newer-session',
+        firstPrompt: 'Second chat',
+        lastActivity: NEWER.getTime(),
+        messageCount: 1,
+      },
+      {
+        sessionId: 'older-session',
+        firstPrompt: 'What is in index.ts?',
+        lastActivity: OLDER.getTime(),
+        messageCount: 2,
+      },
+    ]);
+  });
+
+  test('counts messages the way a loaded transcript has them', async () => {
+    const [, older] = await listTranscriptSessions(projectPath, claudeDir);
+    const messages = await loadTranscript(projectPath, 'older-session', claudeDir);
+    expect(older.messageCount).toBe(messages!.length);
+  });
+
+  test('re-reads a transcript only once it changes', async () => {
+    const path = join(getProjectTranscriptDir(projectPath, claudeDir), 'cached-session.jsonl');
+    const entry = (content: string) =>
+      jsonl([{ type: 'user', timestamp: NEWER.toISOString(), message: { role: 'user', content } }]);
+    const firstPrompt = async () =>
+      (await listTranscriptSessions(projectPath, claudeDir)).find(
+        (s) => s.sessionId === 'cached-session'
+      )?.firstPrompt;
+
+    writeFileSync(path, entry('Prompt A'));
+    utimesSync(path, OLDER, OLDER);
+    expect(await firstPrompt()).toBe('Prompt A');
+
+    // Same size and time: the cached summary is used
+    writeFileSync(path, entry('Prompt B'));
+    utimesSync(path, OLDER, OLDER);
+    expect(await firstPrompt()).toBe('Prompt A');
+
+    utimesSync(path, NEWER, NEWER);
+    expect(await firstPrompt()).toBe('Prompt B');
+    rmSync(path);
+  });
+
+  test('returns an empty list for unknown projects', async () => {
+    expect(await listTranscriptSessions('/nowhere', claudeDir)).toEqual([]);
+  });
+
+  test('loads a transcript by session ID', async () => {
+    const messages = await loadTranscript(projectPath, 'older-session', claudeDir);
+    expect(messages).toHaveLength(2);
+  });
+
+  test('rejects session IDs that could escape the project directory', async () => {
+    expect(await loadTranscript(projectPath, '../older-session', claudeDir)).toBeNull();
+    expect(await loadTranscript(projectPath, 'missing', claudeDir)).toBeNull();
+  });
+});
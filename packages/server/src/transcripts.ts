@@ -0,0 +1,354 @@
+/**
+ * Claude Transcript Reader
+ *
+ * The Claude CLI writes every session to a JSONL transcript under
+ * ~/.claude/projects/<encoded project path>/<session id>.jsonl.
+ * This module lists those sessions and converts a transcript back into
+ * chat messages so clients can browse and resume old conversations.
+ */
+
+import { createReadStream } from 'node:fs';
+import { homedir } from 'node:os';
+import { readdir, readFile, stat } from 'node:fs/promises';
+import { join } from 'node:path';
+import { createInterface } from 'node:readline';
+import type {
+  ChatMessage,
+  ContentBlock,
+  SessionSummary,
+  ToolUseData,
+} from './types';
+import {
+  getFriendlyToolName,
+  getToolInputDetail,
+  summarizeToolResult,
+} from './claude';
+
+// =============================================================================
+// Paths
+// =============================================================================
+
+/** Default Claude config directory */
+export const DEFAULT_CLAUDE_DIR = `${homedir()}/.claude`;
+
+/** Session IDs are UUIDs; anything else could escape the projects directory */
+const SESSION_ID_PATTERN = /^[A-Za-z0-9_-]+$/;
+
+/**
+ * Get the transcript directory the CLI uses for a project.
+ * The CLI replaces every non-alphanumeric character in the path with "-".
+ */
+export function getProjectTranscriptDir(
+  projectPath: string,
+  claudeDir: string = DEFAULT_CLAUDE_DIR
+): string {
+  return join(claudeDir, 'projects', projectPath.replace(/[^a-zA-Z0-9]/g, '-'));
+}
+
+// =============================================================================
+// Transcript Parsing
+// =============================================================================
+
+type TranscriptContent = string | Array<Record<string, unknown>> | undefined;
+
+interface TranscriptLine {
+  type?: string;
+  uuid?: string;
+  timestamp?: string;
+  isMeta?: boolean;
+  isSidechain?: boolean;
+  message?: {
+    role?: string;
+    content?: TranscriptContent;
+  };
+  toolUseResult?: unknown;
+}
+
+/**
+ * Extract plain text from a tool_result content field.
+ */
+function toolResultText(content: unknown): string | undefined {
+  if (typeof content === 'string') return content;
+  if (Array.isArray(content)) {
+    return content
+      .filter((b: { type?: string }) => b.type === 'text')
+      .map((b: { text?: string }) => b.text ?? '')
+      .join('');
+  }
+  return undefined;
+}
+
+/**
+ * Parse a transcript line, or null if it is malformed or not part of the
+ * main conversation.
+ */
+function parseLine(raw: string): TranscriptLine | null {
+  if (!raw.trim()) return null;
+
+  let line: TranscriptLine;
+  try {
+    line = JSON.parse(raw);
+  } catch {
+    return null; // Skip malformed lines
+  }
+
+  if (line.isMeta || line.isSidechain || !line.message) return null;
+  return line;
+}
+
+/**
+ * The prompt a user entry carries, if any (entries holding only tool results
+ * have none).
+ */
+function promptText(content: TranscriptContent): string | undefined {
+  const text =
+    typeof content === 'string'
+      ? content
+      : Array.isArray(content)
+        ? content
+            .filter((b) => b.type === 'text')
+            .map((b) => String(b.text ?? ''))
+            .join('')
+        : '';
+  return text.trim() ? text : undefined;
+}
+
+/**
+ * Convert a JSONL transcript into chat messages.
+ *
+ * Consecutive assistant entries (text, tool calls and their results) are
+ * merged into one message with interleaved content blocks, matching what
+ * the React hook builds while streaming.
+ */
+export function parseTranscript(text: string): ChatMessage[] {
+  const messages: ChatMessage[] = [];
+  const toolsById = new Map<string, ToolUseData>();
+  let assistant: ChatMessage | null = null;
+
+  for (const raw of text.split('\n')) {
+    const line = parseLine(raw);
+    if (!line) continue;
+
+    const timestamp = line.timestamp ? Date.parse(line.timestamp) : 0;
+    const content = line.message!.content;
+
+    if (line.type === 'user') {
+      // Tool results belong to the assistant turn that called the tool
+      for (const block of Array.isArray(content) ? content : []) {
+        if (block.type !== 'tool_result') continue;
+        const tool = toolsById.get(block.tool_use_id as string);
+        if (!tool) continue;
+
+        const resultText = toolResultText(block.content);
+        if (block.is_error) {
+          tool.error = resultText;
+        } else {
+          tool.result = resultText;
+        }
+        tool.summary = summarizeToolResult(
+          tool.name,
+          line.toolUseResult ?? {
+            content: [{ type: 'text', text: resultText ?? '' }],
+            isError: block.is_error,
+          }
+        );
+      }
+
+      const prompt = promptText(content);
+      if (prompt) {
+        assistant = null;
+        messages.push({
+          id: line.uuid ?? `history-${messages.length}`,
+          role: 'user',
+          content: prompt,
+          timestamp,
+        });
+      }
+      continue;
+    }
+
+    if (line.type !== 'assistant' || !Array.isArray(content)) continue;
+
+    if (!assistant) {
+      assistant = {
+        id: line.uuid ?? `history-${messages.length}`,
+        role: 'assistant',
+        content: '',
+        timestamp,
+        tools: [],
+        contentBlocks: [],
+      };
+      messages.push(assistant);
+    }
+
+    const blocks = assistant.contentBlocks as ContentBlock[];
+
+    for (const block of content) {
+      if (block.type === 'text' && typeof block.text === 'string') {
+        assistant.content += block.text;
+        const last = blocks[blocks.length - 1];
+        if (last?.type === 'text') {
+          last.content += block.text;
+        } else {
+          blocks.push({ type: 'text', content: block.text, timestamp });
+        }
+      } else if (block.type === 'thinking' && typeof block.thinking === 'string') {
+        blocks.push({ type: 'thinking', content: block.thinking, timestamp });
+      } else if (block.type === 'tool_use') {
+        const name = String(block.name);
+        const input = block.input as Record<string, unknown> | undefined;
+        const tool: ToolUseData = {
+          id: String(block.id),
+          name,
+          friendly: getFriendlyToolName(name, input),
+          input,
+          inputDetail: getToolInputDetail(name, input),
+        };
+        toolsById.set(tool.id, tool);
+        assistant.tools!.push(tool);
+
+        const last = blocks[blocks.length - 1];
+        if (last?.type === 'tool_group') {
+          last.tools.push(tool);
+        } else {
+          blocks.push({ type: 'tool_group', tools: [tool], timestamp });
+        }
+      }
+    }
+  }
+
+  // Drop assistant turns that never produced text or tools
+  return messages.filter(
+    (m) => m.role === 'user' || m.content || m.tools?.length
+  );
+}
+
+// =============================================================================
+// Session Listing
+// =============================================================================
+
+/** What a listing needs from one transcript */
+interface TranscriptSummary {
+  firstPrompt: string;
+  messageCount: number;
+}
+
+interface CachedSummary {
+  mtimeMs: number;
+  size: number;
+  /** null for transcripts with no messages */
+  summary: TranscriptSummary | null;
+}
+
+/** Summaries by transcript directory, then file; reused while a file is unchanged */
+const summaryCache = new Map<string, Map<string, CachedSummary>>();
+
+/**
+ * Stream a transcript for its first prompt and message count, counting
+ * messages the way parseTranscript builds them without keeping their content.
+ */
+async function summarizeTranscript(path: string): Promise<TranscriptSummary | null> {
+  let firstPrompt: string | undefined;
+  let messageCount = 0;
+  // Consecutive assistant entries are one message, dropped if they show nothing
+  let assistantHasOutput = false;
+
+  const lines = createInterface({
+    input: createReadStream(path, { encoding: 'utf8' }),
+    crlfDelay: Infinity,
+  });
+
+  for await (const raw of lines) {
+    const line = parseLine(raw);
+    if (!line) continue;
+    const content = line.message!.content;
+
+    if (line.type === 'user') {
+      const prompt = promptText(content);
+      if (!prompt) continue;
+      if (assistantHasOutput) messageCount++;
+      assistantHasOutput = false;
+      firstPrompt ??= prompt;
+      messageCount++;
+    } else if (line.type === 'assistant' && Array.isArray(content)) {
+      assistantHasOutput ||= content.some(
+        (b) => (b.type === 'text' && typeof b.text === 'string' && b.text) || b.type === 'tool_use'
+      );
+    }
+  }
+  if (assistantHasOutput) messageCount++;
+
+  if (messageCount === 0) return null;
+  return { firstPrompt: (firstPrompt ?? '').substring(0, 200), messageCount };
+}
+
+/**
+ * List the sessions recorded for a project, most recent first. Last activity
+ * is the transcript's modification time; other fields are only re-read when
+ * that (or the size) changes.
+ */
+export async function listTranscriptSessions(
+  projectPath: string,
+  claudeDir?: string
+): Promise<SessionSummary[]> {
+  const dir = getProjectTranscriptDir(projectPath, claudeDir);
+
+  let files: string[];
+  try {
+    files = (await readdir(dir)).filter((f) => f.endsWith('.jsonl'));
+  } catch {
+    summaryCache.delete(dir);
+    return []; // No sessions for this project yet
+  }
+
+  const cached = summaryCache.get(dir) ?? new Map<string, CachedSummary>();
+  // Rebuilt each time, so deleted transcripts drop out
+  const current = new Map<string, CachedSummary>();
+  const sessions: SessionSummary[] = [];
+
+  for (const file of files) {
+    const path = join(dir, file);
+    try {
+      const { mtimeMs, size } = await stat(path);
+      let entry = cached.get(file);
+      if (!entry || entry.mtimeMs !== mtimeMs || entry.size !== size) {
+        entry = { mtimeMs, size, summary: await summarizeTranscript(path) };
+      }
+      current.set(file, entry);
+      if (!entry.summary) continue;
+
+      sessions.push({
+        sessionId: file.slice(0, -'.jsonl'.length),
+        ...entry.summary,
+        lastActivity: mtimeMs,
+      });
+    } catch {
+      // Skip unreadable transcripts
+    }
+  }
+
+  summaryCache.set(dir, current);
+  return sessions.sort((a, b) => b.lastActivity - a.lastActivity);
+}
+
+/**
+ * Load a session's transcript as chat messages.
+ * Returns null if the session doesn't exist for this project.
+ */
+export async function loadTranscript(
+  projectPath: string,
+  sessionId: string,
+  claudeDir?: string
+): Promise<ChatMessage[] | null> {
+  if (!SESSION_ID_PATTERN.test(sessionId)) {
+    return null;
+  }
+
+  const path = join(getProjectTranscriptDir(projectPath, claudeDir), `${sessionId}.jsonl`);
+
+  try {
+    return parseTranscript(await readFile(path, 'utf8'));
+  } catch {
+    return null;
+  }
+}
@@ -4,6 +4,14 @@
  * Defines the message protocol between server and client.
  */
 
+import type {
+  ChatAction,
+  SystemAction,
+  Capability,
+  ProtocolErrorCode,
+} from 'cc-chat-protocol';
+import type { SessionStore } from './store';
+
 // =============================================================================
 // Message Types
 // =============================================================================
@@ -18,9 +26,11 @@ export type MessageType = 'chat' | 'system';
  */
 export interface WebSocketMessage<T = unknown> {
   type: MessageType;
-  seq: number;        // Monotonic sequence number for ordering/catch-up
-  timestamp: number;  // Unix timestamp ms
+  sessionSeq?: number;    // Position in the session's event log (chat events only, used for catch-up)
+  connectionSeq?: number; // Per-connection counter on everything the server sends
+  timestamp: number;      // Unix timestamp ms
   sessionId?: string; // Claude session ID
+  requestId?: string; // Client-chosen ID, echoed in errors about the message
   payload: T;
 }
 
@@ -29,18 +39,9 @@ export interface WebSocketMessage<T = unknown> {
 // =============================================================================
 
 /**
- * Chat message actions.
+ * Chat message actions (listed with their meaning in cc-chat-protocol).
  */
-export type ChatAction =
-  | 'send'        // User sends a message
-  | 'token'       // Streaming text token from Claude
-  | 'complete'    // Response complete
-  | 'error'       // Error occurred
-  | 'cancel'      // Cancel ongoing response
-  | 'tool_start'  // Tool execution started
-  | 'tool_end'    // Tool execution completed
-  | 'thinking'    // Claude is processing (no output yet)
-  | 'todo_update'; // Todo list updated
+export type { ChatAction };
 
 /**
  * Tool use data.
@@ -51,10 +52,27 @@ export interface ToolUseData {
   friendly?: string;      // Human-friendly name (e.g., "Reading file.ts")
   input?: Record<string, unknown>;
   inputDetail?: string;   // Short description of input
-  result?: string;
+  result?: string;        // Tool output (in tool_end, a preview of at most TOOL_RESULT_PREVIEW_CHARS)
+  resultSize?: number;    // Length of the full output in characters
+  resultTruncated?: boolean; // Whether `result` is cut short (fetch the rest with get_tool_result)
   error?: string;
   summary?: string;       // Short summary of result
   duration?: number;      // Execution time in ms
+  diff?: ToolDiff;        // Edit, MultiEdit and Write: the change made (tool_end)
+  parentToolId?: string;  // Task tool this call was made inside (subagent tools)
+  output?: string;        // Text a Task subagent wrote while running
+  children?: ToolUseData[]; // Tools a Task subagent ran (tool trees in ChatState and content blocks)
+}
+
+/**
+ * A file change made by an Edit, MultiEdit or Write call.
+ */
+export interface ToolDiff {
+  path: string;
+  unified: string;        // Unified diff (empty if nothing changed; in tool_end, whole lines up to TOOL_RESULT_PREVIEW_CHARS)
+  additions: number;      // Lines added (in the whole diff)
+  deletions: number;      // Lines removed (in the whole diff)
+  truncated?: boolean;    // tool_end: `unified` was cut short
 }
 
 /**
@@ -66,6 +84,118 @@ export interface TodoItem {
   activeForm?: string;
 }
 
+/**
+ * Token counts reported by the CLI.
+ */
+export interface TokenUsage {
+  inputTokens: number;
+  outputTokens: number;
+  cacheCreationInputTokens: number;
+  cacheReadInputTokens: number;
+}
+
+/**
+ * Usage, cost and timing for one turn, from the CLI's result event.
+ */
+export interface TurnStats {
+  usage: TokenUsage;
+  costUsd: number;
+  durationMs: number;
+  durationApiMs?: number;
+  numTurns: number;       // Agentic turns (model calls) in this response
+  isError: boolean;
+  subtype?: string;       // e.g. 'success', 'error_max_turns', 'error_during_execution'
+}
+
+/**
+ * Running totals across every turn of a session.
+ */
+export interface SessionTotals {
+  usage: TokenUsage;
+  costUsd: number;
+  durationMs: number;
+  numTurns: number;
+  turnCount: number;      // Responses counted
+}
+
+/**
+ * How the server answers Claude's tool permission checks.
+ *
+ * - `skip`: pass --dangerously-skip-permissions (every tool runs)
+ * - `prompt`: ask connected clients to approve each tool call
+ * - `allowlist`: only tools in `allowedTools` run, everything else is denied
+ */
+export type PermissionMode = 'skip' | 'prompt' | 'allowlist';
+
+/**
+ * CLI options a client may attach to a `send`. Each must be permitted by the
+ * server's `messageOptions` policy.
+ */
+export interface MessageOptions {
+  model?: string;               // --model
+  maxTurns?: number;            // --max-turns
+  allowedTools?: string[];      // --allowedTools (replaces the server's list)
+  disallowedTools?: string[];   // --disallowedTools
+  appendSystemPrompt?: string;  // --append-system-prompt
+  permissionMode?: PermissionMode;
+}
+
+/**
+ * Outcome of a permission request.
+ */
+export type PermissionBehavior = 'allow' | 'deny';
+
+/**
+ * A tool call waiting for client approval.
+ */
+export interface PermissionRequestData {
+  id: string;
+  toolName: string;
+  toolUseId?: string;
+  friendly?: string;      // Human-friendly name (e.g., "Running npm")
+  input?: Record<string, unknown>;
+  expiresAt: number;      // Unix timestamp ms when the request is auto-denied
+}
+
+/**
+ * One question from an AskUserQuestion call.
+ */
+export interface QuestionItem {
+  question: string;
+  header?: string;        // Short label (e.g., "Auth method")
+  options: Array<{ label: string; description?: string }>;
+  multiSelect?: boolean;  // Whether several options may be chosen
+}
+
+/**
+ * Questions Claude is waiting for the user to answer.
+ */
+export interface QuestionData {
+  id: string;             // The AskUserQuestion tool_use ID
+  questions: QuestionItem[];
+  timestamp: number;
+}
+
+/**
+ * A prompt waiting for the session's current response to finish.
+ */
+export interface QueuedMessage {
+  id: string;
+  content: string;
+  queuedAt: number;       // Unix timestamp ms
+  attachments?: AttachmentInfo[];
+}
+
+/**
+ * A file uploaded through POST /uploads.
+ */
+export interface AttachmentInfo {
+  id: string;
+  name: string;
+  type: string;           // MIME type
+  size: number;           // Bytes
+}
+
 /**
  * Chat message payload.
  */
@@ -73,8 +203,26 @@ export interface ChatPayload {
   action: ChatAction;
   content?: string;
   tool?: ToolUseData;
+  toolId?: string;                     // tool_output: the Task tool the text belongs to
   todos?: TodoItem[];
   error?: string;
+  permission?: PermissionRequestData;  // permission_request
+  permissionId?: string;               // approve, deny, permission_resolved
+  question?: QuestionData;             // question
+  questionId?: string;                 // answer, question_resolved
+  answers?: Record<string, string | string[]>; // answer: question text -> chosen label(s) or free text
+  decision?: PermissionBehavior;       // permission_resolved
+  reason?: string;                     // deny, permission_resolved
+  queueItem?: QueuedMessage;           // queued; queue_update when that prompt started running
+  queue?: QueuedMessage[];             // queued, queue_update (full queue, next first)
+  queueId?: string;                    // reorder_queue, remove_queued
+  position?: number;                   // queued, reorder_queue (1 = runs next)
+  stats?: TurnStats;                   // complete
+  totals?: SessionTotals;              // complete (session totals including this turn)
+  projectId?: string;                  // send: project for a new session
+  options?: MessageOptions;            // send: per-message CLI options
+  attachments?: string[];              // send: upload IDs from POST /uploads
+  newSessionId?: string;               // send: client-chosen placeholder ID ("new-...") for a new session
 }
 
 // =============================================================================
@@ -82,14 +230,10 @@ export interface ChatPayload {
 // =============================================================================
 
 /**
- * System message actions.
+ * System message actions, and the optional protocol features agreed in the
+ * hello handshake (both listed with their meaning in cc-chat-protocol).
  */
-export type SystemAction =
-  | 'connected'     // Initial connection with state snapshot
-  | 'catch_up'      // Client requests missed events
-  | 'snapshot'      // Server sends state snapshot
-  | 'subscribe'     // Client subscribes to a session
-  | 'error';        // System-level error
+export type { SystemAction, Capability };
 
 /**
  * Chat state for catch-up/reconnection.
@@ -97,28 +241,163 @@ export type SystemAction =
 export interface ChatState {
   status: 'idle' | 'streaming' | 'complete' | 'error';
   accumulatedContent: string;
+  /** Extended thinking streamed so far this turn */
+  accumulatedThinking?: string;
+  /** Tools this turn; subagent tools are nested under their Task in `children` */
   tools: ToolUseData[];
   todos: TodoItem[] | null;
+  pendingPermissions?: PermissionRequestData[];
+  pendingQuestion?: QuestionData;
+  queue?: QueuedMessage[];
+  totals?: SessionTotals;
   errorMessage?: string;
 }
 
+/**
+ * A past session found in Claude's on-disk transcripts.
+ */
+export interface SessionSummary {
+  sessionId: string;
+  firstPrompt: string;
+  lastActivity: number;  // Unix timestamp ms
+  messageCount: number;
+}
+
+/**
+ * A project clients can pick, as sent in `project_list`.
+ */
+export interface ProjectInfo {
+  id: string;
+  name: string;
+  path: string;
+}
+
+/**
+ * A content block within a message - text, thinking or a tool group.
+ */
+export type ContentBlock =
+  | { type: 'text'; content: string; timestamp: number }
+  | { type: 'thinking'; content: string; timestamp: number }
+  | { type: 'tool_group'; tools: ToolUseData[]; timestamp: number };
+
+/**
+ * A message rebuilt from a session transcript (same shape the React hook uses).
+ */
+export interface ChatMessage {
+  id: string;
+  role: 'user' | 'assistant';
+  content: string;
+  timestamp: number;
+  tools?: ToolUseData[];
+  contentBlocks?: ContentBlock[];
+}
+
 /**
  * System message payload.
  */
 export interface SystemPayload {
   action: SystemAction;
   sessionId?: string;
-  lastSeq?: number;
-  currentSeq?: number;
+  protocolVersion?: number;     // hello, connected: protocol version the sender speaks
+  features?: string[];          // hello: capabilities the client supports
+  capabilities?: Capability[];  // connected: capabilities enabled for this connection
+  serverVersion?: string;       // connected: cc-chat-server version
+  cliVersion?: string;          // connected: `claude --version`
+  previousSessionId?: string;   // session_started: the placeholder ID the session had
+  lastSeq?: number;             // catch_up: last sessionSeq the client has seen
+  currentSeq?: number;          // snapshot: the session's latest sessionSeq
   events?: WebSocketMessage[];
   chatState?: ChatState;
+  sessions?: SessionSummary[];  // session_list
+  messages?: ChatMessage[];     // history
+  projectId?: string;           // subscribe, list_sessions, load_history
+  projects?: ProjectInfo[];     // project_list
+  toolId?: string;              // get_tool_result, tool_result
+  offset?: number;              // get_tool_result, tool_result: start of the page (characters)
+  limit?: number;               // get_tool_result: page size (characters)
+  content?: string;             // tool_result: the page
+  totalLength?: number;         // tool_result: length of the full output
   error?: string;
+  code?: ProtocolErrorCode;     // error: what was wrong with a client message
+  requestId?: string;           // error, session_list, history: requestId of the message it answers
 }
 
 // =============================================================================
 // Server Configuration
 // =============================================================================
 
+/**
+ * How Claude processes are managed:
+ * - 'per-turn': spawn `claude --print --resume` for every message
+ * - 'persistent': keep one process per session alive, fed over stdin
+ */
+export type ProcessMode = 'per-turn' | 'persistent';
+
+/**
+ * A directory the server may run Claude in.
+ */
+export interface ProjectConfig {
+  /** Stable ID clients use to pick the project */
+  id: string;
+
+  /** Project root, used as the CLI's cwd */
+  path: string;
+
+  /** Display name (default: the directory name) */
+  name?: string;
+}
+
+/**
+ * Which per-message options clients may use. Options not covered here are
+ * rejected; `disallowedTools` only narrows what Claude can do and is always
+ * accepted.
+ */
+export interface MessageOptionsPolicy {
+  /** Models clients may pick */
+  models?: string[];
+
+  /** Highest `maxTurns` a client may ask for */
+  maxTurns?: number;
+
+  /** Tools a client may allow (a message's list must be a subset; refused in 'skip' mode) */
+  allowedTools?: string[];
+
+  /** Whether clients may append to the system prompt */
+  appendSystemPrompt?: boolean;
+
+  /** Permission modes clients may switch a message to */
+  permissionModes?: PermissionMode[];
+}
+
+/**
+ * Where and what clients may upload as attachments.
+ */
+export interface UploadConfig {
+  /** Directory uploads are stored under, one subdirectory per session (default: OS temp dir) */
+  dir?: string;
+
+  /** Largest accepted file in bytes (default: 10 MB) */
+  maxBytes?: number;
+
+  /** Accepted MIME types; 'text/*' style entries match a family (default: images, text, PDF, JSON) */
+  allowedTypes?: string[];
+
+  /** How long uploads are kept (default: 24 hours) */
+  ttlMs?: number;
+}
+
+/**
+ * Credentials accepted on the WebSocket and HTTP endpoints. With neither
+ * option set the server is open to anyone who can reach it.
+ */
+export interface AuthConfig {
+  /** Static bearer tokens */
+  tokens?: string[];
+
+  /** Secret for short-lived HMAC tokens minted with `createAuthToken` */
+  secret?: string;
+}
+
 /**
  * Configuration for the Claude chat server.
  */
@@ -129,9 +408,48 @@ export interface ClaudeServerConfig {
   /** Project directory for Claude CLI context (default: cwd) */
   projectPath?: string;
 
+  /** Projects clients may choose from (default: just `projectPath`, as 'default') */
+  projects?: ProjectConfig[];
+
   /** Path to Claude CLI binary (auto-detected if not provided) */
   claudePath?: string;
 
+  /** How tool permissions are handled (default: 'skip') */
+  permissionMode?: PermissionMode;
+
+  /** Tools that run without asking (e.g. ['Read', 'Bash(git:*)']); no effect in 'skip' mode, where every tool runs */
+  allowedTools?: string[];
+
+  /** How long to wait for a client to answer a permission request (default: 2 minutes) */
+  permissionTimeoutMs?: number;
+
+  /** Options clients may set per message (default: only `disallowedTools`) */
+  messageOptions?: MessageOptionsPolicy;
+
+  /** How Claude processes are managed (default: 'per-turn') */
+  processMode?: ProcessMode;
+
+  /** How long a persistent process may sit idle before it is stopped (default: 10 minutes) */
+  processIdleTimeoutMs?: number;
+
+  /** Require a token on /ws and /sessions (default: no auth) */
+  auth?: AuthConfig;
+
+  /** Origins allowed to connect from a browser (default: any) */
+  allowedOrigins?: string[];
+
+  /** Attachment upload limits */
+  uploads?: UploadConfig;
+
+  /** Where events, chat state and session metadata are kept (default: SQLite at ~/.cc-chat/sessions.db) */
+  sessionStore?: SessionStore;
+
+  /**
+   * Record each CLI run's raw output here, for replay and test fixtures
+   * (default: off). A persistent process is recorded one turn per file.
+   */
+  recordingsDir?: string;
+
   /** Callback when a client connects */
   onConnect?: (clientId: string) => void;
 
@@ -154,10 +472,13 @@ export interface ClaudeServerConfig {
  */
 export interface WebSocketClientData {
   clientId: string;
-  sessionId?: string;
+  sessionIds: Set<string>; // Sessions this client follows
+  sessionProjects: Map<string, string>; // Project each followed session was subscribed with
   connectedAt: Date;
   lastPing: Date;
-  lastSeq: number;
+  connectionSeq: number; // Last connectionSeq sent to this client
+  protocolVersion?: number; // From the client's hello (undefined = never said hello)
+  capabilities?: Set<Capability>; // Enabled in the hello handshake (undefined = all)
 }
 
 /**
@@ -178,22 +499,57 @@ export interface ActiveTool {
   name: string;
   friendly: string;
   startTime: number;
+  input?: Record<string, unknown>;
+  parentToolId?: string;
 }
 
 // =============================================================================
 // Constants
 // =============================================================================
 
+/**
+ * WebSocket protocol version (bumped in cc-chat-protocol when a change would
+ * break older clients); clients that never say hello are treated as version 1.
+ */
+export { PROTOCOL_VERSION } from 'cc-chat-protocol';
+
+/** Oldest client protocol version the server still talks to */
+export const MIN_CLIENT_PROTOCOL_VERSION = 1;
+
 export const WS_CONFIG = {
   /** Ping interval in milliseconds */
   PING_INTERVAL_MS: 30_000,
 
-  /** Maximum events to buffer per session */
-  MAX_BUFFER_SIZE: 100,
-
-  /** How long to keep events in buffer (5 minutes) */
+  /** How long an idle session stays in the in-memory cache (5 minutes) */
   BUFFER_TTL_MS: 5 * 60 * 1000,
 
+  /** Maximum events replayed in a single catch-up */
+  MAX_CATCH_UP_EVENTS: 1000,
+
+  /** How long events stay in the session store (7 days) */
+  EVENT_RETENTION_MS: 7 * 24 * 60 * 60 * 1000,
+
   /** Buffer for stdout parsing (handles large tool outputs) */
   MAX_STDOUT_BUFFER: 20 * 1024 * 1024, // 20MB
+
+  /** Default time to wait for a permission decision before denying */
+  PERMISSION_TIMEOUT_MS: 2 * 60 * 1000,
+
+  /** Default idle time before a persistent Claude process is stopped */
+  PROCESS_IDLE_TIMEOUT_MS: 10 * 60 * 1000,
+
+  /** Default largest attachment upload */
+  UPLOAD_MAX_BYTES: 10 * 1024 * 1024, // 10MB
+
+  /** Default time uploads are kept */
+  UPLOAD_TTL_MS: 24 * 60 * 60 * 1000,
+
+  /** How often expired uploads are deleted */
+  UPLOAD_PRUNE_INTERVAL_MS: 60 * 1000,
+
+  /** Tool output sent inline with tool_end */
+  TOOL_RESULT_PREVIEW_CHARS: 2000,
+
+  /** Largest page of tool output returned by get_tool_result */
+  TOOL_RESULT_PAGE_CHARS: 64 * 1024,
 } as const;
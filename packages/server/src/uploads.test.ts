@@ -0,0 +1,227 @@
+/**
+ * Tests for attachment uploads.
+ */
+
+import { afterAll, beforeAll, describe, expect, test } from 'bun:test';
+import { existsSync, mkdtempSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import {
+  createUploadStore,
+  buildUserContent,
+  formatAttachmentPrompt,
+  isTypeAllowed,
+  DEFAULT_UPLOAD_TYPES,
+  type UploadStore,
+} from './uploads';
+
+function upload(file: File, query = ''): Request {
+  const form = new FormData();
+  form.append('file', file);
+  return new Request(`http://localhost:3457/uploads${query}`, { method: 'POST', body: form });
+}
+
+describe('isTypeAllowed', () => {
+  test('matches exact types and families', () => {
+    expect(isTypeAllowed('image/png', DEFAULT_UPLOAD_TYPES)).toBe(true);
+    expect(isTypeAllowed('text/markdown; charset=utf-8', DEFAULT_UPLOAD_TYPES)).toBe(true);
+    expect(isTypeAllowed('application/x-sh', DEFAULT_UPLOAD_TYPES)).toBe(false);
+  });
+});
+
+describe('upload store', () => {
+  let dir: string;
+  let store: UploadStore;
+
+  beforeAll(() => {
+    dir = mkdtempSync(join(tmpdir(), 'cc-chat-uploads-'));
+    store = createUploadStore({
+      dir,
+      maxBytes: 1024,
+      allowedTypes: DEFAULT_UPLOAD_TYPES,
+      ttlMs: 60_000,
+    });
+  });
+
+  afterAll(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  test('stores a file in the session directory', async () => {
+    const res = await store.handleRequest(
+      upload(new File(['hello'], 'notes.txt', { type: 'text/plain' }), '?sessionId=session-1')
+    );
+    expect(res.status).toBe(201);
+
+    const { upload: info } = (await res.json()) as { upload: { id: string; name: string; size: number } };
+    expect(info.name).toBe('notes.txt');
+    expect(info.size).toBe(5);
+
+    const [stored] = store.resolve([info.id], 'session-1');
+    expect(stored.path.startsWith(join(dir, 'session-1'))).toBe(true);
+    expect(existsSync(stored.path)).toBe(true);
+  });
+
+  test('rejects oversized files and disallowed types', async () => {
+    const big = await store.handleRequest(
+      upload(new File(['x'.repeat(2048)], 'big.txt', { type: 'text/plain' }))
+    );
+    expect(big.status).toBe(413);
+
+    const script = await store.handleRequest(
+      upload(new File(['echo hi'], 'run.sh', { type: 'application/x-sh' }))
+    );
+    expect(script.status).toBe(415);
+  });
+
+  test('rejects session IDs that are not plain names', async () => {
+    const res = await store.handleRequest(
+      upload(new File(['hello'], 'a.txt', { type: 'text/plain' }), '?sessionId=../etc')
+    );
+    expect(res.status).toBe(400);
+  });
+
+  test('resolve rejects unknown IDs and other sessions', async () => {
+    const res = await store.handleRequest(
+      upload(new File(['hi'], 'a.txt', { type: 'text/plain' }), '?sessionId=session-2')
+    );
+    const { upload: info } = (await res.json()) as { upload: { id: string } };
+
+    expect(() => store.resolve(['upload-missing'], 'session-2')).toThrow('Unknown attachment');
+    expect(() => store.resolve([info.id], 'session-3')).toThrow('another session');
+  });
+
+  test('prune deletes old uploads', async () => {
+    const res = await store.handleRequest(
+      upload(new File(['bye'], 'old.txt', { type: 'text/plain' }))
+    );
+    const { upload: info } = (await res.json()) as { upload: { id: string } };
+    const [stored] = store.resolve([info.id], undefined);
+
+    await store.prune(Date.now() + 1);
+
+    expect(existsSync(stored.path)).toBe(false);
+    expect(() => store.resolve([info.id], undefined)).toThrow();
+  });
+
+  test('prune keeps held uploads until every hold is released', async () => {
+    const res = await store.handleRequest(
+      upload(new File(['queued'], 'queued.txt', { type: 'text/plain' }))
+    );
+    const { upload: info } = (await res.json()) as { upload: { id: string } };
+    const held = store.resolve([info.id], undefined);
+    store.hold(held);
+    store.hold(held);
+
+    await store.prune(Date.now() + 1);
+    expect(existsSync(held[0].path)).toBe(true);
+
+    store.release(held);
+    await store.prune(Date.now() + 1);
+    expect(existsSync(held[0].path)).toBe(true);
+
+    store.release(held);
+    await store.prune(Date.now() + 1);
+    expect(existsSync(held[0].path)).toBe(false);
+  });
+
+  test('a new session keeps its uploads once its real ID is known', async () => {
+    const res = await store.handleRequest(
+      upload(new File(['draft'], 'draft.txt', { type: 'text/plain' }), '?sessionId=new-draft')
+    );
+    const { upload: info } = (await res.json()) as { upload: { id: string } };
+
+    store.renameSession('new-draft', 'real-session');
+
+    expect(store.resolve([info.id], 'real-session')[0].id).toBe(info.id);
+    expect(() => store.resolve([info.id], 'new-draft')).toThrow('another session');
+  });
+});
+
+describe('upload expiry', () => {
+  let dir: string;
+  let store: UploadStore;
+
+  beforeAll(() => {
+    dir = mkdtempSync(join(tmpdir(), 'cc-chat-uploads-'));
+    store = createUploadStore({
+      dir,
+      maxBytes: 1024,
+      allowedTypes: DEFAULT_UPLOAD_TYPES,
+      ttlMs: 20,
+    });
+  });
+
+  afterAll(() => {
+    store.stop();
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  async function storeFile(): Promise<string> {
+    const res = await store.handleRequest(
+      upload(new File(['hi'], 'a.txt', { type: 'text/plain' }))
+    );
+    return ((await res.json()) as { upload: { id: string } }).upload.id;
+  }
+
+  test('resolve rejects uploads older than the TTL', async () => {
+    const id = await storeFile();
+    await Bun.sleep(30);
+
+    expect(() => store.resolve([id], undefined)).toThrow('Attachment expired');
+  });
+
+  test('expired uploads are deleted without a new upload', async () => {
+    const id = await storeFile();
+    const [stored] = store.resolve([id], undefined);
+    store.startPruning(10);
+    await Bun.sleep(60);
+
+    expect(existsSync(stored.path)).toBe(false);
+    expect(() => store.resolve([id], undefined)).toThrow('Unknown attachment');
+  });
+});
+
+describe('attachment delivery', () => {
+  const png = {
+    id: 'upload-1',
+    name: 'screen.png',
+    type: 'image/png',
+    size: 4,
+    path: '',
+    createdAt: 0,
+  };
+  const log = {
+    id: 'upload-2',
+    name: 'app.log',
+    type: 'text/plain',
+    size: 10,
+    path: '/tmp/uploads/app.log',
+    createdAt: 0,
+  };
+
+  test('text prompts list attachment paths', () => {
+    expect(formatAttachmentPrompt('Why?', [])).toBe('Why?');
+    expect(formatAttachmentPrompt('Why?', [log])).toBe(
+      'Why?\n\nAttached files:\n- /tmp/uploads/app.log (app.log, text/plain)'
+    );
+  });
+
+  test('stream-json content inlines images and lists other files', async () => {
+    const dir = mkdtempSync(join(tmpdir(), 'cc-chat-image-'));
+    const path = join(dir, 'screen.png');
+    await Bun.write(path, new Uint8Array([1, 2, 3, 4]));
+
+    const blocks = await buildUserContent('What is this?', [{ ...png, path }, log]);
+    rmSync(dir, { recursive: true, force: true });
+
+    expect(blocks[0]).toEqual({
+      type: 'image',
+      source: { type: 'base64', media_type: 'image/png', data: 'AQIDBA==' },
+    });
+    expect(blocks[1]).toEqual({
+      type: 'text',
+      text: 'What is this?\n\nAttached files:\n- /tmp/uploads/app.log (app.log, text/plain)',
+    });
+  });
+});
@@ -0,0 +1,323 @@
+/**
+ * Attachment Uploads
+ *
+ * Clients upload files with `POST /uploads` (multipart, field `file`) and
+ * reference the returned IDs in `send`. Files are kept in a per-session
+ * directory under a temp root, checked against size and type limits, and
+ * removed once they are older than the configured TTL and no queued or
+ * running turn still needs them.
+ *
+ * Claude receives attachments in one of two ways:
+ * - stream-json input (persistent mode): images as base64 image blocks
+ * - text prompts (per-turn mode), and non-image files in both modes: the
+ *   file's path appended to the prompt, for Claude to Read
+ */
+
+import { mkdir, readFile, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import type { AttachmentInfo, UploadConfig } from './types';
+import type { UserContentBlock } from './claude';
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+/** HTTP route for uploads */
+export const UPLOAD_ROUTE = '/uploads';
+
+/** Default upload directory */
+export const DEFAULT_UPLOAD_DIR = join(tmpdir(), 'cc-chat-uploads');
+
+/** Image types Claude accepts as image content blocks */
+export const IMAGE_TYPES = ['image/png', 'image/jpeg', 'image/gif', 'image/webp'];
+
+/** Default accepted MIME types */
+export const DEFAULT_UPLOAD_TYPES = [
+  ...IMAGE_TYPES,
+  'text/*',
+  'application/pdf',
+  'application/json',
+];
+
+/** Session IDs become directory names; anything else could escape the root */
+const SESSION_ID_PATTERN = /^[A-Za-z0-9_-]+$/;
+
+/** Directory for uploads made before the client has a session */
+const UNASSIGNED_DIR = 'unassigned';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * An upload on disk.
+ */
+export interface StoredUpload extends AttachmentInfo {
+  path: string;
+  /**
+   * Session the upload belongs to (a new session's draft ID until the CLI
+   * reports its real one; undefined if not given)
+   */
+  sessionId?: string;
+  createdAt: number;
+}
+
+export interface UploadStore {
+  /** Handle `POST /uploads[?sessionId=...]` */
+  handleRequest: (req: Request) => Promise<Response>;
+
+  /**
+   * Look up uploads for a message in a session (a new session goes by its
+   * draft ID). Throws if an ID is unknown, expired, or belongs to another
+   * session.
+   */
+  resolve: (ids: string[], sessionId: string | undefined) => StoredUpload[];
+
+  /** Keep uploads from being pruned until released (once per hold) */
+  hold: (uploads: StoredUpload[]) => void;
+
+  /** Let held uploads be pruned again */
+  release: (uploads: StoredUpload[]) => void;
+
+  /** Re-tag a new session's uploads once its real ID is known */
+  renameSession: (fromSessionId: string, toSessionId: string) => void;
+
+  /** Delete uploads created before a timestamp, unless held */
+  prune: (olderThan: number) => Promise<void>;
+
+  /** Delete expired uploads every `intervalMs` until stop() */
+  startPruning: (intervalMs: number) => void;
+
+  /** Stop pruning */
+  stop: () => void;
+}
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+/**
+ * Whether a MIME type matches an allow list ('text/*' matches any text type).
+ */
+export function isTypeAllowed(type: string, allowedTypes: string[]): boolean {
+  const base = type.split(';')[0].trim().toLowerCase();
+  return allowedTypes.some((allowed) =>
+    allowed.endsWith('/*')
+      ? base.startsWith(allowed.slice(0, -1))
+      : base === allowed.toLowerCase()
+  );
+}
+
+/**
+ * Generate a unique upload ID.
+ */
+function generateUploadId(): string {
+  return `upload-${Date.now()}-${Math.random().toString(36).substring(2, 8)}`;
+}
+
+/**
+ * Keep a filename readable but safe to put on disk.
+ */
+function sanitizeFileName(name: string): string {
+  return name.replace(/[^A-Za-z0-9._-]/g, '_').slice(-100) || 'file';
+}
+
+function toInfo(upload: StoredUpload): AttachmentInfo {
+  return { id: upload.id, name: upload.name, type: upload.type, size: upload.size };
+}
+
+function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json' },
+  });
+}
+
+// =============================================================================
+// Prompt Building
+// =============================================================================
+
+/**
+ * Append attachment paths to a text prompt.
+ */
+export function formatAttachmentPrompt(content: string, uploads: StoredUpload[]): string {
+  if (uploads.length === 0) return content;
+
+  const lines = uploads.map((u) => `- ${u.path} (${u.name}, ${u.type})`);
+  return `${content}\n\nAttached files:\n${lines.join('\n')}`;
+}
+
+/**
+ * Build stream-json content for a message: images inline, other files by path.
+ */
+export async function buildUserContent(
+  content: string,
+  uploads: StoredUpload[]
+): Promise<UserContentBlock[]> {
+  const images = uploads.filter((u) => IMAGE_TYPES.includes(u.type));
+  const files = uploads.filter((u) => !IMAGE_TYPES.includes(u.type));
+
+  const blocks: UserContentBlock[] = [];
+  for (const image of images) {
+    const data = await readFile(image.path);
+    blocks.push({
+      type: 'image',
+      source: { type: 'base64', media_type: image.type, data: data.toString('base64') },
+    });
+  }
+  blocks.push({ type: 'text', text: formatAttachmentPrompt(content, files) });
+
+  return blocks;
+}
+
+// =============================================================================
+// Upload Store Factory
+// =============================================================================
+
+/**
+ * Create an upload store rooted at `config.dir`.
+ */
+export function createUploadStore(config: Required<UploadConfig>): UploadStore {
+  const uploads = new Map<string, StoredUpload>();
+  // Turns (queued or running) using each upload
+  const holds = new Map<string, number>();
+  let pruneTimer: ReturnType<typeof setInterval> | null = null;
+
+  async function prune(olderThan: number): Promise<void> {
+    for (const [id, upload] of uploads) {
+      if (upload.createdAt < olderThan && !holds.has(id)) {
+        uploads.delete(id);
+        await rm(upload.path, { force: true });
+      }
+    }
+  }
+
+  return {
+    async handleRequest(req) {
+      if (req.method !== 'POST') {
+        return new Response('Method Not Allowed', { status: 405 });
+      }
+
+      const sessionId = new URL(req.url).searchParams.get('sessionId') ?? undefined;
+      if (sessionId !== undefined && !SESSION_ID_PATTERN.test(sessionId)) {
+        return jsonResponse({ error: 'Invalid session ID' }, 400);
+      }
+
+      // Reject obviously oversized bodies before reading them
+      const length = Number(req.headers.get('content-length') ?? 0);
+      if (length > config.maxBytes + 64 * 1024) {
+        return jsonResponse({ error: 'File too large' }, 413);
+      }
+
+      let file: ReturnType<FormData['get']>;
+      try {
+        file = (await req.formData()).get('file');
+      } catch {
+        return jsonResponse({ error: 'Expected multipart form data' }, 400);
+      }
+      if (!(file instanceof Blob)) {
+        return jsonResponse({ error: 'Missing file field' }, 400);
+      }
+
+      if (file.size > config.maxBytes) {
+        return jsonResponse({ error: 'File too large' }, 413);
+      }
+      const type = (file.type || 'application/octet-stream').split(';')[0].trim().toLowerCase();
+      if (!isTypeAllowed(type, config.allowedTypes)) {
+        return jsonResponse({ error: `File type not allowed: ${type}` }, 415);
+      }
+
+      await prune(Date.now() - config.ttlMs);
+
+      const id = generateUploadId();
+      const name = file instanceof File && file.name ? file.name : 'file';
+      const dir = join(config.dir, sessionId ?? UNASSIGNED_DIR);
+      const path = join(dir, `${id}-${sanitizeFileName(name)}`);
+
+      await mkdir(dir, { recursive: true });
+      await Bun.write(path, file);
+
+      const upload: StoredUpload = {
+        id,
+        name,
+        type,
+        size: file.size,
+        path,
+        sessionId,
+        createdAt: Date.now(),
+      };
+      uploads.set(id, upload);
+      console.log(`[Uploads] Stored ${name} (${file.size} bytes) for ${sessionId?.substring(0, 8) ?? 'new session'}`);
+
+      return jsonResponse({ upload: toInfo(upload) }, 201);
+    },
+
+    resolve(ids, sessionId) {
+      return ids.map((id) => {
+        const upload = uploads.get(id);
+        if (!upload) {
+          throw new Error(`Unknown attachment: ${id}`);
+        }
+        if (upload.sessionId && upload.sessionId !== sessionId) {
+          throw new Error(`Attachment belongs to another session: ${id}`);
+        }
+        // Pruning may delete it at any moment
+        if (upload.createdAt < Date.now() - config.ttlMs) {
+          throw new Error(`Attachment expired: ${id}`);
+        }
+        return upload;
+      });
+    },
+
+    hold(held) {
+      for (const upload of held) {
+        holds.set(upload.id, (holds.get(upload.id) ?? 0) + 1);
+      }
+    },
+
+    release(held) {
+      for (const upload of held) {
+        const count = (holds.get(upload.id) ?? 0) - 1;
+        if (count > 0) {
+          holds.set(upload.id, count);
+        } else {
+          holds.delete(upload.id);
+        }
+      }
+    },
+
+    renameSession(fromSessionId, toSessionId) {
+      for (const upload of uploads.values()) {
+        if (upload.sessionId === fromSessionId) {
+          upload.sessionId = toSessionId;
+        }
+      }
+    },
+
+    prune,
+
+    startPruning(intervalMs) {
+      if (pruneTimer) clearInterval(pruneTimer);
+      pruneTimer = setInterval(() => {
+        prune(Date.now() - config.ttlMs).catch((error) => {
+          console.error('[Uploads] Failed to prune uploads:', error);
+        });
+      }, intervalMs);
+    },
+
+    stop() {
+      if (pruneTimer) {
+        clearInterval(pruneTimer);
+        pruneTimer = null;
+      }
+    },
+  };
+}
+
+/**
+ * Public description of stored uploads (drops paths).
+ */
+export function describeUploads(uploads: StoredUpload[]): AttachmentInfo[] {
+  return uploads.map(toInfo);
+}
@@ -5,6 +5,16 @@
  */
 
 import { describe, expect, test, mock, beforeEach, afterEach } from 'bun:test';
+import { PROTOCOL_LIMITS } from 'cc-chat-protocol';
+import {
+  broadcastChat,
+  handleClientMessage,
+  moveSubscribers,
+  registerClient,
+  unregisterClient,
+  type ClaudeWebSocket,
+  type ClientMessageHandlers,
+} from './websocket';
 
 // =============================================================================
 // Chat State Management Tests
@@ -163,7 +173,7 @@ describe('Chat State Management', () => {
 describe('Event Buffer', () => {
   interface WebSocketMessage {
     type: string;
-    seq: number;
+    sessionSeq: number;
     timestamp: number;
     sessionId: string;
     payload: object;
@@ -175,14 +185,14 @@ describe('Event Buffer', () => {
     // Add events
     buffer.push({
       type: 'chat',
-      seq: 1,
+      sessionSeq: 1,
       timestamp: Date.now(),
       sessionId: 'session-1',
       payload: { action: 'token', content: 'a' },
     });
     buffer.push({
       type: 'chat',
-      seq: 2,
+      sessionSeq: 2,
       timestamp: Date.now(),
       sessionId: 'session-1',
       payload: { action: 'token', content: 'b' },
@@ -195,21 +205,21 @@ describe('Event Buffer', () => {
     const buffer: WebSocketMessage[] = [
       {
         type: 'chat',
-        seq: 1,
+        sessionSeq: 1,
         timestamp: Date.now(),
         sessionId: 's1',
         payload: {},
       },
       {
         type: 'chat',
-        seq: 2,
+        sessionSeq: 2,
         timestamp: Date.now(),
         sessionId: 's1',
         payload: {},
       },
       {
         type: 'chat',
-        seq: 3,
+        sessionSeq: 3,
         timestamp: Date.now(),
         sessionId: 's1',
         payload: {},
@@ -218,11 +228,11 @@ describe('Event Buffer', () => {
 
     // Client has seq 1, needs events after that
     const lastSeq = 1;
-    const missedEvents = buffer.filter((e) => e.seq > lastSeq);
+    const missedEvents = buffer.filter((e) => e.sessionSeq > lastSeq);
 
     expect(missedEvents.length).toBe(2);
-    expect(missedEvents[0].seq).toBe(2);
-    expect(missedEvents[1].seq).toBe(3);
+    expect(missedEvents[0].sessionSeq).toBe(2);
+    expect(missedEvents[1].sessionSeq).toBe(3);
   });
 
   test('trims buffer when too large', () => {
@@ -233,7 +243,7 @@ describe('Event Buffer', () => {
     for (let i = 1; i <= 150; i++) {
       buffer.push({
         type: 'chat',
-        seq: i,
+        sessionSeq: i,
         timestamp: Date.now(),
         sessionId: 's1',
         payload: {},
@@ -246,7 +256,7 @@ describe('Event Buffer', () => {
     }
 
     expect(buffer.length).toBe(100);
-    expect(buffer[0].seq).toBe(51); // Kept the most recent 100
+    expect(buffer[0].sessionSeq).toBe(51); // Kept the most recent 100
   });
 });
 
@@ -442,14 +452,14 @@ describe('Message Handling', () => {
 
   test('system catch_up action sends missed events', () => {
     interface Event {
-      seq: number;
+      sessionSeq: number;
       payload: object;
     }
 
     const buffer: Event[] = [
-      { seq: 1, payload: { action: 'token', content: 'a' } },
-      { seq: 2, payload: { action: 'token', content: 'b' } },
-      { seq: 3, payload: { action: 'complete' } },
+      { sessionSeq: 1, payload: { action: 'token', content: 'a' } },
+      { sessionSeq: 2, payload: { action: 'token', content: 'b' } },
+      { sessionSeq: 3, payload: { action: 'complete' } },
     ];
 
     const message = {
@@ -468,15 +478,15 @@ describe('Message Handling', () => {
       };
       if (payload.action === 'catch_up' && payload.sessionId) {
         const lastSeq = payload.lastSeq || 0;
-        const missedEvents = buffer.filter((e) => e.seq > lastSeq);
+        const missedEvents = buffer.filter((e) => e.sessionSeq > lastSeq);
         sentSnapshot = { events: missedEvents };
       }
     }
 
     expect(sentSnapshot).toBeDefined();
     expect(sentSnapshot!.events.length).toBe(2);
-    expect(sentSnapshot!.events[0].seq).toBe(2);
-    expect(sentSnapshot!.events[1].seq).toBe(3);
+    expect(sentSnapshot!.events[0].sessionSeq).toBe(2);
+    expect(sentSnapshot!.events[1].sessionSeq).toBe(3);
   });
 });
 
@@ -706,3 +716,272 @@ describe('Snapshot Message', () => {
     expect(snapshot.payload.currentSeq).toBe(3);
   });
 });
+
+// =============================================================================
+// Multiple Session Tests
+// =============================================================================
+
+describe('Multiple Sessions', () => {
+  interface FakeClient {
+    ws: ClaudeWebSocket;
+    received: Array<{ type: string; sessionId?: string; payload: { action: string } }>;
+  }
+
+  const connected: FakeClient[] = [];
+
+  function connect(...sessionIds: string[]): FakeClient {
+    const client: FakeClient = { ws: undefined as unknown as ClaudeWebSocket, received: [] };
+    client.ws = {
+      send: (data: string) => client.received.push(JSON.parse(data)),
+    } as unknown as ClaudeWebSocket;
+    registerClient(client.ws);
+    connected.push(client);
+    for (const sessionId of sessionIds) {
+      send(client, { type: 'system', payload: { action: 'subscribe', sessionId } });
+    }
+    client.received = [];
+    return client;
+  }
+
+  function send(client: FakeClient, message: object, handlers = createHandlers()) {
+    handleClientMessage(client.ws, JSON.stringify({ timestamp: Date.now(), ...message }), handlers);
+    return handlers;
+  }
+
+  function createHandlers() {
+    return {
+      onHello: mock(() => {}),
+      onChat: mock(() => {}),
+      onCancel: mock(() => {}),
+      onPermission: mock(() => {}),
+      onAnswer: mock(() => {}),
+      onReorderQueue: mock(() => {}),
+      onRemoveQueued: mock(() => {}),
+      onListSessions: mock(() => {}),
+      onLoadHistory: mock(() => {}),
+      onListProjects: mock(() => {}),
+    } satisfies ClientMessageHandlers;
+  }
+
+  const sessionsOf = (client: FakeClient) => client.received.map((m) => m.sessionId);
+
+  afterEach(() => {
+    for (const client of connected.splice(0)) {
+      unregisterClient(client.ws);
+    }
+  });
+
+  test('a client receives events from every session it follows', () => {
+    const both = connect('multi-a', 'multi-b');
+    const onlyB = connect('multi-b');
+
+    broadcastChat('multi-a', { action: 'token', content: 'a' });
+    broadcastChat('multi-b', { action: 'token', content: 'b' });
+
+    expect(sessionsOf(both)).toEqual(['multi-a', 'multi-b']);
+    expect(sessionsOf(onlyB)).toEqual(['multi-b']);
+  });
+
+  test('unsubscribe stops one session only', () => {
+    const client = connect('unsub-a', 'unsub-b');
+    send(client, { type: 'system', payload: { action: 'unsubscribe', sessionId: 'unsub-a' } });
+
+    broadcastChat('unsub-a', { action: 'token', content: 'a' });
+    broadcastChat('unsub-b', { action: 'token', content: 'b' });
+
+    expect(sessionsOf(client)).toEqual(['unsub-b']);
+  });
+
+  test('chat actions apply to the session the message names', () => {
+    const client = connect('target-a', 'target-b');
+
+    const named = send(client, { type: 'chat', sessionId: 'target-b', payload: { action: 'cancel' } });
+    expect(named.onCancel).toHaveBeenCalledWith('target-b');
+
+    // Ambiguous with two sessions and no sessionId
+    const unnamed = send(client, { type: 'chat', payload: { action: 'cancel' } });
+    expect(unnamed.onCancel).not.toHaveBeenCalled();
+  });
+
+  test('a send with a placeholder starts a new session', () => {
+    const client = connect('existing');
+
+    const handlers = send(client, {
+      type: 'chat',
+      payload: { action: 'send', content: 'Hi', newSessionId: 'new-abc' },
+    });
+
+    const [, sessionId, , , , , newSessionId] = handlers.onChat.mock.calls[0] as unknown[];
+    expect(sessionId).toBeUndefined();
+    expect(newSessionId).toBe('new-abc');
+  });
+
+  test('a session keeps the project it was subscribed with', () => {
+    const client = connect();
+    send(client, { type: 'system', payload: { action: 'subscribe', sessionId: 'proj-a', projectId: 'api' } });
+    send(client, { type: 'system', payload: { action: 'subscribe', sessionId: 'proj-b', projectId: 'web' } });
+
+    const chat = send(client, { type: 'chat', sessionId: 'proj-a', payload: { action: 'send', content: 'Hi' } });
+    const [, , , chatProject] = chat.onChat.mock.calls[0] as unknown[];
+    expect(chatProject).toBe('api');
+
+    const history = send(client, { type: 'system', payload: { action: 'load_history', sessionId: 'proj-b' } });
+    const [, , historyProject] = history.onLoadHistory.mock.calls[0] as unknown[];
+    expect(historyProject).toBe('web');
+
+    // A new session isn't tied to either
+    const fresh = send(client, {
+      type: 'chat',
+      payload: { action: 'send', content: 'Hi', newSessionId: 'new-proj' },
+    });
+    const [, , , freshProject] = fresh.onChat.mock.calls[0] as unknown[];
+    expect(freshProject).toBeUndefined();
+  });
+
+  test('placeholder subscribers move to the real session', () => {
+    const client = connect('new-move');
+    moveSubscribers('new-move', 'real-move');
+
+    expect(client.received[0]).toMatchObject({
+      type: 'system',
+      sessionId: 'real-move',
+      payload: { action: 'session_started', sessionId: 'real-move', previousSessionId: 'new-move' },
+    });
+
+    broadcastChat('new-move', { action: 'token', content: 'old' });
+    broadcastChat('real-move', { action: 'token', content: 'new' });
+    expect(sessionsOf(client)).toEqual(['real-move', 'real-move']);
+  });
+});
+
+// =============================================================================
+// Message Validation Tests
+// =============================================================================
+
+describe('Message Validation', () => {
+  const received: Array<{ type: string; payload: Record<string, unknown> }> = [];
+  const ws = {
+    send: (data: string) => received.push(JSON.parse(data)),
+  } as unknown as ClaudeWebSocket;
+
+  function createHandlers() {
+    return {
+      onHello: mock(() => {}),
+      onChat: mock(() => {}),
+      onCancel: mock(() => {}),
+      onPermission: mock(() => {}),
+      onAnswer: mock(() => {}),
+      onReorderQueue: mock(() => {}),
+      onRemoveQueued: mock(() => {}),
+      onListSessions: mock(() => {}),
+      onLoadHistory: mock(() => {}),
+      onListProjects: mock(() => {}),
+    } satisfies ClientMessageHandlers;
+  }
+
+  beforeEach(() => {
+    registerClient(ws);
+    received.length = 0;
+  });
+
+  afterEach(() => {
+    unregisterClient(ws);
+  });
+
+  test('invalid JSON gets an invalid_json error', () => {
+    handleClientMessage(ws, '{oops', createHandlers());
+
+    expect(received).toHaveLength(1);
+    expect(received[0]).toMatchObject({
+      type: 'system',
+      payload: { action: 'error', code: 'invalid_json', error: 'Message is not valid JSON' },
+    });
+  });
+
+  test('errors carry the requestId of the message that caused them', () => {
+    const handlers = createHandlers();
+    handleClientMessage(
+      ws,
+      JSON.stringify({ type: 'chat', requestId: 'req-7', payload: { action: 'complete' } }),
+      handlers
+    );
+
+    expect(received[0].payload).toEqual({
+      action: 'error',
+      code: 'unknown_action',
+      requestId: 'req-7',
+      error: 'Unknown chat action: complete',
+    });
+    expect(handlers.onChat).not.toHaveBeenCalled();
+  });
+
+  test('prompts over the length limit never reach onChat', () => {
+    const handlers = createHandlers();
+    const content = 'x'.repeat(PROTOCOL_LIMITS.MAX_PROMPT_LENGTH + 1);
+    handleClientMessage(
+      ws,
+      JSON.stringify({ type: 'chat', requestId: 'req-8', payload: { action: 'send', content } }),
+      handlers
+    );
+
+    expect(received[0].payload).toMatchObject({ code: 'prompt_too_long', requestId: 'req-8' });
+    expect(handlers.onChat).not.toHaveBeenCalled();
+  });
+
+  test('malformed payloads name the bad field', () => {
+    const handlers = createHandlers();
+    handleClientMessage(
+      ws,
+      JSON.stringify({ type: 'chat', payload: { action: 'approve', permissionId: 42 } }),
+      handlers
+    );
+
+    expect(received[0].payload).toMatchObject({
+      code: 'invalid_message',
+      error: 'payload.permissionId: Expected string, received number',
+    });
+    expect(handlers.onPermission).not.toHaveBeenCalled();
+  });
+
+  test('handlers get the requestId of the message', () => {
+    const handlers = createHandlers();
+    handleClientMessage(
+      ws,
+      JSON.stringify({ type: 'system', requestId: 'req-10', payload: { action: 'list_sessions' } }),
+      handlers
+    );
+
+    expect(handlers.onListSessions).toHaveBeenCalledWith(ws, undefined, 'req-10');
+  });
+
+  test('a failing handler is reported as an internal_error', async () => {
+    const handlers = {
+      ...createHandlers(),
+      onLoadHistory: mock(() => Promise.reject(new Error('disk on fire'))),
+    };
+    await handleClientMessage(
+      ws,
+      JSON.stringify({ type: 'system', requestId: 'req-11', payload: { action: 'load_history', sessionId: 's1' } }),
+      handlers
+    );
+
+    expect(received[0].payload).toEqual({
+      action: 'error',
+      code: 'internal_error',
+      requestId: 'req-11',
+      error: 'Server error: disk on fire',
+    });
+  });
+
+  test('valid messages are dispatched without a reply', () => {
+    const handlers = createHandlers();
+    handleClientMessage(
+      ws,
+      JSON.stringify({ type: 'system', requestId: 'req-9', payload: { action: 'hello', protocolVersion: 2 } }),
+      handlers
+    );
+
+    expect(received).toHaveLength(0);
+    expect(handlers.onHello).toHaveBeenCalledWith(ws, 2, [], 'req-9');
+  });
+});
@@ -5,14 +5,26 @@
  */
 
 import type { ServerWebSocket } from 'bun';
+import { parseClientMessage } from 'cc-chat-protocol';
 import type {
   WebSocketMessage,
   WebSocketClientData,
+  Capability,
+  ChatAction,
   ChatPayload,
   SystemPayload,
   ChatState,
-  WS_CONFIG,
+  PermissionBehavior,
+  QueuedMessage,
+  QuestionData,
+  ToolUseData,
+  ToolDiff,
+  TurnStats,
+  MessageOptions,
 } from './types';
+import { WS_CONFIG } from './types';
+import { addTurnStats } from './claude';
+import { createSqliteSessionStore, type SessionStore } from './store';
 
 // =============================================================================
 // Types
@@ -20,6 +32,58 @@ import type {
 
 export type ClaudeWebSocket = ServerWebSocket<WebSocketClientData>;
 
+/**
+ * Callbacks for client actions that need the server (spawning Claude, etc).
+ * Handlers that answer a request get its requestId, to put in their errors;
+ * whatever they throw or reject with is reported as an internal_error.
+ */
+export interface ClientMessageHandlers {
+  onHello: (
+    ws: ClaudeWebSocket,
+    protocolVersion: number,
+    features: string[],
+    requestId?: string
+  ) => void | Promise<void>;
+  onChat: (
+    ws: ClaudeWebSocket,
+    sessionId: string | undefined,
+    content: string,
+    projectId?: string,
+    options?: MessageOptions,
+    attachments?: string[],
+    newSessionId?: string,
+    requestId?: string
+  ) => void | Promise<void>;
+  onCancel: (sessionId: string) => void;
+  onPermission: (
+    ws: ClaudeWebSocket,
+    permissionId: string,
+    decision: PermissionBehavior,
+    reason?: string
+  ) => void;
+  onAnswer: (
+    ws: ClaudeWebSocket,
+    sessionId: string,
+    questionId: string,
+    answers: Record<string, string | string[]>,
+    requestId?: string
+  ) => void | Promise<void>;
+  onReorderQueue: (sessionId: string, queueId: string, position: number) => void;
+  onRemoveQueued: (sessionId: string, queueId: string) => void;
+  onListSessions: (
+    ws: ClaudeWebSocket,
+    projectId?: string,
+    requestId?: string
+  ) => void | Promise<void>;
+  onLoadHistory: (
+    ws: ClaudeWebSocket,
+    sessionId: string,
+    projectId?: string,
+    requestId?: string
+  ) => void | Promise<void>;
+  onListProjects: (ws: ClaudeWebSocket) => void;
+}
+
 // =============================================================================
 // State
 // =============================================================================
@@ -27,18 +91,55 @@ export type ClaudeWebSocket = ServerWebSocket<WebSocketClientData>;
 /** Connected clients */
 const clients = new Set<ClaudeWebSocket>();
 
-/** Event buffers per session for catch-up */
-const sessionBuffers = new Map<string, WebSocketMessage[]>();
+/** Durable store for events, chat state and session metadata */
+let sessionStore: SessionStore | null = null;
 
-/** Global sequence counter */
-let globalSeq = 0;
-
-/** Per-session sequence counters */
+/** Per-session sequence counters (cache over the store) */
 const sessionSeqs = new Map<string, number>();
 
-/** Active chat state per session (for catch-up) */
+/** Active chat state per session (cache over the store) */
 const chatStates = new Map<string, ChatState>();
 
+/** Last broadcast time per cached session, for cache eviction */
+const sessionActivity = new Map<string, number>();
+
+/** Chat actions only sent to connections that enabled a capability */
+const ACTION_CAPABILITIES: Partial<Record<ChatAction, Capability>> = {
+  thinking_delta: 'thinking',
+  tool_output: 'subagents',
+  permission_request: 'permissions',
+  permission_resolved: 'permissions',
+  question: 'questions',
+  question_resolved: 'questions',
+  queued: 'queue',
+  queue_update: 'queue',
+};
+
+// =============================================================================
+// Session Store
+// =============================================================================
+
+/**
+ * Use a session store for events and state.
+ * Clears the in-memory caches so they reload from the new store.
+ */
+export function setSessionStore(store: SessionStore): void {
+  sessionStore = store;
+  sessionSeqs.clear();
+  chatStates.clear();
+  sessionActivity.clear();
+}
+
+/**
+ * Get the session store (an in-memory SQLite store if none was set).
+ */
+export function getSessionStore(): SessionStore {
+  if (!sessionStore) {
+    sessionStore = createSqliteSessionStore(':memory:');
+  }
+  return sessionStore;
+}
+
 // =============================================================================
 // Client Management
 // =============================================================================
@@ -57,25 +158,21 @@ export function registerClient(ws: ClaudeWebSocket): void {
   // Initialize client data
   ws.data = {
     clientId: generateClientId(),
+    sessionIds: new Set(),
+    sessionProjects: new Map(),
     connectedAt: new Date(),
     lastPing: new Date(),
-    lastSeq: 0,
+    connectionSeq: 0,
   };
 
   clients.add(ws);
 
   // Send connected message with current state
-  const connectedMessage: WebSocketMessage<SystemPayload> = {
+  sendToClient(ws, {
     type: 'system',
-    seq: ++globalSeq,
     timestamp: Date.now(),
-    payload: {
-      action: 'connected',
-      currentSeq: globalSeq,
-    },
-  };
-
-  ws.send(JSON.stringify(connectedMessage));
+    payload: { action: 'connected' },
+  });
 
   console.log(`[WS] Client connected: ${ws.data.clientId}. Total: ${clients.size}`);
 }
@@ -89,18 +186,26 @@ export function unregisterClient(ws: ClaudeWebSocket): void {
 }
 
 /**
- * Subscribe a client to a session.
+ * Subscribe a client to a session (in addition to any it already follows).
+ * `projectId` is the project the client picked for it, used when a later
+ * message about the session names none.
  */
-export function subscribeToSession(ws: ClaudeWebSocket, sessionId: string): void {
-  ws.data.sessionId = sessionId;
+export function subscribeToSession(
+  ws: ClaudeWebSocket,
+  sessionId: string,
+  projectId?: string
+): void {
+  ws.data.sessionIds.add(sessionId);
+  if (projectId) {
+    ws.data.sessionProjects.set(sessionId, projectId);
+  }
   console.log(`[WS] Client ${ws.data.clientId} subscribed to session ${sessionId.substring(0, 8)}`);
 
   // Send current chat state if available
-  const chatState = chatStates.get(sessionId);
+  const chatState = getChatState(sessionId);
   if (chatState) {
-    const stateMessage: WebSocketMessage<SystemPayload> = {
+    sendToClient(ws, {
       type: 'system',
-      seq: ++globalSeq,
       timestamp: Date.now(),
       sessionId,
       payload: {
@@ -109,22 +214,133 @@ export function subscribeToSession(ws: ClaudeWebSocket, sessionId: string): void
         chatState,
         currentSeq: getSessionSeq(sessionId),
       },
-    };
-    ws.send(JSON.stringify(stateMessage));
+    });
   }
 }
 
 /**
- * Unsubscribe a client from their session.
+ * Unsubscribe a client from one of its sessions.
  */
-export function unsubscribeFromSession(ws: ClaudeWebSocket): void {
-  const sessionId = ws.data.sessionId;
-  ws.data.sessionId = undefined;
-  if (sessionId) {
+export function unsubscribeFromSession(ws: ClaudeWebSocket, sessionId: string): void {
+  ws.data.sessionProjects.delete(sessionId);
+  if (ws.data.sessionIds.delete(sessionId)) {
     console.log(`[WS] Client ${ws.data.clientId} unsubscribed from session ${sessionId.substring(0, 8)}`);
   }
 }
 
+/**
+ * Move a new session's subscribers from its placeholder ID to the real one
+ * the CLI reported, telling each client so it can follow the session.
+ */
+export function moveSubscribers(fromSessionId: string, toSessionId: string): void {
+  for (const client of clients) {
+    if (!client.data.sessionIds.delete(fromSessionId)) continue;
+    client.data.sessionIds.add(toSessionId);
+    const projectId = client.data.sessionProjects.get(fromSessionId);
+    if (projectId) {
+      client.data.sessionProjects.delete(fromSessionId);
+      client.data.sessionProjects.set(toSessionId, projectId);
+    }
+    sendSystemMessage(
+      client,
+      { action: 'session_started', sessionId: toSessionId, previousSessionId: fromSessionId },
+      toSessionId
+    );
+  }
+}
+
+/**
+ * Drop what is kept for a session, in memory and in the store (a new
+ * session's placeholder, once the real ID is known).
+ */
+export function forgetSession(sessionId: string): void {
+  sessionActivity.delete(sessionId);
+  sessionSeqs.delete(sessionId);
+  chatStates.delete(sessionId);
+  getSessionStore().deleteSession(sessionId);
+}
+
+/**
+ * The session a client message is about: the message's sessionId, or the
+ * client's only session for clients that don't say. Undefined for sessions
+ * the client doesn't follow.
+ */
+function getTargetSession(ws: ClaudeWebSocket, sessionId: string | null | undefined): string | undefined {
+  if (sessionId) {
+    return ws.data.sessionIds.has(sessionId) ? sessionId : undefined;
+  }
+  if (ws.data.sessionIds.size === 1) {
+    return ws.data.sessionIds.values().next().value;
+  }
+  return undefined;
+}
+
+/**
+ * The project a client subscribed to a session with, if any.
+ */
+function getSessionProject(ws: ClaudeWebSocket, sessionId: string | undefined): string | undefined {
+  return sessionId ? ws.data.sessionProjects.get(sessionId) : undefined;
+}
+
+/**
+ * Refuse a message about a session the client doesn't follow.
+ */
+function rejectUnfollowedSession(
+  ws: ClaudeWebSocket,
+  sessionId: string | null | undefined,
+  requestId?: string
+): void {
+  sendSystemMessage(ws, {
+    action: 'error',
+    code: 'request_failed',
+    requestId,
+    error: sessionId ? `Not subscribed to session: ${sessionId}` : 'No session given',
+  });
+}
+
+/**
+ * Record what a client agreed to in the hello handshake.
+ */
+export function setClientCapabilities(
+  ws: ClaudeWebSocket,
+  protocolVersion: number,
+  capabilities: Capability[]
+): void {
+  ws.data.protocolVersion = protocolVersion;
+  ws.data.capabilities = new Set(capabilities);
+}
+
+/**
+ * Whether a client takes a chat event (clients that never said hello take all).
+ */
+function acceptsChat(ws: ClaudeWebSocket, payload: ChatPayload): boolean {
+  const capability = ACTION_CAPABILITIES[payload.action];
+  return !capability || !ws.data.capabilities || ws.data.capabilities.has(capability);
+}
+
+/**
+ * Send a message to a single client, stamping its connectionSeq.
+ */
+function sendToClient(ws: ClaudeWebSocket, message: WebSocketMessage): void {
+  ws.send(JSON.stringify({ ...message, connectionSeq: ++ws.data.connectionSeq }));
+}
+
+/**
+ * Send a system message to a single client.
+ */
+export function sendSystemMessage(
+  ws: ClaudeWebSocket,
+  payload: SystemPayload,
+  sessionId?: string
+): void {
+  sendToClient(ws, {
+    type: 'system',
+    timestamp: Date.now(),
+    sessionId,
+    payload,
+  });
+}
+
 /**
  * Get client count.
  */
@@ -137,39 +353,140 @@ export function getClientCount(): number {
 // =============================================================================
 
 /**
- * Handle incoming message from a client.
+ * Handle incoming message from a client. Messages that fail validation, and
+ * handlers that fail, are answered with a system error carrying its code and
+ * the message's requestId.
  */
-export function handleClientMessage(
+export async function handleClientMessage(
   ws: ClaudeWebSocket,
   message: string,
-  onChat: (ws: ClaudeWebSocket, sessionId: string | undefined, content: string) => void,
-  onCancel: (sessionId: string) => void
-): void {
-  try {
-    const parsed = JSON.parse(message) as WebSocketMessage;
-
-    if (parsed.type === 'chat') {
-      const payload = parsed.payload as ChatPayload;
+  handlers: ClientMessageHandlers
+): Promise<void> {
+  const parsed = parseClientMessage(message);
+  if (!parsed.ok) {
+    const { code, message: error, requestId } = parsed.error;
+    sendSystemMessage(ws, { action: 'error', code, requestId, error });
+    return;
+  }
 
-      if (payload.action === 'send' && payload.content) {
-        onChat(ws, ws.data.sessionId, payload.content);
-      } else if (payload.action === 'cancel' && ws.data.sessionId) {
-        onCancel(ws.data.sessionId);
+  const msg = parsed.message;
+  const { requestId } = msg;
+  try {
+    if (msg.type === 'chat') {
+      const payload = msg.payload;
+      const sessionId = getTargetSession(ws, msg.sessionId);
+
+      if (payload.action === 'send') {
+        // A placeholder means "start a new session", whatever else the client
+        // follows; sending to a named session subscribes to it
+        const target = payload.newSessionId ? undefined : msg.sessionId || sessionId;
+        await handlers.onChat(
+          ws,
+          target,
+          payload.content,
+          payload.projectId ?? getSessionProject(ws, target),
+          payload.options,
+          payload.attachments,
+          payload.newSessionId,
+          requestId
+        );
+      } else if (payload.action === 'approve') {
+        handlers.onPermission(ws, payload.permissionId, 'allow');
+      } else if (payload.action === 'deny') {
+        handlers.onPermission(ws, payload.permissionId, 'deny', payload.reason);
+      } else if (!sessionId) {
+        rejectUnfollowedSession(ws, msg.sessionId, requestId);
+      } else if (payload.action === 'cancel') {
+        handlers.onCancel(sessionId);
+      } else if (payload.action === 'answer') {
+        await handlers.onAnswer(ws, sessionId, payload.questionId, payload.answers, requestId);
+      } else if (payload.action === 'reorder_queue') {
+        handlers.onReorderQueue(sessionId, payload.queueId, payload.position);
+      } else if (payload.action === 'remove_queued') {
+        handlers.onRemoveQueued(sessionId, payload.queueId);
       }
-    } else if (parsed.type === 'system') {
-      const payload = parsed.payload as SystemPayload;
-
-      if (payload.action === 'subscribe' && payload.sessionId) {
-        subscribeToSession(ws, payload.sessionId);
-      } else if (payload.action === 'catch_up') {
-        handleCatchUp(ws, payload.sessionId, payload.lastSeq || 0);
+    } else {
+      const payload = msg.payload;
+
+      if (payload.action === 'hello') {
+        await handlers.onHello(ws, payload.protocolVersion, payload.features ?? [], requestId);
+      } else if (payload.action === 'subscribe') {
+        if (payload.sessionId) {
+          subscribeToSession(ws, payload.sessionId, payload.projectId);
+        }
+      } else if (payload.action === 'unsubscribe') {
+        unsubscribeFromSession(ws, payload.sessionId);
+      } else if (payload.action === 'catch_up' || payload.action === 'get_tool_result') {
+        const sessionId = getTargetSession(ws, payload.sessionId);
+        if (!sessionId) {
+          rejectUnfollowedSession(ws, payload.sessionId, requestId);
+        } else if (payload.action === 'catch_up') {
+          handleCatchUp(ws, sessionId, payload.lastSeq || 0);
+        } else {
+          handleGetToolResult(ws, sessionId, payload.toolId, payload.offset, payload.limit, requestId);
+        }
+      } else if (payload.action === 'list_sessions') {
+        await handlers.onListSessions(ws, payload.projectId, requestId);
+      } else if (payload.action === 'load_history') {
+        await handlers.onLoadHistory(
+          ws,
+          payload.sessionId,
+          payload.projectId ?? getSessionProject(ws, payload.sessionId),
+          requestId
+        );
+      } else if (payload.action === 'list_projects') {
+        handlers.onListProjects(ws);
       }
     }
   } catch (err) {
-    console.error('[WS] Failed to parse message:', err);
+    console.error('[WS] Failed to handle message:', err);
+    sendSystemMessage(ws, {
+      action: 'error',
+      code: 'internal_error',
+      requestId,
+      error: `Server error: ${err instanceof Error ? err.message : String(err)}`,
+    });
   }
 }
 
+/**
+ * Send one page of a tool's stored output.
+ */
+function handleGetToolResult(
+  ws: ClaudeWebSocket,
+  sessionId: string,
+  toolId: string,
+  offset = 0,
+  limit: number = WS_CONFIG.TOOL_RESULT_PAGE_CHARS,
+  requestId?: string
+): void {
+  const content = getSessionStore().getToolResult(sessionId, toolId);
+  if (content === undefined) {
+    sendSystemMessage(
+      ws,
+      { action: 'error', code: 'request_failed', requestId, toolId, error: `Unknown tool result: ${toolId}` },
+      sessionId
+    );
+    return;
+  }
+
+  const start = Math.max(0, Math.floor(offset));
+  const size = Math.min(Math.max(1, Math.floor(limit)), WS_CONFIG.TOOL_RESULT_PAGE_CHARS);
+
+  sendSystemMessage(
+    ws,
+    {
+      action: 'tool_result',
+      sessionId,
+      toolId,
+      offset: start,
+      content: content.slice(start, start + size),
+      totalLength: content.length,
+    },
+    sessionId
+  );
+}
+
 /**
  * Handle catch-up request from a reconnecting client.
  */
@@ -182,13 +499,13 @@ function handleCatchUp(
     return;
   }
 
-  const buffer = sessionBuffers.get(sessionId) || [];
-  const missedEvents = buffer.filter((e) => e.seq > lastSeq);
-  const chatState = chatStates.get(sessionId);
+  const missedEvents = getSessionStore()
+    .getEventsSince(sessionId, lastSeq, WS_CONFIG.MAX_CATCH_UP_EVENTS)
+    .filter((event) => event.type !== 'chat' || acceptsChat(ws, event.payload as ChatPayload));
+  const chatState = getChatState(sessionId);
 
-  const response: WebSocketMessage<SystemPayload> = {
+  sendToClient(ws, {
     type: 'system',
-    seq: ++globalSeq,
     timestamp: Date.now(),
     sessionId,
     payload: {
@@ -198,9 +515,7 @@ function handleCatchUp(
       chatState,
       currentSeq: getSessionSeq(sessionId),
     },
-  };
-
-  ws.send(JSON.stringify(response));
+  });
   console.log(`[WS] Sent ${missedEvents.length} catch-up events to ${ws.data.clientId}`);
 }
 
@@ -209,12 +524,12 @@ function handleCatchUp(
 // =============================================================================
 
 /**
- * Get or create session sequence counter.
+ * Get the current session sequence (loaded from the store on first use).
  */
 function getSessionSeq(sessionId: string): number {
   let seq = sessionSeqs.get(sessionId);
   if (seq === undefined) {
-    seq = 0;
+    seq = getSessionStore().getLastSeq(sessionId);
     sessionSeqs.set(sessionId, seq);
   }
   return seq;
@@ -230,22 +545,11 @@ function nextSessionSeq(sessionId: string): number {
 }
 
 /**
- * Buffer an event for catch-up.
+ * Persist an event for catch-up.
  */
 function bufferEvent(sessionId: string, event: WebSocketMessage): void {
-  let buffer = sessionBuffers.get(sessionId);
-  if (!buffer) {
-    buffer = [];
-    sessionBuffers.set(sessionId, buffer);
-  }
-
-  buffer.push(event);
-
-  // Trim buffer if too large
-  const MAX_BUFFER_SIZE = 100;
-  if (buffer.length > MAX_BUFFER_SIZE) {
-    buffer.splice(0, buffer.length - MAX_BUFFER_SIZE);
-  }
+  getSessionStore().appendEvent(sessionId, event);
+  sessionActivity.set(sessionId, event.timestamp);
 }
 
 /**
@@ -257,7 +561,7 @@ export function broadcastChat(
 ): WebSocketMessage<ChatPayload> {
   const message: WebSocketMessage<ChatPayload> = {
     type: 'chat',
-    seq: nextSessionSeq(sessionId),
+    sessionSeq: nextSessionSeq(sessionId),
     timestamp: Date.now(),
     sessionId,
     payload,
@@ -270,14 +574,10 @@ export function broadcastChat(
   updateChatState(sessionId, payload);
 
   // Send to subscribed clients
-  const messageStr = JSON.stringify(message);
-  let sent = 0;
-
   for (const client of clients) {
-    if (client.data.sessionId === sessionId) {
+    if (client.data.sessionIds.has(sessionId) && acceptsChat(client, payload)) {
       try {
-        client.send(messageStr);
-        sent++;
+        sendToClient(client, message);
       } catch {
         clients.delete(client);
       }
@@ -291,11 +591,9 @@ export function broadcastChat(
  * Broadcast to all connected clients.
  */
 export function broadcastAll(message: WebSocketMessage): void {
-  const messageStr = JSON.stringify(message);
-
   for (const client of clients) {
     try {
-      client.send(messageStr);
+      sendToClient(client, message);
     } catch {
       clients.delete(client);
     }
@@ -306,19 +604,38 @@ export function broadcastAll(message: WebSocketMessage): void {
 // Chat State Management
 // =============================================================================
 
+/**
+ * Create an empty chat state.
+ */
+function createChatState(status: ChatState['status']): ChatState {
+  return {
+    status,
+    accumulatedContent: '',
+    tools: [],
+    todos: null,
+  };
+}
+
+/**
+ * Find a tool anywhere in a tool tree.
+ */
+function findTool(tools: ToolUseData[], toolId: string): ToolUseData | undefined {
+  for (const tool of tools) {
+    if (tool.id === toolId) return tool;
+    const child = tool.children && findTool(tool.children, toolId);
+    if (child) return child;
+  }
+  return undefined;
+}
+
 /**
  * Update the chat state for a session.
  */
 function updateChatState(sessionId: string, payload: ChatPayload): void {
-  let state = chatStates.get(sessionId);
+  let state = getChatState(sessionId);
 
   if (!state) {
-    state = {
-      status: 'idle',
-      accumulatedContent: '',
-      tools: [],
-      todos: null,
-    };
+    state = createChatState('idle');
     chatStates.set(sessionId, state);
   }
 
@@ -328,56 +645,144 @@ function updateChatState(sessionId: string, payload: ChatPayload): void {
       state.accumulatedContent += payload.content || '';
       break;
 
+    case 'thinking_delta':
+      state.status = 'streaming';
+      state.accumulatedThinking = (state.accumulatedThinking ?? '') + (payload.content || '');
+      break;
+
     case 'tool_start':
       state.status = 'streaming';
       if (payload.tool) {
-        state.tools.push({ ...payload.tool });
+        // Subagent tools go under their Task; fall back to the top level if
+        // the Task isn't known (e.g. state restored mid-turn)
+        const parent = payload.tool.parentToolId
+          ? findTool(state.tools, payload.tool.parentToolId)
+          : undefined;
+        if (parent) {
+          parent.children = [...(parent.children ?? []), { ...payload.tool }];
+        } else {
+          state.tools.push({ ...payload.tool });
+        }
       }
       break;
 
     case 'tool_end':
       if (payload.tool) {
-        const tool = state.tools.find((t) => t.id === payload.tool!.id);
+        const tool = findTool(state.tools, payload.tool.id);
         if (tool) {
           Object.assign(tool, payload.tool);
         }
       }
       break;
 
+    case 'tool_output':
+      if (payload.toolId && payload.content) {
+        const tool = findTool(state.tools, payload.toolId);
+        if (tool) {
+          tool.output = (tool.output ?? '') + payload.content;
+        }
+      }
+      break;
+
     case 'todo_update':
       if (payload.todos) {
         state.todos = payload.todos;
       }
       break;
 
+    case 'permission_request':
+      if (payload.permission) {
+        state.pendingPermissions = [
+          ...(state.pendingPermissions ?? []),
+          payload.permission,
+        ];
+      }
+      break;
+
+    case 'permission_resolved':
+      state.pendingPermissions = state.pendingPermissions?.filter(
+        (p) => p.id !== payload.permissionId
+      );
+      break;
+
+    case 'question':
+      state.pendingQuestion = payload.question;
+      break;
+
+    case 'question_resolved':
+      if (state.pendingQuestion?.id === payload.questionId) {
+        state.pendingQuestion = undefined;
+      }
+      break;
+
+    case 'queued':
+    case 'queue_update':
+      state.queue = payload.queue;
+      break;
+
     case 'complete':
       state.status = 'complete';
+      state.pendingPermissions = undefined;
+      if (payload.totals) {
+        state.totals = payload.totals;
+      }
       break;
 
     case 'error':
       state.status = 'error';
       state.errorMessage = payload.error;
+      state.pendingPermissions = undefined;
       break;
   }
+
+  // Tokens are already persisted as events; writing the whole state for
+  // each one would rewrite the accumulated text on every token
+  if (payload.action !== 'token' && payload.action !== 'thinking_delta') {
+    getSessionStore().saveChatState(sessionId, state);
+  }
 }
 
 /**
  * Reset chat state for a new message.
+ * The queue and usage totals are kept - they outlive individual responses.
  */
 export function resetChatState(sessionId: string): void {
-  chatStates.set(sessionId, {
-    status: 'streaming',
-    accumulatedContent: '',
-    tools: [],
-    todos: null,
-  });
+  const previous = getChatState(sessionId);
+  const state = createChatState('streaming');
+  state.queue = previous?.queue;
+  state.totals = previous?.totals;
+  chatStates.set(sessionId, state);
+  sessionActivity.set(sessionId, Date.now());
+  getSessionStore().saveChatState(sessionId, state);
+
+  // A new prompt supersedes a question nobody answered
+  if (previous?.pendingQuestion) {
+    broadcastQuestionResolved(sessionId, previous.pendingQuestion.id);
+  }
 }
 
 /**
- * Get chat state for a session.
+ * Get chat state for a session (loaded from the store on first use).
  */
 export function getChatState(sessionId: string): ChatState | undefined {
-  return chatStates.get(sessionId);
+  let state = chatStates.get(sessionId);
+  if (state) return state;
+
+  state = getSessionStore().getChatState(sessionId);
+  if (!state) return undefined;
+
+  // A cache miss on a streaming session means the server restarted mid-turn
+  // (live sessions are never evicted), so the Claude process is gone
+  if (state.status === 'streaming') {
+    state.status = 'error';
+    state.errorMessage = 'Interrupted by server restart';
+    state.pendingPermissions = undefined;
+    state.queue = undefined;
+  }
+
+  chatStates.set(sessionId, state);
+  sessionActivity.set(sessionId, Date.now());
+  return state;
 }
 
 // =============================================================================
@@ -388,6 +793,10 @@ export function broadcastToken(sessionId: string, text: string): void {
   broadcastChat(sessionId, { action: 'token', content: text });
 }
 
+export function broadcastThinkingDelta(sessionId: string, text: string): void {
+  broadcastChat(sessionId, { action: 'thinking_delta', content: text });
+}
+
 export function broadcastToolStart(
   sessionId: string,
   tool: ChatPayload['tool']
@@ -395,13 +804,48 @@ export function broadcastToolStart(
   broadcastChat(sessionId, { action: 'tool_start', tool });
 }
 
+/**
+ * Cut a diff to the whole lines that fit in `limit` characters.
+ */
+function previewDiff(diff: ToolDiff, limit: number): ToolDiff {
+  if (diff.unified.length <= limit) return diff;
+  const cut = diff.unified.lastIndexOf('\n', limit);
+  return { ...diff, unified: diff.unified.slice(0, cut + 1), truncated: true };
+}
+
+/**
+ * Broadcast a finished tool. The full output is stored for get_tool_result;
+ * clients get a preview of it and of any diff.
+ */
 export function broadcastToolEnd(
   sessionId: string,
   tool: ChatPayload['tool']
 ): void {
+  if (tool?.diff) {
+    tool = { ...tool, diff: previewDiff(tool.diff, WS_CONFIG.TOOL_RESULT_PREVIEW_CHARS) };
+  }
+  if (tool?.result !== undefined) {
+    getSessionStore().saveToolResult(sessionId, tool.id, tool.result);
+
+    const limit = WS_CONFIG.TOOL_RESULT_PREVIEW_CHARS;
+    tool = {
+      ...tool,
+      result: tool.result.slice(0, limit),
+      resultSize: tool.result.length,
+      resultTruncated: tool.result.length > limit || undefined,
+    };
+  }
   broadcastChat(sessionId, { action: 'tool_end', tool });
 }
 
+export function broadcastToolOutput(
+  sessionId: string,
+  toolId: string,
+  content: string
+): void {
+  broadcastChat(sessionId, { action: 'tool_output', toolId, content });
+}
+
 export function broadcastTodoUpdate(
   sessionId: string,
   todos: ChatPayload['todos']
@@ -413,14 +857,68 @@ export function broadcastThinking(sessionId: string, message: string): void {
   broadcastChat(sessionId, { action: 'thinking', content: message });
 }
 
-export function broadcastComplete(sessionId: string, result?: string): void {
-  broadcastChat(sessionId, { action: 'complete', content: result });
+export function broadcastComplete(
+  sessionId: string,
+  result?: string,
+  stats?: TurnStats
+): void {
+  const totals = stats ? addTurnStats(getChatState(sessionId)?.totals, stats) : undefined;
+  broadcastChat(sessionId, { action: 'complete', content: result, stats, totals });
 }
 
 export function broadcastError(sessionId: string, error: string): void {
   broadcastChat(sessionId, { action: 'error', error });
 }
 
+export function broadcastPermissionRequest(
+  sessionId: string,
+  permission: ChatPayload['permission']
+): void {
+  broadcastChat(sessionId, { action: 'permission_request', permission });
+}
+
+export function broadcastPermissionResolved(
+  sessionId: string,
+  permissionId: string,
+  decision: PermissionBehavior,
+  reason?: string
+): void {
+  broadcastChat(sessionId, {
+    action: 'permission_resolved',
+    permissionId,
+    decision,
+    reason,
+  });
+}
+
+export function broadcastQuestion(
+  sessionId: string,
+  question: QuestionData
+): void {
+  broadcastChat(sessionId, { action: 'question', question });
+}
+
+export function broadcastQuestionResolved(sessionId: string, questionId: string): void {
+  broadcastChat(sessionId, { action: 'question_resolved', questionId });
+}
+
+export function broadcastQueued(
+  sessionId: string,
+  queueItem: QueuedMessage,
+  position: number,
+  queue: QueuedMessage[]
+): void {
+  broadcastChat(sessionId, { action: 'queued', queueItem, position, queue });
+}
+
+export function broadcastQueueUpdate(
+  sessionId: string,
+  queue: QueuedMessage[],
+  started?: QueuedMessage
+): void {
+  broadcastChat(sessionId, { action: 'queue_update', queue, queueItem: started });
+}
+
 // =============================================================================
 // Periodic Tasks
 // =============================================================================
@@ -438,7 +936,6 @@ export function startPeriodicTasks(): void {
 
     const ping: WebSocketMessage<SystemPayload> = {
       type: 'system',
-      seq: ++globalSeq,
       timestamp: Date.now(),
       payload: { action: 'connected' }, // Using 'connected' as ping
     };
@@ -446,24 +943,20 @@ export function startPeriodicTasks(): void {
     broadcastAll(ping);
   }, 30_000);
 
-  // Cleanup old buffers every minute
+  // Evict idle sessions from the in-memory caches and prune old events
   cleanupInterval = setInterval(() => {
-    const BUFFER_TTL = 5 * 60 * 1000; // 5 minutes
     const now = Date.now();
 
-    for (const [sessionId, buffer] of sessionBuffers) {
-      // Remove events older than TTL
-      const cutoff = now - BUFFER_TTL;
-      const filtered = buffer.filter((e) => e.timestamp > cutoff);
-
-      if (filtered.length === 0) {
-        sessionBuffers.delete(sessionId);
-        sessionSeqs.delete(sessionId);
-        chatStates.delete(sessionId);
-      } else if (filtered.length < buffer.length) {
-        sessionBuffers.set(sessionId, filtered);
-      }
+    for (const [sessionId, lastActivity] of sessionActivity) {
+      if (now - lastActivity < WS_CONFIG.BUFFER_TTL_MS) continue;
+      if (chatStates.get(sessionId)?.status === 'streaming') continue;
+
+      sessionActivity.delete(sessionId);
+      sessionSeqs.delete(sessionId);
+      chatStates.delete(sessionId);
     }
+
+    getSessionStore().pruneEvents(now - WS_CONFIG.EVENT_RETENTION_MS);
   }, 60_000);
 }
 
@@ -489,8 +982,7 @@ export function stopPeriodicTasks(): void {
  * Create the Bun WebSocket handler.
  */
 export function createWebSocketHandler(
-  onChat: (ws: ClaudeWebSocket, sessionId: string | undefined, content: string) => void,
-  onCancel: (sessionId: string) => void
+  handlers: ClientMessageHandlers
 ): {
   open: (ws: ClaudeWebSocket) => void;
   message: (ws: ClaudeWebSocket, message: string | Buffer) => void;
@@ -503,7 +995,7 @@ export function createWebSocketHandler(
 
     message(ws: ClaudeWebSocket, message: string | Buffer) {
       const str = typeof message === 'string' ? message : message.toString();
-      handleClientMessage(ws, str, onChat, onCancel);
+      void handleClientMessage(ws, str, handlers);
     },
 
     close(ws: ClaudeWebSocket) {